@@ -5,24 +5,70 @@ import authorsRouter from './routes/authors';
 import genresRouter from './routes/genres';
 import booksRouter from './routes/books';
 import bookCopiesRouter from './routes/bookCopies';
+import patronsRouter from './routes/patrons';
+import adminRouter from './routes/admin';
+import searchRouter from './routes/search';
+import catalogRouter from './routes/catalog';
+import authRouter from './routes/auth';
+import usersRouter from './routes/users';
+import auditRouter from './routes/audit';
+import trashRouter from './routes/trash';
+import branchesRouter from './routes/branches';
+import transfersRouter from './routes/transfers';
 import { initializeData } from './data/sampleData';
+import { mergePatchMediaTypes } from './middleware/mergePatch';
+import { authenticate } from './middleware/auth';
+import { idempotentPost } from './middleware/idempotency';
+import { assignRequestId } from './middleware/requestId';
+import { handleErrors, notFoundRoute } from './middleware/errors';
+import { openApiSchemas } from './models/schemas';
+import { finePolicy, holdPolicy, idempotencyPolicy, listPolicy } from './config';
+import { errorCodes } from './errors';
+import { expireUncollectedHolds } from './services/holds';
+import { runOverdueSweep } from './services/overdue';
+import { migrateLegacyCopyStatuses } from './services/copyLifecycle';
+import { assignMissingBarcodes } from './services/barcodes';
+import { assignMissingSortNames } from './services/authors';
+import { forgetExpiredResponses } from './services/idempotency';
+import { ensureAdminUser } from './services/auth';
+import { bookExpansions, bookCopyExpansions } from './services/expansion';
 
 const app = express();
 const PORT = process.env.PORT || 3000;
 
+/**
+ * Gives every request an ID, sent back in the X-Request-Id header and in error responses,
+ * and keeps track of the request while it is handled so that the changes it makes can be audited.
+ */
+app.use(assignRequestId);
+
 /**
  * uses the express.json() middleware to parse JSON request bodies.
- * This allows the server to handle incoming requests with JSON payloads.
+ * This allows the server to handle incoming requests with JSON payloads,
+ * including the JSON Merge Patch documents sent to the PATCH routes.
+ */
+app.use(express.json({ type: mergePatchMediaTypes }));
+
+/**
+ * Works out who is making each request from its bearer token or API key.
+ * Reading the catalog is open to everyone; the routes that change it, or that show patrons' records,
+ * check the signed-in user's role themselves.
  */
-app.use(express.json());
+app.use(authenticate);
+
+/**
+ * Makes POST requests sent with an Idempotency-Key header safe to retry:
+ * a retry gets the response to the first request instead of creating a duplicate record.
+ */
+app.use(idempotentPost);
 
 /**
  * Configuration for Swagger/OpenAPI specification
  * 
  * This configuration defines the API metadata, server information,
  * and the data models (schemas) used in the API. 
- * The data models include Author, Genre, BookCopy, and Book,
- * each with their respective properties and validation rules.
+ * The model schemas are generated from the same declarative schemas in src/models/schemas.ts
+ * that validate request bodies, so the documentation always matches what the server accepts.
  * 
  * The `apis` field points to the route files where the API endpoints are defined,
  * allowing Swagger to automatically generate documentation based on JSDoc comments.
@@ -43,68 +89,375 @@ const swaggerOptions = {
     ],
     components: {
       schemas: {
-        Author: {
+        ...openApiSchemas,
+        OverdueSweepResult: {
           type: 'object',
-          required: ['firstName', 'birthDate'],
           properties: {
-            id: { type: 'string', example: 'auth123' },
-            firstName: { type: 'string', example: 'Jane' },
-            lastName: { type: 'string', example: 'Doe' },
-            birthDate: { type: 'string', format: 'date', example: '1975-03-15' },
-            deathDate: { type: 'string', format: 'date', example: '2020-12-01' }
+            sweptAt: { type: 'string', format: 'date-time' },
+            openLoans: { type: 'integer', example: 12 },
+            overdueLoans: { type: 'integer', example: 2 },
+            newlyOverdueCopyIds: { type: 'array', items: { type: 'string' }, example: ['copy123'] },
+            finesAccrued: { type: 'integer', example: 2 }
           }
         },
-        Genre: {
+        TrashPurgeResult: {
           type: 'object',
-          required: ['name'],
           properties: {
-            id: { type: 'string', example: 'gen123' },
-            name: { type: 'string', example: 'Science Fiction' }
+            retentionDays: { type: 'integer', example: 30 },
+            deletedBefore: { type: 'string', format: 'date-time', description: 'Records deleted before this time were purged' },
+            purged: {
+              type: 'object',
+              description: 'The number of records purged of each kind',
+              properties: {
+                books: { type: 'integer', example: 1 },
+                authors: { type: 'integer', example: 0 },
+                genres: { type: 'integer', example: 0 },
+                bookCopies: { type: 'integer', example: 3 },
+                patrons: { type: 'integer', example: 0 }
+              }
+            }
           }
         },
-        BookCopy: {
+        Availability: {
           type: 'object',
-          required: ['bookId', 'imprint', 'status'],
+          description: 'Summary of the copies of a book',
           properties: {
-            id: { type: 'string', example: 'copy123' },
-            bookId: { type: 'string', example: 'book123' },
-            imprint: { type: 'string', example: 'First Edition 2023' },
-            status: { 
-              type: 'string', 
-              enum: ['available', 'unavailable', 'can be checkout', 'checked out'],
-              example: 'available'
-            },
-            dueBackDate: { type: 'string', format: 'date', example: '2024-01-15' }
+            totalCopies: { type: 'integer', example: 3 },
+            availableCopies: { type: 'integer', example: 1 },
+            earliestDueBackDate: { type: 'string', format: 'date', example: '2024-01-15' },
+            branches: {
+              type: 'array',
+              description: 'The copies at each branch; copies in transit are at no branch',
+              items: {
+                type: 'object',
+                properties: {
+                  branchId: { type: 'string', example: 'branch1' },
+                  totalCopies: { type: 'integer', example: 2 },
+                  availableCopies: { type: 'integer', example: 1 }
+                }
+              }
+            }
           }
         },
-        Book: {
+        ExpandedBook: {
+          description: 'A book with the references asked for with ?expand= inlined',
+          allOf: [
+            { $ref: '#/components/schemas/Book' },
+            {
+              type: 'object',
+              properties: {
+                authors: { type: 'array', items: { $ref: '#/components/schemas/Author' } },
+                genres: { type: 'array', items: { $ref: '#/components/schemas/Genre' } },
+                availability: { $ref: '#/components/schemas/Availability' }
+              }
+            }
+          ]
+        },
+        ExpandedBookCopy: {
+          description: 'A book copy with the references asked for with ?expand= inlined',
+          allOf: [
+            { $ref: '#/components/schemas/BookCopy' },
+            {
+              type: 'object',
+              properties: {
+                book: { $ref: '#/components/schemas/Book' }
+              }
+            }
+          ]
+        },
+        ImportReport: {
           type: 'object',
-          required: ['title', 'authorIds', 'genreIds', 'isbn', 'summary'],
           properties: {
-            id: { type: 'string', example: 'book123' },
-            title: { type: 'string', example: 'The Great Adventure' },
-            authorIds: { 
-              type: 'array', 
-              items: { type: 'string' },
-              minItems: 1,
-              example: ['auth123', 'auth456']
-            },
-            genreIds: { 
-              type: 'array', 
-              items: { type: 'string' },
-              minItems: 1,
-              example: ['gen123']
+            dryRun: { type: 'boolean', example: false },
+            rows: { type: 'integer', example: 4 },
+            created: { $ref: '#/components/schemas/ImportCounts' },
+            updated: { $ref: '#/components/schemas/ImportCounts' },
+            unchanged: { $ref: '#/components/schemas/ImportCounts' },
+            errors: {
+              type: 'array',
+              description: 'One entry per row that could not be imported',
+              items: {
+                type: 'object',
+                properties: {
+                  line: { type: 'integer', example: 3 },
+                  type: { type: 'string', example: 'book' },
+                  message: { type: 'string', example: 'Unknown authors: Ursula Le Guinn' },
+                  errors: { type: 'array', items: { type: 'object' } }
+                }
+              }
+            }
+          }
+        },
+        MarcImportReport: {
+          allOf: [
+            { $ref: '#/components/schemas/ImportReport' },
+            {
+              type: 'object',
+              properties: {
+                records: { type: 'integer', description: 'The number of MARC records read', example: 1 }
+              }
+            }
+          ]
+        },
+        LoginResult: {
+          type: 'object',
+          properties: {
+            tokenType: { type: 'string', example: 'Bearer' },
+            token: { type: 'string', example: 'eyJhbGciOiJIUzI1NiIsInR5cCI6IkpXVCJ9...' },
+            expiresAt: { type: 'string', format: 'date-time', example: '2024-01-01T11:00:00.000Z' },
+            user: { $ref: '#/components/schemas/User' }
+          }
+        },
+        ImportCounts: {
+          type: 'object',
+          properties: {
+            author: { type: 'integer', example: 1 },
+            genre: { type: 'integer', example: 1 },
+            book: { type: 'integer', example: 1 },
+            copy: { type: 'integer', example: 1 }
+          }
+        },
+        SearchFacet: {
+          type: 'object',
+          properties: {
+            id: { type: 'string', example: 'gen123' },
+            name: { type: 'string', example: 'Science Fiction' },
+            count: { type: 'integer', example: 3 }
+          }
+        },
+        SearchResult: {
+          type: 'object',
+          properties: {
+            query: { type: 'string', example: 'foundation asimov' },
+            total: { type: 'integer', example: 7 },
+            page: { type: 'integer', example: 1 },
+            limit: { type: 'integer', example: 20 },
+            results: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: {
+                  book: { $ref: '#/components/schemas/Book' },
+                  score: { type: 'number', example: 8 }
+                }
+              }
             },
-            isbn: { type: 'string', example: '978-3-16-148410-0' },
-            summary: { type: 'string', example: 'An epic tale of adventure and discovery.' }
+            facets: {
+              type: 'object',
+              description: 'How many of all the matching books have each genre and author',
+              properties: {
+                genres: { type: 'array', items: { $ref: '#/components/schemas/SearchFacet' } },
+                authors: { type: 'array', items: { $ref: '#/components/schemas/SearchFacet' } }
+              }
+            }
           }
         },
         Error: {
           type: 'object',
+          description: 'An RFC 7807 problem detail, sent as application/problem+json',
+          required: ['type', 'title', 'status', 'detail', 'code'],
           properties: {
-            error: { type: 'string' },
-            message: { type: 'string' }
+            type: { type: 'string', example: 'about:blank' },
+            title: { type: 'string', description: 'The reason phrase of the status code', example: 'Bad Request' },
+            status: { type: 'integer', example: 400 },
+            detail: { type: 'string', example: 'birthDate must be a valid date' },
+            code: { type: 'string', enum: errorCodes, description: 'What kind of problem this is, for programs to act on' },
+            instance: { type: 'string', description: 'The path that was requested', example: '/authors' },
+            requestId: {
+              type: 'string',
+              description: 'The X-Request-Id of the request, to quote when reporting the problem',
+              example: '0b6f8f63-4a1d-4c8e-9a53-6f7c1f0e2a11'
+            },
+            errors: {
+              type: 'array',
+              description: 'One entry per invalid field of the request body or query parameter',
+              items: {
+                type: 'object',
+                properties: {
+                  field: { type: 'string', example: 'birthDate' },
+                  message: { type: 'string', example: 'birthDate must be a valid date' }
+                }
+              }
+            }
           }
+        },
+        DependencyConflict: {
+          description: 'A change that was refused because of the records it depends on, or that depend on it',
+          allOf: [
+            { $ref: '#/components/schemas/Error' },
+            {
+              type: 'object',
+              properties: {
+                books: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: { id: { type: 'string' }, title: { type: 'string' } }
+                  }
+                },
+                copies: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: { id: { type: 'string' }, status: { type: 'string' } }
+                  }
+                },
+                authors: {
+                  type: 'array',
+                  items: {
+                    type: 'object',
+                    properties: { id: { type: 'string' }, firstName: { type: 'string' }, lastName: { type: 'string' } }
+                  }
+                },
+                conflicts: {
+                  type: 'array',
+                  description: 'Why a deleted record cannot be restored',
+                  items: { type: 'string', example: 'Author auth1 no longer exists' }
+                }
+              }
+            }
+          ]
+        }
+      },
+      parameters: {
+        ListLimit: {
+          in: 'query',
+          name: 'limit',
+          schema: { type: 'integer', minimum: 1, maximum: listPolicy.maxLimit, default: listPolicy.defaultLimit },
+          description: 'Number of records per page'
+        },
+        ListPage: {
+          in: 'query',
+          name: 'page',
+          schema: { type: 'integer', minimum: 1, default: 1 },
+          description: 'Page to return, counting from 1'
+        },
+        ListSort: {
+          in: 'query',
+          name: 'sort',
+          schema: { type: 'string' },
+          example: 'lastName,-birthDate',
+          description: 'Comma-separated fields to sort by; prefix a field with - to sort it in descending order'
+        },
+        ListFields: {
+          in: 'query',
+          name: 'fields',
+          schema: { type: 'string' },
+          example: 'title,isbn',
+          description: 'Comma-separated fields to include in each record; the id is always included'
+        },
+        BookExpand: {
+          in: 'query',
+          name: 'expand',
+          schema: { type: 'string' },
+          example: 'authors,genres,copies',
+          description: `Comma-separated references to inline: ${bookExpansions.join(', ')}; copies adds an availability summary`
+        },
+        IfMatch: {
+          in: 'header',
+          name: 'If-Match',
+          schema: { type: 'string' },
+          example: '"3"',
+          description: 'Only make the change if the record still has this ETag, as returned when it was read'
+        },
+        IdempotencyKey: {
+          in: 'header',
+          name: 'Idempotency-Key',
+          schema: { type: 'string', minLength: 1, maxLength: 255 },
+          example: '8e03978e-40d5-43e8-bc93-6894a57f9324',
+          description: 'A unique value, such as a UUID, that makes the request safe to retry: '
+            + `for ${idempotencyPolicy.ttlSeconds} seconds after it succeeds, sending it again with the same key gets the same response `
+            + 'with an Idempotent-Replayed header, instead of making the change again'
+        },
+        IfNoneMatch: {
+          in: 'header',
+          name: 'If-None-Match',
+          schema: { type: 'string' },
+          example: '"3"',
+          description: 'Respond with 304 Not Modified if the record still has this ETag'
+        },
+        BookCopyExpand: {
+          in: 'query',
+          name: 'expand',
+          schema: { type: 'string' },
+          example: 'book',
+          description: `Comma-separated references to inline: ${bookCopyExpansions.join(', ')}`
+        }
+      },
+      responses: {
+        NotModified: {
+          description: 'The record still has the ETag given in If-None-Match'
+        },
+        PreconditionFailed: {
+          description: 'The record has been changed since it was read; its current ETag is in the ETag header',
+          headers: {
+            ETag: { $ref: '#/components/headers/ETag' }
+          },
+          content: {
+            'application/problem+json': {
+              schema: { $ref: '#/components/schemas/Error' }
+            }
+          }
+        },
+        IdempotencyKeyReused: {
+          description: 'The Idempotency-Key has already been used for a request with a different body',
+          content: {
+            'application/problem+json': {
+              schema: { $ref: '#/components/schemas/Error' }
+            }
+          }
+        },
+        Unauthorized: {
+          description: 'No one is signed in, or the bearer token or API key is invalid',
+          content: {
+            'application/problem+json': {
+              schema: { $ref: '#/components/schemas/Error' }
+            }
+          }
+        },
+        Forbidden: {
+          description: 'The signed-in user\'s role does not allow this; patrons can only act for themselves',
+          content: {
+            'application/problem+json': {
+              schema: { $ref: '#/components/schemas/Error' }
+            }
+          }
+        }
+      },
+      securitySchemes: {
+        bearerAuth: {
+          type: 'http',
+          scheme: 'bearer',
+          bearerFormat: 'JWT',
+          description: 'A token from POST /auth/login'
+        },
+        apiKeyAuth: {
+          type: 'apiKey',
+          in: 'header',
+          name: 'X-API-Key',
+          description: 'An API key from POST /auth/api-keys'
+        }
+      },
+      headers: {
+        ETag: {
+          description: 'Strong ETag of the record, derived from its version',
+          schema: { type: 'string' }
+        },
+        'X-Total-Count': {
+          description: 'Total number of records across all pages',
+          schema: { type: 'integer' }
+        },
+        Link: {
+          description: 'Links to the first, previous, next and last pages (RFC 8288)',
+          schema: { type: 'string' }
+        },
+        'Idempotent-Replayed': {
+          description: 'Sent as true when the response is the one kept for an earlier request with the same Idempotency-Key',
+          schema: { type: 'boolean' }
+        },
+        'X-Request-Id': {
+          description: 'The ID of the request, as sent by the client or made up by the server; audit entries refer to it',
+          schema: { type: 'string' }
         }
       }
     }
@@ -118,30 +471,92 @@ const swaggerSpec = swaggerJsdoc(swaggerOptions);
 
 /**
  * Middleware to route requests to the appropriate routers.
- * Each router handles a specific resource: authors, genres, books, and book copies.
+ * Each router handles a specific resource: authors, genres, books, book copies, and patrons,
+ * plus catalog search, bulk import and export, signing in, user management, the audit log, the trash, and the staff-only admin operations.
  */
 app.use('/authors', authorsRouter);
 app.use('/genres', genresRouter);
 app.use('/books', booksRouter);
 app.use('/book-copies', bookCopiesRouter);
+app.use('/patrons', patronsRouter);
+app.use('/admin', adminRouter);
+app.use('/search', searchRouter);
+app.use('/', catalogRouter);
+app.use('/auth', authRouter);
+app.use('/users', usersRouter);
+app.use('/audit', auditRouter);
+app.use('/trash', trashRouter);
+app.use('/branches', branchesRouter);
+app.use('/transfers', transfersRouter);
 
 /**
  * Middleware to serve the Swagger UI at the /api-docs endpoint.
  * This provides a user-friendly interface to explore and interact with the API documentation.
+ * The Authorize button takes a bearer token or API key, which is kept across page reloads.
  */
-app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec));
-
-initializeData();
-
-// Start server
-app.listen(PORT, () => {
-  console.log(`Library Management API server running on port ${PORT}`);
-  console.log(`API documentation available at: http://localhost:${PORT}/api-docs`);
-  console.log(`Sample endpoints:`);
-  console.log(`GET  http://localhost:${PORT}/authors`);
-  console.log(`GET  http://localhost:${PORT}/books`);
-  console.log(`GET  http://localhost:${PORT}/genres`);
-  console.log(`GET  http://localhost:${PORT}/book-copies`);
-});
+app.use('/api-docs', swaggerUi.serve, swaggerUi.setup(swaggerSpec, { swaggerOptions: { persistAuthorization: true } }));
+
+/**
+ * Responds to requests for unknown endpoints, and reports every error raised while handling a request,
+ * as an RFC 7807 problem detail in JSON.
+ */
+app.use(notFoundRoute);
+app.use(handleErrors);
+
+/**
+ * Loads the sample data, brings stored records up to date, starts the periodic sweeps and listens for requests
+ * when the API is run as a program; tests import the app and send it requests without any of this.
+ */
+if (require.main === module) {
+  initializeData();
+
+  /**
+   * Moves book copies stored before the copy lifecycle was formalised to the statuses that replaced theirs.
+   */
+  migrateLegacyCopyStatuses();
+
+  /**
+   * Gives a barcode to book copies stored before copies had barcodes.
+   */
+  assignMissingBarcodes();
+
+  /**
+   * Gives a sort name to authors stored before authors had sort names.
+   */
+  assignMissingSortNames();
+
+  /**
+   * Creates the first admin user if no one can sign in yet.
+   */
+  ensureAdminUser().catch(err => console.error('Could not create the admin user', err));
+
+  /**
+   * Periodically expires holds whose pickup window has closed,
+   * so that their reserved copies roll over to the next patron in line.
+   */
+  setInterval(expireUncollectedHolds, holdPolicy.expirySweepIntervalMs).unref();
+
+  /**
+   * Periodically marks loans past their due date as overdue and accrues their fines.
+   */
+  setInterval(runOverdueSweep, finePolicy.sweepIntervalMs).unref();
+
+  /**
+   * Periodically forgets the responses kept for Idempotency-Key headers once they have expired.
+   */
+  setInterval(forgetExpiredResponses, idempotencyPolicy.sweepIntervalMs).unref();
+
+  // Start server
+  app.listen(PORT, () => {
+    console.log(`Library Management API server running on port ${PORT}`);
+    console.log(`API documentation available at: http://localhost:${PORT}/api-docs`);
+    console.log(`Sample endpoints:`);
+    console.log(`GET  http://localhost:${PORT}/authors`);
+    console.log(`GET  http://localhost:${PORT}/books`);
+    console.log(`GET  http://localhost:${PORT}/genres`);
+    console.log(`GET  http://localhost:${PORT}/book-copies`);
+    console.log(`GET  http://localhost:${PORT}/patrons`);
+  });
+}
 
 export default app;
\ No newline at end of file
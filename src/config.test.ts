@@ -0,0 +1,36 @@
+/**
+ * Loads the configuration afresh with the given environment variables set.
+ *
+ * @param env the environment variables
+ * @returns the configuration module
+ */
+const loadConfig = (env: Record<string, string>): typeof import('./config') => {
+  const saved = { ...process.env };
+  Object.assign(process.env, env);
+  try {
+    let config: typeof import('./config') | undefined;
+    jest.isolateModules(() => {
+      config = require('./config');
+    });
+    return config as typeof import('./config');
+  } finally {
+    process.env = saved;
+  }
+};
+
+describe('barcodePolicy', () => {
+  it('upper-cases the prefix', () => {
+    expect(loadConfig({ BARCODE_PREFIX: 'lib', BARCODE_SEQUENCE_DIGITS: '8' }).barcodePolicy)
+      .toEqual({ prefix: 'LIB', sequenceDigits: 8 });
+  });
+
+  it.each(['3-1', 'LIB ', 'BIBLIOTHÈQUE'])('refuses the prefix %p, which barcodes cannot contain', prefix => {
+    expect(() => loadConfig({ BARCODE_PREFIX: prefix })).toThrow(/BARCODE_PREFIX must contain only letters and digits/);
+  });
+
+  it('refuses a prefix and sequence that make barcodes too long or too short to scan', () => {
+    expect(() => loadConfig({ BARCODE_PREFIX: 'A'.repeat(20), BARCODE_SEQUENCE_DIGITS: '12' })).toThrow(/not 32/);
+    expect(() => loadConfig({ BARCODE_PREFIX: 'A', BARCODE_SEQUENCE_DIGITS: '1' })).toThrow(/not 2/);
+    expect(loadConfig({ BARCODE_PREFIX: 'A'.repeat(19), BARCODE_SEQUENCE_DIGITS: '12' }).barcodePolicy.prefix).toHaveLength(19);
+  });
+});
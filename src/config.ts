@@ -0,0 +1,134 @@
+/**
+ * Runtime configuration for the library, read from environment variables
+ * with sensible defaults for local development.
+ */
+
+/**
+ * Reads a non-negative integer from the environment, falling back to the default
+ * when the variable is missing or malformed.
+ * @param name the environment variable name
+ * @param fallback the value to use when the variable is not set
+ * @returns the parsed integer
+ */
+const intFromEnv = (name: string, fallback: number): number => {
+  const value = Number.parseInt(process.env[name] ?? '', 10);
+  return Number.isNaN(value) || value < 0 ? fallback : value;
+};
+
+/**
+ * Where the library's records are kept.
+ * driver is 'memory' (the default, lost on restart) or 'file' (journaled to JSON Lines files under dataDir).
+ */
+export const storageConfig = {
+  driver: process.env.STORAGE_DRIVER === 'file' ? 'file' : 'memory',
+  dataDir: process.env.STORAGE_DIR || './data',
+};
+
+/**
+ * Rules applied when lending book copies to patrons.
+ * loanPeriodDays is the number of days a copy may be kept after checkout or renewal,
+ * maxRenewals is how many times a single loan may be renewed,
+ * and maxLoansPerPatron is the default number of copies a patron may hold at once.
+ */
+export const loanPolicy = {
+  loanPeriodDays: intFromEnv('LOAN_PERIOD_DAYS', 21),
+  maxRenewals: intFromEnv('LOAN_MAX_RENEWALS', 2),
+  maxLoansPerPatron: intFromEnv('LOAN_MAX_PER_PATRON', 5),
+};
+
+/**
+ * Rules applied to the hold queue of a book.
+ * pickupWindowDays is how long a copy stays reserved for the patron at the front of the queue,
+ * and expirySweepIntervalMs is how often uncollected reservations are checked for expiry.
+ */
+export const holdPolicy = {
+  pickupWindowDays: intFromEnv('HOLD_PICKUP_DAYS', 7),
+  expirySweepIntervalMs: intFromEnv('HOLD_EXPIRY_SWEEP_MS', 60 * 1000),
+};
+
+/**
+ * Rules applied to overdue loans.
+ * graceDays is how many days past the due date pass before fines start,
+ * dailyRateCents is charged for every further day, and maxPerItemCents caps the fine for a single loan.
+ * sweepIntervalMs is how often the overdue sweep runs in-process.
+ */
+export const finePolicy = {
+  graceDays: intFromEnv('FINE_GRACE_DAYS', 0),
+  dailyRateCents: intFromEnv('FINE_DAILY_RATE_CENTS', 25),
+  maxPerItemCents: intFromEnv('FINE_MAX_PER_ITEM_CENTS', 1000),
+  sweepIntervalMs: intFromEnv('OVERDUE_SWEEP_INTERVAL_MS', 60 * 60 * 1000),
+};
+
+/**
+ * Rules applied to the list endpoints.
+ * defaultLimit is the page size used when a request does not ask for one,
+ * and maxLimit is the largest page size a request may ask for.
+ */
+export const listPolicy = {
+  defaultLimit: intFromEnv('LIST_DEFAULT_LIMIT', 100),
+  maxLimit: intFromEnv('LIST_MAX_LIMIT', 1000),
+};
+
+/**
+ * How users sign in.
+ * tokenSecret signs the bearer tokens issued at login; when it is not set, a random secret is used,
+ * so tokens stop working when the server restarts. tokenTtlSeconds is how long a token stays valid.
+ * When there are no users yet, an admin named adminUsername is created with adminPassword,
+ * or with a random password that is printed once if adminPassword is not set.
+ */
+export const authPolicy = {
+  tokenSecret: process.env.AUTH_TOKEN_SECRET || '',
+  tokenTtlSeconds: intFromEnv('AUTH_TOKEN_TTL_SECONDS', 60 * 60),
+  adminUsername: process.env.AUTH_ADMIN_USERNAME || 'admin',
+  adminPassword: process.env.AUTH_ADMIN_PASSWORD || '',
+};
+
+/**
+ * How long deleted records are kept.
+ * Deleted books, authors, genres, copies and patrons stay in the trash, where they can be restored,
+ * until an admin purges the trash; a purge only removes records deleted more than retentionDays ago.
+ */
+export const trashPolicy = {
+  retentionDays: intFromEnv('TRASH_RETENTION_DAYS', 30),
+};
+
+/**
+ * How barcodes are allocated to book copies.
+ * Each barcode is prefix, then the next number of the barcode sequence zero-padded to sequenceDigits digits,
+ * then a check digit; e.g. the default prefix '3' gives 14-character barcodes like 30000000000012.
+ * The prefix is upper-cased and may only contain letters and digits, which Code 39 labels can print.
+ * A prefix that breaks these rules, or is too long for the barcodes to scan, stops the server from starting.
+ */
+export const barcodePolicy = (() => {
+  const prefix = (process.env.BARCODE_PREFIX || '3').toUpperCase();
+  const sequenceDigits = intFromEnv('BARCODE_SEQUENCE_DIGITS', 12);
+  if (!/^[0-9A-Z]+$/.test(prefix)) {
+    throw new Error(`BARCODE_PREFIX must contain only letters and digits, not ${JSON.stringify(prefix)}`);
+  }
+  // Barcodes are 4 to 32 characters including the check digit; others would be refused when scanned.
+  if (prefix.length + sequenceDigits < 3 || prefix.length + sequenceDigits > 31) {
+    throw new Error(
+      `BARCODE_PREFIX and BARCODE_SEQUENCE_DIGITS must add up to 3 to 31 characters, not ${prefix.length + sequenceDigits}`
+    );
+  }
+  return { prefix, sequenceDigits };
+})();
+
+/**
+ * How the IDs of new records are made.
+ * strategy is 'ulid' (the default) or 'uuidv7'; either way an ID starts with the time it was made,
+ * so the IDs of each kind of record sort in the order the records were created.
+ */
+export const idPolicy = {
+  strategy: (process.env.ID_STRATEGY === 'uuidv7' ? 'uuidv7' : 'ulid') as 'ulid' | 'uuidv7',
+};
+
+/**
+ * How long the responses to POST requests sent with an Idempotency-Key header are kept,
+ * so that a client retrying the request within ttlSeconds gets the same response instead of creating a duplicate.
+ * sweepIntervalMs is how often responses older than that are removed.
+ */
+export const idempotencyPolicy = {
+  ttlSeconds: intFromEnv('IDEMPOTENCY_KEY_TTL_SECONDS', 24 * 60 * 60),
+  sweepIntervalMs: intFromEnv('IDEMPOTENCY_SWEEP_INTERVAL_MS', 60 * 60 * 1000),
+};
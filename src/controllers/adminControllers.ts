@@ -0,0 +1,42 @@
+import { Request, Response } from 'express';
+import { runOverdueSweep } from '../services/overdue';
+import { purgeTrash } from '../services/trash';
+import { trashPolicy } from '../config';
+import { now } from '../services/clock';
+import { ValidationError } from '../errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Run the overdue sweep immediately instead of waiting for the scheduled run.
+ * Copies past their due date are marked overdue and their fines are accrued.
+ *
+ * @param res the response object to send the summary of the sweep
+ */
+export const runOverdueSweepNow = (_: Request, res: Response): void => {
+  res.json(runOverdueSweep());
+};
+
+/**
+ * Remove the records that have been in the trash longer than the retention window for good.
+ * The window defaults to the configured retention period and can be shortened or lengthened
+ * with the retentionDays query parameter; 0 empties the trash.
+ * If retentionDays is not a non-negative integer, respond with a 400 status code.
+ *
+ * @param req the request object containing an optional retentionDays query parameter
+ * @param res the response object to send the summary of the purge or an error message
+ */
+export const purgeTrashNow = (req: Request, res: Response): void => {
+  const { retentionDays = String(trashPolicy.retentionDays) } = req.query;
+  if (typeof retentionDays !== 'string' || !/^\d+$/.test(retentionDays)) {
+    const message = 'retentionDays must be a non-negative integer';
+    throw new ValidationError([{ field: 'retentionDays', message }]);
+  }
+
+  const deletedBefore = new Date(now().getTime() - Number(retentionDays) * DAY_MS);
+  res.json({
+    retentionDays: Number(retentionDays),
+    deletedBefore: deletedBefore.toISOString(),
+    purged: purgeTrash(deletedBefore),
+  });
+};
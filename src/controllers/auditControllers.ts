@@ -0,0 +1,84 @@
+import { Request, Response } from 'express';
+import { findBookById, listAuditEntries } from '../data/storage';
+import { AuditEntry } from '../models';
+import { FieldError } from '../models/schema';
+import { auditActions } from '../models/schemas';
+import { sendList } from '../middleware/listQuery';
+import { auditedResources } from '../services/audit';
+import { NotFoundError, ValidationError } from '../errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Reads a time range bound from the query string. A `to` given as a plain date includes the whole of that day.
+ *
+ * @param name the name of the query parameter
+ * @param value the raw query parameter
+ * @param errors the list to add a problem to if the parameter is not a date
+ * @returns the time in milliseconds, or undefined if the parameter was not given or is malformed
+ */
+const timeParameter = (name: 'from' | 'to', value: unknown, errors: FieldError[]): number | undefined => {
+  if (value === undefined) return undefined;
+  const time = Date.parse(String(value));
+  if (Number.isNaN(time)) {
+    errors.push({ field: name, message: `${name} must be an ISO 8601 date or date-time` });
+    return undefined;
+  }
+  return name === 'to' && /^\d{4}-\d{2}-\d{2}$/.test(String(value)) ? time + DAY_MS - 1 : time;
+};
+
+/**
+ * Retrieve the audit log, oldest change first, a page at a time.
+ * The log can be narrowed with the query parameters resource (e.g. books), resourceId, action,
+ * actor (a user's ID or username), and from and to, which bound when the change was made.
+ * If a filter is invalid, respond with a 400 status code.
+ *
+ * @param req the request object containing the filters and paging in the query parameters
+ * @param res the response object to send the page of audit entries or an error message
+ * @returns the matching audit entries, with the total number in the X-Total-Count header
+ */
+export const getAuditLog = (req: Request, res: Response): void => {
+  const { resource, resourceId, action, actor } = req.query;
+  const errors: FieldError[] = [];
+
+  if (resource !== undefined && !auditedResources.includes(resource as typeof auditedResources[number])) {
+    errors.push({ field: 'resource', message: `resource must be one of: ${auditedResources.join(', ')}` });
+  }
+  if (action !== undefined && !auditActions.includes(action as typeof auditActions[number])) {
+    errors.push({ field: 'action', message: `action must be one of: ${auditActions.join(', ')}` });
+  }
+  const from = timeParameter('from', req.query.from, errors);
+  const to = timeParameter('to', req.query.to, errors);
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+
+  const entries = listAuditEntries().filter((entry: AuditEntry) => {
+    const at = Date.parse(entry.at);
+    return (resource === undefined || entry.resource === resource)
+      && (resourceId === undefined || entry.resourceId === resourceId)
+      && (action === undefined || entry.action === action)
+      && (actor === undefined || entry.actorId === actor || entry.actorName === actor)
+      && (from === undefined || at >= from)
+      && (to === undefined || at <= to);
+  });
+  sendList(req, res, entries);
+};
+
+/**
+ * Retrieve the timeline of a book: every change made to it, oldest first, including its creation and deletion.
+ * The history of a deleted book can still be retrieved.
+ * If the book never existed, respond with a 404 status code.
+ *
+ * @param req the request object containing the book ID in the URL parameters
+ * @param res the response object to send the page of audit entries or an error message
+ * @returns the audit entries of the book, with the total number in the X-Total-Count header
+ */
+export const getBookHistory = (req: Request, res: Response): void => {
+  const entries = listAuditEntries().filter(entry => entry.resource === 'books' && entry.resourceId === req.params.id);
+  if (entries.length === 0 && !findBookById(req.params.id)) {
+    throw new NotFoundError('Book not found');
+  }
+  sendList(req, res, entries);
+};
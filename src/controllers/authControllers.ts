@@ -0,0 +1,93 @@
+import { Request, Response, NextFunction } from 'express';
+import { addApiKey, deleteApiKey, findApiKeyById, findApiKeysByUserId } from '../data/storage';
+import { ApiKey, User } from '../models';
+import { hasRole } from '../middleware/auth';
+import { authenticateUser, generateApiKey, issueToken, toPublicUser } from '../services/auth';
+import { NotFoundError, UnauthorizedError } from '../errors';
+
+/**
+ * Removes the hash of an API key before it is sent to a client.
+ *
+ * @param apiKey the API key
+ * @returns the API key without its hash
+ */
+const toPublicApiKey = ({ keyHash, ...apiKey }: ApiKey): Omit<ApiKey, 'keyHash'> => apiKey;
+
+/**
+ * Sign in with a username and password, in exchange for a bearer token to send in the Authorization header.
+ * The body is validated against the credentials schema before this runs.
+ * If the username or password is wrong, respond with a 401 status code, without saying which.
+ *
+ * @param req the request object containing the username and password in the body
+ * @param res the response object to send the token or an error message
+ * @param next the function to pass unexpected errors on to
+ * @returns the bearer token, when it expires, and the signed-in user
+ */
+export const login = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { username, password } = req.body;
+
+  try {
+    const user = await authenticateUser(username, password);
+    if (!user) {
+      throw new UnauthorizedError('Invalid username or password');
+    }
+
+    const { token, expiresAt } = issueToken(user);
+    res.set('Cache-Control', 'no-store');
+    res.json({ tokenType: 'Bearer', token, expiresAt, user: toPublicUser(user) });
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * Returns the signed-in user.
+ *
+ * @param res the response object to send the user
+ */
+export const getCurrentUser = (_: Request, res: Response): void => {
+  res.json(toPublicUser(res.locals.user));
+};
+
+/**
+ * Lists the API keys of the signed-in user. The keys themselves are never shown again after they are created.
+ *
+ * @param res the response object to send the API keys
+ */
+export const getApiKeys = (_: Request, res: Response): void => {
+  const user: User = res.locals.user;
+  res.json(findApiKeysByUserId(user.id).map(toPublicApiKey));
+};
+
+/**
+ * Create an API key that acts as the signed-in user, for programs such as self-checkout kiosks.
+ * The body is validated against the API key schema before this runs, so the key has a name.
+ *
+ * @param req the request object containing the name of the key in the body
+ * @param res the response object to send the created key
+ * @returns an HTTP 201 response with the API key, including the key itself, which is not shown again
+ */
+export const createApiKey = (req: Request, res: Response): void => {
+  const user: User = res.locals.user;
+  const { key, apiKey } = generateApiKey(user.id, req.body.name);
+  res.set('Cache-Control', 'no-store');
+  res.status(201).json({ ...toPublicApiKey(addApiKey(apiKey)), key });
+};
+
+/**
+ * Revoke an API key of the signed-in user. Admins can revoke anyone's keys.
+ *
+ * @param req the request object containing the API key ID in the URL parameters
+ * @param res the response object to send a 204 status or an error message
+ * @returns a 204 status if successful, otherwise a 404 error
+ */
+export const revokeApiKey = (req: Request, res: Response): void => {
+  const user: User = res.locals.user;
+  const apiKey = findApiKeyById(req.params.id);
+  if (!apiKey || (apiKey.userId !== user.id && !hasRole(user, 'admin'))) {
+    throw new NotFoundError('API key not found');
+  }
+
+  deleteApiKey(apiKey.id);
+  res.status(204).send();
+};
@@ -0,0 +1,38 @@
+import request from 'supertest';
+import app from '../app';
+import { newAuthor, signIn } from '../testing/fixtures';
+
+const { auth } = signIn('admin');
+
+const patch = (id: string, body: object) => request(app)
+  .patch(`/authors/${id}`)
+  .set('Authorization', auth)
+  .set('Content-Type', 'application/merge-patch+json')
+  .send(JSON.stringify(body));
+
+describe('PATCH /authors/:id', () => {
+  it('makes up the sort name again when the author is renamed', async () => {
+    const author = newAuthor({ firstName: 'Isaac', lastName: 'Asimov', sortName: 'Asimov, Isaac' });
+
+    const res = await patch(author.id, { lastName: 'Azimov' });
+
+    expect(res.status).toBe(200);
+    expect(res.body.sortName).toBe('Azimov, Isaac');
+  });
+
+  it('keeps a sort name given along with the new name', async () => {
+    const author = newAuthor({ firstName: 'Ursula', lastName: 'Le Guin', sortName: 'Le Guin, Ursula' });
+
+    const res = await patch(author.id, { lastName: 'K. Le Guin', sortName: 'Le Guin, Ursula K.' });
+
+    expect(res.body.sortName).toBe('Le Guin, Ursula K.');
+  });
+
+  it('keeps the sort name when the name does not change', async () => {
+    const author = newAuthor({ firstName: 'Ursula', lastName: 'K. Le Guin', sortName: 'Le Guin, Ursula K.' });
+
+    const res = await patch(author.id, { deathDate: '2018-01-22' });
+
+    expect(res.body.sortName).toBe('Le Guin, Ursula K.');
+  });
+});
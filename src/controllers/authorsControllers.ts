@@ -1,21 +1,107 @@
 import { Request, Response } from 'express';
 import { 
-  authors, 
+  listAuthors, 
   findAuthorById, 
   addAuthor, 
   updateAuthor, 
   deleteAuthor, 
+  findBooksByAuthorId,
+  findAuthorsByCanonicalAuthorId,
+  updateBook,
   generateId 
 } from '../data/storage';
-import { Author } from '../models';
+import { AlternateName, Author, Book } from '../models';
+import { sendList } from '../middleware/listQuery';
+import { sendRecord } from '../middleware/conditional';
+import { expandBook } from '../services/expansion';
+import { authorErrors, defaultSortName, matchesAuthorName } from '../services/authors';
+import { tokenize } from '../services/search';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from '../errors';
 
 /**
- * Returns a list of all authors in the system.
+ * Reduces books to the id and title needed to identify them in a conflict response.
  * 
+ * @param books the books to summarize
+ * @returns the id and title of each book
+ */
+const summarizeBooks = (books: Book[]): Pick<Book, 'id' | 'title'>[] => 
+  books.map(({ id, title }) => ({ id, title }));
+
+/**
+ * Reduces authors to the id and name needed to identify them in a conflict response.
+ * 
+ * @param authors the authors to summarize
+ * @returns the id, first name and last name of each author
+ */
+const summarizeAuthors = (authors: Author[]): Pick<Author, 'id' | 'firstName' | 'lastName'>[] => 
+  authors.map(({ id, firstName, lastName }) => ({ id, firstName, lastName }));
+
+/**
+ * Builds the fields of an author from a request body that has passed schema validation,
+ * filling in the sort name when none is given, and checks the fields that depend on each other or on other authors.
+ * When an author is renamed, the sort name is made up again from the new name unless the body gives a new one too;
+ * a PATCH body carries the stored sort name over, so an unchanged sort name counts as none given.
+ * 
+ * @param body the request body
+ * @param existing the stored author, if it already exists
+ * @returns the fields of the author
+ * @throws ValidationError if the life dates are in the future or out of order, or the canonical author cannot be linked to
+ */
+const authorFields = (body: Request['body'], existing?: Author): Omit<Author, 'id'> => {
+  const { firstName, lastName, birthDate, deathDate, alternateNames, canonicalAuthorId } = body;
+  const isRenamed = existing !== undefined && (existing.firstName !== firstName || existing.lastName !== lastName);
+  const sortName = isRenamed && body.sortName === existing.sortName ? undefined : body.sortName;
+  const errors = authorErrors({ id: existing?.id, birthDate, deathDate, canonicalAuthorId });
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+
+  return {
+    firstName,
+    lastName,
+    sortName: sortName ?? defaultSortName(firstName, lastName),
+    birthDate,
+    deathDate,
+    alternateNames: (alternateNames as AlternateName[] | undefined)?.map(({ name, kind }) => ({ name, kind })),
+    canonicalAuthorId
+  };
+};
+
+/**
+ * Returns a page of the authors in the system.
+ * The list can be narrowed to the authors who go by a name, under any of their names or those of their pseudonyms,
+ * and to the pseudonyms and variants of one author.
+ * The paging, sort order and field selection are parsed from the query string before this runs.
+ * 
+ * @param req - Express request object, with the optional name and canonicalAuthorId query parameters
  * @param res - Express response object
  */
-export const getAllAuthors = (_: Request, res: Response): void => {
-  res.json(authors);
+export const getAllAuthors = (req: Request, res: Response): void => {
+  const { name, canonicalAuthorId } = req.query;
+  if (name !== undefined && (typeof name !== 'string' || tokenize(name).length === 0)) {
+    throw new ValidationError([{ field: 'name', message: 'name must contain at least one letter or digit' }]);
+  }
+
+  let authors = typeof canonicalAuthorId === 'string' ? findAuthorsByCanonicalAuthorId(canonicalAuthorId) : listAuthors();
+  if (typeof name === 'string') {
+    authors = authors.filter(author => matchesAuthorName(author, name));
+  }
+  sendList(req, res, authors);
+};
+
+/**
+ * Returns a page of the books written by an author.
+ * The paging, sort order, field selection and expansions are parsed from the query string before this runs.
+ * 
+ * @param req the request object containing the author ID as a path parameter
+ * @param res the response object to send the page of books or an error message
+ * @returns the books of the author if the author is found, otherwise a 404 error response
+ */
+export const getBooksByAuthor = (req: Request, res: Response): void => {
+  if (!findAuthorById(req.params.id)) {
+    throw new NotFoundError('Author not found');
+  }
+  sendList(req, res, findBooksByAuthorId(req.params.id), book => expandBook(book, res.locals.expand));
 };
 
 /**
@@ -28,85 +114,99 @@ export const getAllAuthors = (_: Request, res: Response): void => {
 export const getAuthorById = (req: Request, res: Response): void => {
   const author = findAuthorById(req.params.id);
   if (!author) {
-    res.status(404).json({ error: 'Not Found', message: 'Author not found' });
-    return;
+    throw new NotFoundError('Author not found');
   }
-  res.json(author);
+  sendRecord(req, res, author);
 };
 
 /**
- * Creates a new author with author name, birth date, death date.
- * Author's first name and birth date are required fields.
- * An id is generated for the new author.
+ * Creates a new author with author name, sort name, birth date, death date, alternate names and canonical author.
+ * The body is validated against the author schema before this runs, so first name and birth date are present.
+ * An id is generated for the new author, and the sort name defaults to "lastName, firstName".
  * 
- * @param req the request object containing the author's first name, last name, birth date, and optional death date in the body
+ * @param req the request object containing the author's names, life dates, and optional canonical author ID in the body
  * @param res the response object to send the created author data or an error message
- * @returns an HTTP 201 response with the created author data, or a 400 error response if required fields are missing
+ * @returns an HTTP 201 response with the created author data, or a 400 error response
+ * if the body is invalid, the life dates are out of order, or the canonical author cannot be linked to
  */
 export const createAuthor = (req: Request, res: Response): void => {
-  const { firstName, lastName, birthDate, deathDate } = req.body;
-  
-  if (!firstName || !birthDate) {
-    res.status(400).json({ error: 'Bad Request', message: 'firstName and birthDate are required' });
-    return;
-  }
-
   const newAuthor: Author = {
-    id: generateId(),
-    firstName,
-    lastName,
-    birthDate,
-    deathDate
+    id: generateId('authors'),
+    ...authorFields(req.body)
   };
 
-  addAuthor(newAuthor);
-  res.status(201).json(newAuthor);
+  sendRecord(req, res.status(201), addAuthor(newAuthor));
 };
 
 /**
  * Updates an existing author's details by ID.
- * Author's first name and birth date are required fields.
+ * The body is validated against the author schema before this runs, so first name and birth date are present.
  * 
- * @param req the request object containing the author ID as a path parameter and updated first name, last name, birth date, and optional death date in the body.
+ * @param req the request object containing the author ID as a path parameter and the updated names, life dates, and optional canonical author ID in the body.
  * @param res the response object to send the updated author data or an error message
- * @returns the updated author data if found, otherwise a 404 error response; or a 400 error response if required fields are missing
+ * @returns the updated author data if found, otherwise a 404 error response; or a 400 error response
+ * if the body is invalid, the life dates are out of order, or the canonical author cannot be linked to
  */
 export const updateAuthorById = (req: Request, res: Response): void => {
-  const { firstName, lastName, birthDate, deathDate } = req.body;
-  
-  if (!firstName || !birthDate) {
-    res.status(400).json({ error: 'Bad Request', message: 'firstName and birthDate are required' });
-    return;
-  }
-
-  const updatedAuthor = updateAuthor(req.params.id, {
-    firstName,
-    lastName,
-    birthDate,
-    deathDate
-  });
-
-  if (!updatedAuthor) {
-    res.status(404).json({ error: 'Not Found', message: 'Author not found' });
-    return;
+  const existing = findAuthorById(req.params.id);
+  if (!existing) {
+    throw new NotFoundError('Author not found');
   }
 
-  res.json(updatedAuthor);
+  const updatedAuthor = updateAuthor(req.params.id, authorFields(req.body, existing)) as Author;
+  sendRecord(req, res, updatedAuthor);
 };
 
 /**
- * Deletes an existing author by ID.
+ * Deletes an existing author by ID, moving it to the trash.
+ * A author that is still listed by books, or that has pseudonyms or variants linked to it,
+ * cannot be deleted unless the cascade query parameter is 'detach',
+ * which removes the author from those books and unlinks those author records first.
+ * Detaching is refused if it would leave a book with no authors.
  * 
- * @param req the request object containing the author ID as a path parameter.
- * @param res the response object to send a success status or an error message.
- * @returns either a 204 No Content response if deletion was successful, or a 404 error response if the author was not found.
+ * @param req the request object containing the author ID as a path parameter and an optional cascade query parameter
+ * @param res the response object to send a success status or an error message
+ * @returns a 204 response if deletion was successful, a 400 error response for an unknown cascade mode,
+ * a 404 error response if the author was not found, or a 409 error response listing the books and authors that depend on the author
  */
 export const deleteAuthorById = (req: Request, res: Response): void => {
-  const success = deleteAuthor(req.params.id);
-  if (!success) {
-    res.status(404).json({ error: 'Not Found', message: 'Author not found' });
-    return;
+  const { cascade } = req.query;
+
+  if (!findAuthorById(req.params.id)) {
+    throw new NotFoundError('Author not found');
+  }
+
+  if (cascade !== undefined && cascade !== 'detach') {
+    throw new BadRequestError("cascade must be 'detach'");
+  }
+
+  const dependentBooks = findBooksByAuthorId(req.params.id);
+  if (dependentBooks.length > 0 && cascade !== 'detach') {
+    throw new ConflictError(
+      `Author is listed by ${dependentBooks.length} book(s); use ?cascade=detach to remove it from them`,
+      { books: summarizeBooks(dependentBooks) }
+    );
+  }
+
+  const linkedAuthors = findAuthorsByCanonicalAuthorId(req.params.id);
+  if (linkedAuthors.length > 0 && cascade !== 'detach') {
+    throw new ConflictError(
+      `Author has ${linkedAuthors.length} pseudonym(s) or variant(s); use ?cascade=detach to unlink them`,
+      { authors: summarizeAuthors(linkedAuthors) }
+    );
+  }
+
+  const orphanedBooks = dependentBooks.filter(book => book.authorIds.length === 1);
+  if (orphanedBooks.length > 0) {
+    throw new ConflictError('Detaching the author would leave books with no authors', {
+      books: summarizeBooks(orphanedBooks)
+    });
   }
 
+  dependentBooks.forEach(book => updateBook(book.id, { 
+    authorIds: book.authorIds.filter(id => id !== req.params.id) 
+  }));
+  linkedAuthors.forEach(author => updateAuthor(author.id, { canonicalAuthorId: undefined }));
+  deleteAuthor(req.params.id);
   res.status(204).send();
 };
@@ -1,40 +1,134 @@
 import { Request, Response } from 'express';
 import { 
-  bookCopies, 
+  listBookCopies, 
   findBookCopyById,
   findBookById,
+  findBranchById,
+  findCopiesByBookId,
+  findPatronById,
+  findCopiesCheckedOutBy,
+  findOpenLoanByCopyId,
+  findHoldsByBookId,
+  findTransitionsByCopyId,
   addBookCopy, 
+  addLoan,
   updateBookCopy, 
+  updateLoan,
+  updateHold,
   deleteBookCopy, 
   generateId 
 } from '../data/storage';
 import { BookCopy } from '../models';
+import { loanPolicy } from '../config';
+import { expireUncollectedHolds, getHoldQueue, releaseCopy, requeueHold } from '../services/holds';
+import { daysFromNow, now } from '../services/clock';
+import { accrueFine } from '../services/overdue';
+import { sendList } from '../middleware/listQuery';
+import { sendRecord } from '../middleware/conditional';
+import { expandBookCopy } from '../services/expansion';
+import {
+  canTransition,
+  circulationStatuses,
+  initialCopyStatuses,
+  isCirculationTransition,
+  isTransferTransition,
+  manualTransitionsFrom,
+  transitStatuses,
+  transitionCopy
+} from '../services/copyLifecycle';
+import { cancelOpenTransfer } from '../services/transfers';
+import { allocateBarcode, findCopyByScan, identifierConflicts } from '../services/barcodes';
+import { normalizeBarcode, normalizeRfidTag } from '../models/barcode';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
 
 /**
- * Retrieve all book copies, with optional filtering by bookId and status.
+ * Computes the due date of a loan starting today.
+ * 
+ * @returns the date loanPeriodDays from today, formatted as YYYY-MM-DD
+ */
+const computeDueDate = (): string => 
+  daysFromNow(loanPolicy.loanPeriodDays).toISOString().slice(0, 10);
+
+/**
+ * Checks that a branch a book copy refers to exists.
+ * 
+ * @param branchId the id of the branch
+ * @throws ValidationError if there is no such branch
+ */
+const checkBranch = (branchId: string): void => {
+  if (!findBranchById(branchId)) {
+    throw new ValidationError([{ field: 'branchId', message: 'Invalid branch ID' }]);
+  }
+};
+
+/**
+ * Checks that the barcode and RFID tag of a book copy are not another copy's.
+ * 
+ * @param copy the id of the copy, if it exists, and its normalized barcode and tag ID
+ * @throws ConflictError if another copy has either of them
+ */
+const checkIdentifiers = (copy: Pick<BookCopy, 'barcode' | 'rfidTag'> & { id?: string }): void => {
+  const conflicts = identifierConflicts(copy);
+  if (conflicts.length > 0) {
+    throw new ConflictError(conflicts.join('; '));
+  }
+};
+
+/**
+ * Retrieve all book copies, with optional filtering by bookId, status, the branch the copies belong to (branchId)
+ * and the branch they are at (currentBranchId).
  * If the query parameters are provided, the results will be filtered accordingly.
- * Otherwise, all book copies will be returned.
+ * The filtered copies are then paged, sorted, reduced to the selected fields and expanded
+ * as parsed from the query string before this runs.
  * 
- * @param req the request object containing query parameters for bookId and status
+ * @param req the request object containing query parameters for bookId, status, branchId, currentBranchId, paging, sort and field selection
  * @param res the response object to send the filtered list of book copies
  */
 export const getAllBookCopies = (req: Request, res: Response): void => {
-  let filteredCopies = bookCopies;
+  let filteredCopies = typeof req.query.bookId === 'string' 
+    ? findCopiesByBookId(req.query.bookId) 
+    : listBookCopies();
+
+  if (req.query.status) {
+    filteredCopies = filteredCopies.filter(copy => copy.status === req.query.status);
+  }
+  if (req.query.branchId) {
+    filteredCopies = filteredCopies.filter(copy => copy.branchId === req.query.branchId);
+  }
+  if (req.query.currentBranchId) {
+    filteredCopies = filteredCopies.filter(copy => copy.currentBranchId === req.query.currentBranchId);
+  }
 
-  if (req.query.bookId) {
-    filteredCopies = filteredCopies.filter(copy => copy.bookId === req.query.bookId);
+  sendList(req, res, filteredCopies, copy => expandBookCopy(copy, res.locals.expand));
+};
+
+/**
+ * Retrieve the copies of one book, with optional filtering by status.
+ * The copies are paged, sorted, reduced to the selected fields and expanded
+ * as parsed from the query string before this runs.
+ * If the book is not found, a 404 error is returned.
+ * 
+ * @param req the request object containing the book ID in the URL parameters and the status, paging, sort and field selection query parameters
+ * @param res the response object to send the copies of the book or an error message
+ * @returns the copies of the book if found, otherwise a 404 error
+ */
+export const getCopiesOfBook = (req: Request, res: Response): void => {
+  if (!findBookById(req.params.id)) {
+    throw new NotFoundError('Book not found');
   }
 
+  let copies = findCopiesByBookId(req.params.id);
   if (req.query.status) {
-    filteredCopies = filteredCopies.filter(copy => copy.status === req.query.status);
+    copies = copies.filter(copy => copy.status === req.query.status);
   }
 
-  res.json(filteredCopies);
+  sendList(req, res, copies, copy => expandBookCopy(copy, res.locals.expand));
 };
 
 /**
  * Retrieve a single book copy by its ID.
  * If the book copy is not found, a 404 error is returned.
+ * The expansions asked for with `?expand=` are parsed before this runs and inlined in the response.
  * 
  * @param req the request object containing the book copy ID in the URL parameters
  * @param res the response object to send the book copy or an error message
@@ -43,130 +137,342 @@ export const getAllBookCopies = (req: Request, res: Response): void => {
 export const getBookCopyById = (req: Request, res: Response): void => {
   const bookCopy = findBookCopyById(req.params.id);
   if (!bookCopy) {
-    res.status(404).json({ error: 'Not Found', message: 'Book copy not found' });
-    return;
+    throw new NotFoundError('Book copy not found');
+  }
+  sendRecord(req, res, bookCopy, expandBookCopy(bookCopy, res.locals.expand));
+};
+
+/**
+ * Retrieve the book copy a scanner read, by its barcode or the ID of its RFID tag.
+ * The code may be scanned with spaces or hyphens, and in any case.
+ * If no copy has the code, a 404 error is returned.
+ * The expansions asked for with `?expand=` are parsed before this runs and inlined in the response.
+ * 
+ * @param req the request object containing the scanned code in the URL parameters
+ * @param res the response object to send the book copy or an error message
+ * @returns the book copy if found, otherwise a 404 error
+ */
+export const getBookCopyByBarcode = (req: Request, res: Response): void => {
+  const bookCopy = findCopyByScan(req.params.code);
+  if (!bookCopy) {
+    throw new NotFoundError(`No book copy has barcode or RFID tag ${req.params.code}`);
   }
-  res.json(bookCopy);
+  sendRecord(req, res, bookCopy, expandBookCopy(bookCopy, res.locals.expand));
 };
 
 /**
  * Create a new book copy.
- * Validates the request body to ensure required fields are present and valid.
- * If validation fails, a 400 error is returned.
- * Requires bookId, imprint, and status fields.
+ * The request body has already been validated against the book copy schema;
+ * this also checks that bookId and branchId refer to an existing book and branch, and returns a 400 error if they do not.
+ * A new copy starts out on order, being processed, or available on the shelf, at the branch it belongs to.
+ * It is given the next barcode of the library unless the body has one,
+ * and a barcode or RFID tag that another copy has is rejected with a 409 error.
  * 
  * @param req the request object containing the book copy data in the body
  * @param res the response object to send the created book copy or an error message
- * @returns the created book copy if successful, otherwise a 400 error  
+ * @returns the created book copy if successful, otherwise a 400 or 409 error  
  */
 export const createBookCopy = (req: Request, res: Response): void => {
-  const { bookId, imprint, status, dueBackDate } = req.body;
+  const { bookId, imprint, status, branchId, shelfLocation } = req.body;
+  const barcode = req.body.barcode ? normalizeBarcode(req.body.barcode) : undefined;
+  const rfidTag = req.body.rfidTag ? normalizeRfidTag(req.body.rfidTag) : undefined;
   
-  if (!bookId || !imprint || !status) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: 'bookId, imprint, and status are required' 
-    });
-    return;
-  }
-
   if (!findBookById(bookId)) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: 'Invalid book ID' 
-    });
-    return;
+    throw new ValidationError([{ field: 'bookId', message: 'Invalid book ID' }]);
   }
+  checkBranch(branchId);
 
-  const validStatuses = ['available', 'unavailable', 'can be checkout', 'checked out'];
-  if (!validStatuses.includes(status)) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: `Invalid status. Must be one of: ${validStatuses.join(', ')}` 
-    });
-    return;
+  if (!initialCopyStatuses.includes(status)) {
+    const message = `A new book copy must be one of: ${initialCopyStatuses.join(', ')}`;
+    throw new ValidationError([{ field: 'status', message }]);
   }
 
+  checkIdentifiers({ barcode, rfidTag });
+
   const newBookCopy: BookCopy = {
-    id: generateId(),
+    id: generateId('bookCopies'),
     bookId,
     imprint,
     status,
-    dueBackDate
+    branchId,
+    currentBranchId: branchId,
+    shelfLocation,
+    barcode: barcode ?? allocateBarcode(),
+    rfidTag
   };
 
-  addBookCopy(newBookCopy);
-  res.status(201).json(newBookCopy);
+  sendRecord(req, res.status(201), addBookCopy(newBookCopy));
 };
 
 /**
  * Update an existing book copy by its ID.
- * Validates the request body to ensure required fields are present and valid.
+ * The request body has already been validated against the book copy schema;
+ * this also checks that bookId and branchId refer to an existing book and branch, and returns a 400 error if they do not.
  * If the book copy is not found, a 404 error is returned.
- * If validation fails, a 400 error is returned.
- * Requires bookId, imprint, and status fields.
+ * The status of a copy is not changed here but through its lifecycle transitions,
+ * so a body with a different status is rejected with a 409 error.
+ * Changing branchId changes the branch the copy belongs to, not where it is; that is done by transfers.
+ * A copy that was not at any branch yet is taken to be at the branch it belongs to.
+ * A body without a barcode keeps the copy's barcode, since every copy has one;
+ * a barcode or RFID tag that another copy has is rejected with a 409 error.
  * 
- * @param req the request object containing the book copy ID in the URL parameters and book id, imprint, status, and dueBackDate in the body
+ * @param req the request object containing the book copy ID in the URL parameters and book id, imprint, status, branch id, shelf location, barcode and RFID tag in the body
  * @param res the response object to send the updated book copy or an error message
- * @returns the updated book copy if successful, otherwise a 400 or 404 error
+ * @returns the updated book copy if successful, otherwise a 400, 404, or 409 error
  */
 export const updateBookCopyById = (req: Request, res: Response): void => {
-  const { bookId, imprint, status, dueBackDate } = req.body;
+  const { bookId, imprint, status, branchId, shelfLocation } = req.body;
+  const barcode = req.body.barcode ? normalizeBarcode(req.body.barcode) : undefined;
+  const rfidTag = req.body.rfidTag ? normalizeRfidTag(req.body.rfidTag) : undefined;
   
-  if (!bookId || !imprint || !status) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: 'bookId, imprint, and status are required' 
-    });
-    return;
+  if (!findBookById(bookId)) {
+    throw new ValidationError([{ field: 'bookId', message: 'Invalid book ID' }]);
   }
+  checkBranch(branchId);
 
-  if (!findBookById(bookId)) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: 'Invalid book ID' 
-    });
-    return;
+  const existingCopy = findBookCopyById(req.params.id);
+  if (!existingCopy) {
+    throw new NotFoundError('Book copy not found');
   }
 
-  const validStatuses = ['available', 'unavailable', 'can be checkout', 'checked out'];
-  if (!validStatuses.includes(status)) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: `Invalid status. Must be one of: ${validStatuses.join(', ')}` 
-    });
-    return;
+  if (existingCopy.status !== status) {
+    throw new ConflictError(`Use POST /book-copies/${existingCopy.id}/transitions to change the status of a book copy`);
   }
 
+  checkIdentifiers({ id: existingCopy.id, barcode, rfidTag });
+
+  const isPlaced = existingCopy.currentBranchId || transitStatuses.includes(existingCopy.status);
   const updatedBookCopy = updateBookCopy(req.params.id, {
     bookId,
     imprint,
-    status,
-    dueBackDate
-  });
-
-  if (!updatedBookCopy) {
-    res.status(404).json({ error: 'Not Found', message: 'Book copy not found' });
-    return;
-  }
+    branchId,
+    currentBranchId: isPlaced ? existingCopy.currentBranchId : branchId,
+    shelfLocation,
+    barcode: barcode ?? existingCopy.barcode,
+    rfidTag
+  }) as BookCopy;
 
-  res.json(updatedBookCopy);
+  sendRecord(req, res, updatedBookCopy);
 };
 
 /**
- * Delete a book copy by its ID.
+ * Delete a book copy by its ID, moving it to the trash.
  * If the book copy is not found, a 404 error is returned.
+ * A copy that is checked out, overdue, reserved for a patron, or in transit cannot be deleted, and a 409 error is returned.
  * 
  * @param req the request object containing the book copy ID in the URL parameters
  * @param res the response object to send a 204 status or an error message
- * @returns a 204 status if successful, otherwise a 404 error
+ * @returns a 204 status if successful, otherwise a 404 or 409 error
  */
 export const deleteBookCopyById = (req: Request, res: Response): void => {
-  const success = deleteBookCopy(req.params.id);
-  if (!success) {
-    res.status(404).json({ error: 'Not Found', message: 'Book copy not found' });
-    return;
+  const bookCopy = findBookCopyById(req.params.id);
+  if (!bookCopy) {
+    throw new NotFoundError('Book copy not found');
+  }
+
+  if (circulationStatuses.includes(bookCopy.status) || transitStatuses.includes(bookCopy.status)) {
+    throw new ConflictError(`Book copy cannot be deleted while it is ${bookCopy.status}`);
   }
 
+  cancelOpenTransfer(bookCopy.id);
+  deleteBookCopy(bookCopy.id);
   res.status(204).send();
 };
+
+/**
+ * Move a book copy to another status of its lifecycle, e.g. when it has been processed, damaged, or withdrawn.
+ * The request body has already been validated against the transition request schema.
+ * Statuses that belong to circulation or to transfers are entered and left through their own endpoints instead,
+ * and transitions the lifecycle does not allow are rejected with a 409 error listing the statuses that can follow.
+ * A copy that becomes available is handed to the first patron waiting for its book, if any,
+ * and a copy lost or damaged in transit ends its transfer; a hold the copy was being sent for goes back in the queue.
+ * 
+ * @param req the request object containing the book copy ID in the URL parameters and the status and reason in the body
+ * @param res the response object to send the updated book copy or an error message
+ * @returns the updated book copy if successful, otherwise a 400, 404, or 409 error
+ */
+export const transitionBookCopy = (req: Request, res: Response): void => {
+  const { to, reason } = req.body;
+
+  const bookCopy = findBookCopyById(req.params.id);
+  if (!bookCopy) {
+    throw new NotFoundError('Book copy not found');
+  }
+
+  if (isCirculationTransition(bookCopy.status, to)) {
+    throw new ConflictError('Use the circulation endpoints to lend, return, or reserve a book copy');
+  }
+
+  if (isTransferTransition(bookCopy.status, to)) {
+    throw new ConflictError('Use the transfer endpoints to send a book copy to another branch or receive it');
+  }
+
+  if (!canTransition(bookCopy.status, to)) {
+    throw new ConflictError(`A book copy that is ${bookCopy.status} cannot become ${to}`, {
+      allowed: manualTransitionsFrom(bookCopy.status)
+    });
+  }
+
+  if (transitStatuses.includes(bookCopy.status)) {
+    requeueHold(cancelOpenTransfer(bookCopy.id));
+  }
+
+  const updatedCopy = to === 'available'
+    ? releaseCopy(bookCopy, { reason })
+    : transitionCopy(bookCopy, to, { reason });
+
+  sendRecord(req, res, updatedCopy);
+};
+
+/**
+ * Retrieve the lifecycle history of a book copy: every status it has been in, oldest first,
+ * with who moved it there and why.
+ * If the book copy is not found, a 404 error is returned.
+ * 
+ * @param req the request object containing the book copy ID in the URL parameters
+ * @param res the response object to send the transitions or an error message
+ * @returns the transitions of the book copy if it exists, otherwise a 404 error
+ */
+export const getBookCopyTransitions = (req: Request, res: Response): void => {
+  if (!findBookCopyById(req.params.id)) {
+    throw new NotFoundError('Book copy not found');
+  }
+
+  res.json(findTransitionsByCopyId(req.params.id));
+};
+
+/**
+ * Check out a book copy to a patron.
+ * The copy must be 'available', or 'reserved' for this patron by the hold queue,
+ * the patron must exist, and the patron must not already hold as many copies as their loan limit allows.
+ * Checking out a reserved copy fulfills the patron's hold, even if the copy was about to be sent to their pickup branch,
+ * and any transfer of the copy that has not been shipped yet is cancelled.
+ * The due date is computed from the loan policy, and a new loan is recorded in the loan ledger.
+ * 
+ * @param req the request object containing the book copy ID in the URL parameters and the patronId in the body
+ * @param res the response object to send the checked out book copy or an error message
+ * @returns the checked out book copy if successful, otherwise a 400, 404, or 409 error
+ */
+export const checkoutBookCopy = (req: Request, res: Response): void => {
+  const { patronId } = req.body;
+
+  expireUncollectedHolds();
+  const bookCopy = findBookCopyById(req.params.id);
+  if (!bookCopy) {
+    throw new NotFoundError('Book copy not found');
+  }
+
+  const patron = findPatronById(patronId);
+  if (!patron) {
+    throw new ValidationError([{ field: 'patronId', message: 'Invalid patron ID' }]);
+  }
+
+  const isReservedForPatron = bookCopy.status === 'reserved' && bookCopy.patronId === patronId;
+  if (bookCopy.status !== 'available' && !isReservedForPatron) {
+    throw new ConflictError(bookCopy.status === 'reserved' 
+      ? 'Book copy is reserved for another patron' 
+      : `Book copy cannot be checked out while it is ${bookCopy.status}`);
+  }
+
+  const loanLimit = patron.loanLimit ?? loanPolicy.maxLoansPerPatron;
+  if (findCopiesCheckedOutBy(patronId).length >= loanLimit) {
+    throw new ConflictError(`Patron has reached the borrowing limit of ${loanLimit}`);
+  }
+
+  const dueBackDate = computeDueDate();
+  cancelOpenTransfer(bookCopy.id);
+  const checkedOutCopy = transitionCopy(bookCopy, 'on-loan', { patronId, dueBackDate });
+
+  addLoan({
+    id: generateId('loans'),
+    copyId: bookCopy.id,
+    patronId,
+    checkedOutAt: now().toISOString(),
+    dueAt: dueBackDate,
+    renewals: 0
+  });
+
+  if (isReservedForPatron) {
+    const readyHold = findHoldsByBookId(bookCopy.bookId)
+      .find(hold => (hold.status === 'ready' || hold.status === 'in-transit') && hold.copyId === bookCopy.id);
+    if (readyHold) {
+      updateHold(readyHold.id, { status: 'fulfilled' });
+    }
+  }
+
+  sendRecord(req, res, checkedOutCopy);
+};
+
+/**
+ * Return a checked out or overdue book copy and close its loan.
+ * Any fine owed for returning the copy late is brought up to date before the loan is closed.
+ * If patrons are waiting for the book, the copy is reserved for the first of them;
+ * otherwise it becomes available again.
+ * 
+ * @param req the request object containing the book copy ID in the URL parameters
+ * @param res the response object to send the returned book copy or an error message
+ * @returns the returned book copy if successful, otherwise a 404 or 409 error
+ */
+export const returnBookCopy = (req: Request, res: Response): void => {
+  const bookCopy = findBookCopyById(req.params.id);
+  if (!bookCopy) {
+    throw new NotFoundError('Book copy not found');
+  }
+
+  if (bookCopy.status !== 'on-loan' && bookCopy.status !== 'overdue') {
+    throw new ConflictError('Book copy is not checked out');
+  }
+
+  const loan = findOpenLoanByCopyId(bookCopy.id);
+  if (loan) {
+    accrueFine(loan);
+    updateLoan(loan.id, { returnedAt: now().toISOString() });
+  }
+
+  const returnedCopy = releaseCopy(bookCopy);
+
+  sendRecord(req, res, returnedCopy);
+};
+
+/**
+ * Renew the loan of a checked out book copy, moving its due date to a full loan period from today.
+ * A loan can be renewed at most maxRenewals times as set by the loan policy,
+ * and cannot be renewed once it is overdue or while other patrons are waiting for the book.
+ * 
+ * @param req the request object containing the book copy ID in the URL parameters
+ * @param res the response object to send the renewed book copy or an error message
+ * @returns the renewed book copy if successful, otherwise a 404 or 409 error
+ */
+export const renewBookCopy = (req: Request, res: Response): void => {
+  const bookCopy = findBookCopyById(req.params.id);
+  if (!bookCopy) {
+    throw new NotFoundError('Book copy not found');
+  }
+
+  if (bookCopy.status === 'overdue') {
+    throw new ConflictError('Overdue loans cannot be renewed');
+  }
+
+  if (bookCopy.status !== 'on-loan') {
+    throw new ConflictError('Book copy is not checked out');
+  }
+
+  const loan = findOpenLoanByCopyId(bookCopy.id);
+  if (!loan) {
+    throw new ConflictError('Book copy has no open loan to renew');
+  }
+
+  if (loan.renewals >= loanPolicy.maxRenewals) {
+    throw new ConflictError(`Loan has already been renewed the maximum of ${loanPolicy.maxRenewals} times`);
+  }
+
+  if (getHoldQueue(bookCopy.bookId).length > 0) {
+    throw new ConflictError('Loan cannot be renewed while other patrons are waiting for this book');
+  }
+
+  const dueBackDate = computeDueDate();
+  updateLoan(loan.id, { dueAt: dueBackDate, renewals: loan.renewals + 1 });
+  const renewedCopy = updateBookCopy(bookCopy.id, { dueBackDate });
+
+  sendRecord(req, res, renewedCopy as BookCopy);
+};
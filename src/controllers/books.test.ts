@@ -0,0 +1,55 @@
+import request from 'supertest';
+import app from '../app';
+import { newAuthor, newBook, newGenre, signIn } from '../testing/fixtures';
+
+const { auth } = signIn('admin');
+
+const bookWithIsbn = (isbn: string) => ({
+  title: 'Foundation',
+  authorIds: [newAuthor().id],
+  genreIds: [newGenre().id],
+  isbn,
+  summary: 'The first of the Foundation novels.',
+});
+
+describe('ISBNs of books', () => {
+  it('stores the canonical ISBN-13 and keeps the ISBN as entered for display', async () => {
+    const res = await request(app).post('/books').set('Authorization', auth).send(bookWithIsbn('0-553-29335-4'));
+
+    expect(res.status).toBe(201);
+    expect(res.body).toMatchObject({ isbn: '9780553293357', isbnDisplay: '0-553-29335-4' });
+    const found = await request(app).get('/books/by-isbn/978-0-553-29335-7').set('Authorization', auth);
+    expect(found.body.id).toBe(res.body.id);
+  });
+
+  it('refuses a second book with the same ISBN with 409, even when it is given as an ISBN-10', async () => {
+    const existing = newBook({ isbn: '9780804429573', isbnDisplay: '978-0-8044-2957-3' });
+
+    for (const isbn of ['9780804429573', '978-0-8044-2957-3', '0-8044-2957-X', '080442957x']) {
+      const res = await request(app).post('/books').set('Authorization', auth).send(bookWithIsbn(isbn));
+      expect(res.status).toBe(409);
+      expect(res.body.books).toEqual([{ id: existing.id, title: existing.title }]);
+    }
+  });
+
+  it('refuses to give a book the ISBN of another with 409', async () => {
+    const existing = newBook();
+    const other = newBook();
+
+    const res = await request(app)
+      .patch(`/books/${other.id}`)
+      .set('Authorization', auth)
+      .set('Content-Type', 'application/merge-patch+json')
+      .send(JSON.stringify({ isbn: existing.isbn }));
+
+    expect(res.status).toBe(409);
+    expect(res.body.books).toEqual([{ id: existing.id, title: existing.title }]);
+  });
+
+  it('refuses an ISBN with a wrong check digit with 400', async () => {
+    const res = await request(app).post('/books').set('Authorization', auth).send(bookWithIsbn('0-553-29335-5'));
+
+    expect(res.status).toBe(400);
+    expect(res.body.errors.map((error: { field: string }) => error.field)).toEqual(['isbn']);
+  });
+});
@@ -1,28 +1,44 @@
 import { Request, Response } from 'express';
 import { 
-  books, 
+  listBooks, 
   findBookById, 
+  findBookByIsbn,
   findAuthorById,
   findGenreById,
   addBook, 
   updateBook, 
   deleteBook, 
+  deleteBookCopy,
+  findCopiesByBookId,
+  findHoldsByBookId,
+  updateHold,
   generateId 
 } from '../data/storage';
 import { Book } from '../models';
+import { FieldError } from '../models/schema';
+import { normalizeIsbn } from '../models/isbn';
+import { sendList } from '../middleware/listQuery';
+import { sendRecord } from '../middleware/conditional';
+import { expandBook } from '../services/expansion';
+import { circulationStatuses, transitStatuses } from '../services/copyLifecycle';
+import { cancelOpenTransfer } from '../services/transfers';
+import { BadRequestError, ConflictError, NotFoundError, ValidationError } from '../errors';
 
 /**
- * Retrieve all books in the system.
+ * Retrieve a page of the books in the system.
+ * The paging, sort order, field selection and expansions are parsed from the query string before this runs.
  * 
- * @param res the response object containing the list of books
+ * @param req the request object containing the paging, sort, field selection and expand query parameters
+ * @param res the response object containing the page of books
  */
-export const getAllBooks = (_: Request, res: Response): void => {
-  res.json(books);
+export const getAllBooks = (req: Request, res: Response): void => {
+  sendList(req, res, listBooks(), book => expandBook(book, res.locals.expand));
 };
 
 /**
  * Retrieve a single book by its ID.
  * If the book is not found, respond with a 404 status code and an error message.
+ * The expansions asked for with `?expand=` are parsed before this runs and inlined in the response.
  * 
  * @param req the request object containing the book ID in the URL parameters
  * @param res the response object containing the book details or an error message
@@ -31,180 +47,302 @@ export const getAllBooks = (_: Request, res: Response): void => {
 export const getBookById = (req: Request, res: Response): void => {
   const book = findBookById(req.params.id);
   if (!book) {
-    res.status(404).json({ error: 'Not Found', message: 'Book not found' });
-    return;
+    throw new NotFoundError('Book not found');
   }
-  res.json(book);
+  sendRecord(req, res, book, expandBook(book, res.locals.expand));
 };
 
 /**
- * Create a new book in the system.
- * Validates that all required fields are present and that authorIds and genreIds refer to existing authors and genres.
- * If validation fails, responds with a 400 status code and an error message.
- * title, authorIds, genreIds, isbn, and summary are required fields.
- * The authorIds and genreIds must be non-empty arrays containing valid IDs.
- * An authorId or genreId is considered valid if they exist in the system.
+ * Retrieve a single book by its ISBN.
+ * The ISBN may be given as an ISBN-10 or ISBN-13, with or without hyphens.
+ * If the ISBN is not valid, respond with a 400 status code; if no book has it, respond with a 404 status code.
+ * The expansions asked for with `?expand=` are parsed before this runs and inlined in the response.
  * 
- * @param req the request object containing the book details in the body
- * @param res the response object containing the created book details or an error message
- * @returns the created book details if successful, otherwise a 400 error response
+ * @param req the request object containing the ISBN in the URL parameters
+ * @param res the response object containing the book details or an error message
+ * @returns the book details if found, otherwise a 400 or 404 error response
  */
-export const createBook = (req: Request, res: Response): void => {
-  const { title, authorIds, genreIds, isbn, summary } = req.body;
-  
-  if (!title || !authorIds || !genreIds || !isbn || !summary) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: 'title, authorIds, genreIds, isbn, and summary are required' 
-    });
-    return;
+export const getBookByIsbn = (req: Request, res: Response): void => {
+  const isbn = normalizeIsbn(req.params.isbn);
+  if (!isbn) {
+    const message = 'isbn must be a valid ISBN-10 or ISBN-13';
+    throw new ValidationError([{ field: 'isbn', message }]);
   }
 
-  if (!Array.isArray(authorIds) || authorIds.length === 0) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: 'authorIds must be a non-empty array' 
-    });
-    return;
+  const book = findBookByIsbn(isbn);
+  if (!book) {
+    throw new NotFoundError('Book not found');
   }
+  sendRecord(req, res, book, expandBook(book, res.locals.expand));
+};
 
-  if (!Array.isArray(genreIds) || genreIds.length === 0) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: 'genreIds must be a non-empty array' 
-    });
-    return;
-  }
+/**
+ * Checks that every author and genre a book refers to exists in the system.
+ * 
+ * @param authorIds the author IDs of the book
+ * @param genreIds the genre IDs of the book
+ * @returns the field-level errors for unknown IDs; empty if every ID exists
+ */
+const findInvalidReferences = (authorIds: string[], genreIds: string[]): FieldError[] => {
+  const errors: FieldError[] = [];
 
-  // Validate that all author IDs exist
-  // this function should be extracted as it breaks single responsibility principle
   const invalidAuthorIds = authorIds.filter(id => !findAuthorById(id));
   if (invalidAuthorIds.length > 0) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: `Invalid author IDs: ${invalidAuthorIds.join(', ')}` 
-    });
-    return;
+    errors.push({ field: 'authorIds', message: `Invalid author IDs: ${invalidAuthorIds.join(', ')}` });
   }
 
-  // Validate that all genre IDs exist
-  // same here, should be extracted
   const invalidGenreIds = genreIds.filter(id => !findGenreById(id));
   if (invalidGenreIds.length > 0) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: `Invalid genre IDs: ${invalidGenreIds.join(', ')}` 
+    errors.push({ field: 'genreIds', message: `Invalid genre IDs: ${invalidGenreIds.join(', ')}` });
+  }
+
+  return errors;
+};
+
+/**
+ * Create a new book in the system.
+ * The request body has already been validated against the book schema;
+ * this also checks that authorIds and genreIds refer to existing authors and genres.
+ * If they do not, responds with a 400 status code and an error for each invalid field.
+ * The ISBN is stored as its canonical hyphen-free ISBN-13, with the form as entered kept in isbnDisplay.
+ * If another book already has the same ISBN, responds with a 409 status code.
+ * 
+ * @param req the request object containing the book details in the body
+ * @param res the response object containing the created book details or an error message
+ * @returns the created book details if successful, otherwise a 400 or 409 error response
+ */
+export const createBook = (req: Request, res: Response): void => {
+  const { title, authorIds, genreIds, isbn, summary } = req.body;
+
+  const errors = findInvalidReferences(authorIds, genreIds);
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+
+  const canonicalIsbn = normalizeIsbn(isbn) as string;
+  const duplicate = findBookByIsbn(canonicalIsbn);
+  if (duplicate) {
+    throw new ConflictError(`Another book already has ISBN ${canonicalIsbn}`, {
+      books: [{ id: duplicate.id, title: duplicate.title }]
     });
-    return;
   }
 
   const newBook: Book = {
-    id: generateId(),
+    id: generateId('books'),
     title,
     authorIds,
     genreIds,
-    isbn,
+    isbn: canonicalIsbn,
+    isbnDisplay: isbn.trim(),
     summary
   };
 
-  addBook(newBook);
-  res.status(201).json(newBook);
+  sendRecord(req, res.status(201), addBook(newBook));
 };
 
 /**
  * Update an existing book by its ID.
- * Validates that all required fields are present and that authorIds and genreIds refer to existing authors and genres.
+ * The request body has already been validated against the book schema;
+ * this also checks that authorIds and genreIds refer to existing authors and genres.
  * If the book is not found, responds with a 404 status code and an error message.
- * If validation fails, responds with a 400 status code and an error message.
- * title, authorIds, genreIds, isbn, and summary are required fields.
- * The authorIds and genreIds must be non-empty arrays containing valid IDs.
- * An authorId or genreId is considered valid if they exist in the system.
+ * If a referenced author or genre does not exist, responds with a 400 status code and an error for each invalid field.
+ * If another book already has the same ISBN, responds with a 409 status code.
  * The title, authorIds, genreIds, isbn, and summary fields will replace the existing values.
+ * An ISBN sent back exactly as stored keeps its display form, so a merge patch that leaves the ISBN alone does not lose it.
  * 
  * @param req the request object containing the book ID in the URL parameters and the updated book details in the body
  * @param res the response object containing the updated book details or an error message
- * @returns the updated book details if successful, otherwise a 400 error response for validation errors or a 404 error response if the book is not found
+ * @returns the updated book details if successful, otherwise a 400 error response for validation errors,
+ * a 404 error response if the book is not found, or a 409 error response for a duplicate ISBN
  */
 export const updateBookById = (req: Request, res: Response): void => {
   const { title, authorIds, genreIds, isbn, summary } = req.body;
-  
-  if (!title || !authorIds || !genreIds || !isbn || !summary) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: 'title, authorIds, genreIds, isbn, and summary are required' 
-    });
-    return;
-  }
-
-  if (!Array.isArray(authorIds) || authorIds.length === 0) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: 'authorIds must be a non-empty array' 
-    });
-    return;
-  }
+  const existingBook = findBookById(req.params.id);
 
-  if (!Array.isArray(genreIds) || genreIds.length === 0) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: 'genreIds must be a non-empty array' 
-    });
-    return;
-  }
-
-  // Validate that all author IDs exist
-  // this function should be extracted as it breaks single responsibility principle
-  const invalidAuthorIds = authorIds.filter(id => !findAuthorById(id));
-  if (invalidAuthorIds.length > 0) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: `Invalid author IDs: ${invalidAuthorIds.join(', ')}` 
-    });
-    return;
+  const errors = findInvalidReferences(authorIds, genreIds);
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
   }
 
-  // Validate that all genre IDs exist
-  // same here, should be extracted
-  const invalidGenreIds = genreIds.filter(id => !findGenreById(id));
-  if (invalidGenreIds.length > 0) {
-    res.status(400).json({ 
-      error: 'Bad Request', 
-      message: `Invalid genre IDs: ${invalidGenreIds.join(', ')}` 
+  const canonicalIsbn = normalizeIsbn(isbn) as string;
+  const duplicate = findBookByIsbn(canonicalIsbn);
+  if (duplicate && duplicate.id !== req.params.id) {
+    throw new ConflictError(`Another book already has ISBN ${canonicalIsbn}`, {
+      books: [{ id: duplicate.id, title: duplicate.title }]
     });
-    return;
   }
 
   const updatedBook = updateBook(req.params.id, {
     title,
     authorIds,
     genreIds,
-    isbn,
+    isbn: canonicalIsbn,
+    isbnDisplay: existingBook && isbn === existingBook.isbn ? existingBook.isbnDisplay : isbn.trim(),
     summary
   });
 
   if (!updatedBook) {
-    res.status(404).json({ error: 'Not Found', message: 'Book not found' });
-    return;
+    throw new NotFoundError('Book not found');
   }
 
-  res.json(updatedBook);
+  sendRecord(req, res, updatedBook);
 };
 
 /**
  * Deletes a book by its ID.
  * If the book is not found, responds with a 404 status code and an error message.
+ * A book cannot be deleted while any of its copies is checked out, overdue, reserved for a patron, or in transit.
+ * A book that still has copies is only deleted if the cascade query parameter is 'delete',
+ * in which case its copies are deleted with it and any transfers requested for them are cancelled;
+ * otherwise a 409 status code is returned listing the copies.
+ * Holds still waiting on a deleted book are cancelled.
+ * The book and its copies go to the trash, from which they can be restored together.
  * On successful deletion, responds with a 204 status code and no content.
  * 
- * @param req the request object containing the book ID in the URL parameters
+ * @param req the request object containing the book ID in the URL parameters and an optional cascade query parameter
  * @param res the response object indicating success or failure of the deletion
- * @returns a status code of 204 if successful, otherwise a 404 error response if the book is not found
+ * @returns a status code of 204 if successful, otherwise a 400 error response for an unknown cascade mode,
+ * a 404 error response if the book is not found, or a 409 error response if copies depend on the book
  */
 export const deleteBookById = (req: Request, res: Response): void => {
-  const success = deleteBook(req.params.id);
-  if (!success) {
-    res.status(404).json({ error: 'Not Found', message: 'Book not found' });
+  const { cascade } = req.query;
+
+  if (!findBookById(req.params.id)) {
+    throw new NotFoundError('Book not found');
+  }
+
+  if (cascade !== undefined && cascade !== 'delete') {
+    throw new BadRequestError("cascade must be 'delete'");
+  }
+
+  const copies = findCopiesByBookId(req.params.id);
+  const copiesInUse = copies.filter(copy =>
+    circulationStatuses.includes(copy.status) || transitStatuses.includes(copy.status));
+  if (copiesInUse.length > 0) {
+    throw new ConflictError('Book cannot be deleted while copies are checked out, reserved, or in transit', {
+      copies: copiesInUse.map(({ id, status }) => ({ id, status }))
+    });
+  }
+
+  if (copies.length > 0 && cascade !== 'delete') {
+    throw new ConflictError(
+      `Book has ${copies.length} cop${copies.length === 1 ? 'y' : 'ies'}; use ?cascade=delete to delete them too`,
+      { copies: copies.map(({ id, status }) => ({ id, status })) }
+    );
+  }
+
+  copies.forEach(copy => {
+    cancelOpenTransfer(copy.id);
+    deleteBookCopy(copy.id, req.params.id);
+  });
+  findHoldsByBookId(req.params.id)
+    .filter(hold => hold.status === 'waiting')
+    .forEach(hold => updateHold(hold.id, { status: 'cancelled' }));
+  deleteBook(req.params.id);
+
+  res.status(204).send();
+};
+
+/**
+ * The reference fields of a book that can be attached and detached one ID at a time,
+ * with the route parameter holding the ID and how to check that the referenced record exists.
+ */
+const bookReferences = {
+  authorIds: { label: 'author', param: 'authorId', exists: (id: string) => !!findAuthorById(id) },
+  genreIds: { label: 'genre', param: 'genreId', exists: (id: string) => !!findGenreById(id) },
+};
+
+/**
+ * Creates a handler that adds one author or genre to a book.
+ * Attaching a reference the book already has leaves the book unchanged.
+ * 
+ * @param field the reference field of the book to add to
+ * @returns the request handler
+ */
+const attachReference = (field: keyof typeof bookReferences) => (req: Request, res: Response): void => {
+  const { label, param, exists } = bookReferences[field];
+  const book = findBookById(req.params.id);
+  if (!book) {
+    throw new NotFoundError('Book not found');
+  }
+
+  const referenceId = req.params[param];
+  if (!exists(referenceId)) {
+    throw new NotFoundError(`${label[0].toUpperCase()}${label.slice(1)} not found`);
+  }
+
+  if (book[field].includes(referenceId)) {
+    sendRecord(req, res, book);
     return;
   }
+  sendRecord(req, res, updateBook(book.id, { [field]: [...book[field], referenceId] }) as Book);
+};
+
+/**
+ * Creates a handler that removes one author or genre from a book.
+ * A book must keep at least one author and one genre, so removing the last one is refused.
+ * 
+ * @param field the reference field of the book to remove from
+ * @returns the request handler
+ */
+const detachReference = (field: keyof typeof bookReferences) => (req: Request, res: Response): void => {
+  const { label, param } = bookReferences[field];
+  const book = findBookById(req.params.id);
+  if (!book) {
+    throw new NotFoundError('Book not found');
+  }
+
+  const referenceId = req.params[param];
+  if (!book[field].includes(referenceId)) {
+    throw new NotFoundError(`The book does not list ${label} ${referenceId}`);
+  }
 
+  if (book[field].length === 1) {
+    throw new ConflictError(`A book must have at least one ${label}`);
+  }
+
+  updateBook(book.id, { [field]: book[field].filter(id => id !== referenceId) });
   res.status(204).send();
 };
+
+/**
+ * Add an author to a book without replacing the whole book.
+ * If the book or the author is not found, respond with a 404 status code.
+ * 
+ * @param req the request object containing the book ID and author ID in the URL parameters
+ * @param res the response object containing the updated book or an error message
+ * @returns the updated book if successful, otherwise a 404 error response
+ */
+export const attachAuthorToBook = attachReference('authorIds');
+
+/**
+ * Remove an author from a book without replacing the whole book.
+ * If the book is not found or does not list the author, respond with a 404 status code;
+ * if the author is the book's only author, respond with a 409 status code.
+ * 
+ * @param req the request object containing the book ID and author ID in the URL parameters
+ * @param res the response object containing a success status or an error message
+ * @returns a 204 response if successful, otherwise a 404 or 409 error response
+ */
+export const detachAuthorFromBook = detachReference('authorIds');
+
+/**
+ * Add a genre to a book without replacing the whole book.
+ * If the book or the genre is not found, respond with a 404 status code.
+ * 
+ * @param req the request object containing the book ID and genre ID in the URL parameters
+ * @param res the response object containing the updated book or an error message
+ * @returns the updated book if successful, otherwise a 404 error response
+ */
+export const attachGenreToBook = attachReference('genreIds');
+
+/**
+ * Remove a genre from a book without replacing the whole book.
+ * If the book is not found or does not list the genre, respond with a 404 status code;
+ * if the genre is the book's only genre, respond with a 409 status code.
+ * 
+ * @param req the request object containing the book ID and genre ID in the URL parameters
+ * @param res the response object containing a success status or an error message
+ * @returns a 204 response if successful, otherwise a 404 or 409 error response
+ */
+export const detachGenreFromBook = detachReference('genreIds');
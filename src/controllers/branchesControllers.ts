@@ -0,0 +1,139 @@
+import { Request, Response } from 'express';
+import {
+  listBranches,
+  findBranchById,
+  findBranchByCode,
+  findCopiesByBranchId,
+  findHoldsByPickupBranchId,
+  listTransfers,
+  addBranch,
+  updateBranch,
+  deleteBranch,
+  generateId
+} from '../data/storage';
+import { Branch, Hold, Transfer } from '../models';
+import { sendList } from '../middleware/listQuery';
+import { sendRecord } from '../middleware/conditional';
+import { ConflictError, NotFoundError } from '../errors';
+
+/**
+ * Checks that no other branch has the given code, ignoring case.
+ *
+ * @param code the code of the branch
+ * @param id the id of the branch being updated, if any
+ * @throws ConflictError if another branch has the code
+ */
+const checkUniqueCode = (code: string, id?: string): void => {
+  const duplicate = findBranchByCode(code);
+  if (duplicate && duplicate.id !== id) {
+    throw new ConflictError(`Another branch already has code ${duplicate.code}`);
+  }
+};
+
+/**
+ * Retrieve a page of the branches of the library.
+ * the paging, sort order and field selection are parsed from the query string before this runs.
+ *
+ * @param req the request object containing the paging, sort and field selection query parameters
+ * @param res the response object to send the branches
+ */
+export const getAllBranches = (req: Request, res: Response): void => {
+  sendList(req, res, listBranches());
+};
+
+/**
+ * Retrieve a specific branch by its ID.
+ * if the branch is not found, respond with a 404 status code.
+ *
+ * @param req the request object containing the branch ID in params
+ * @param res the response object to send the branch or error message
+ */
+export const getBranchById = (req: Request, res: Response): void => {
+  const branch = findBranchById(req.params.id);
+  if (!branch) {
+    throw new NotFoundError('Branch not found');
+  }
+  sendRecord(req, res, branch);
+};
+
+/**
+ * Creates a new branch.
+ * the body is validated against the branch schema first, which responds with a 400 status code if it is invalid.
+ * if another branch already has the code, respond with a 409 status code.
+ * the newly created branch is returned with a 201 status code.
+ *
+ * @param req the request object containing the branch details in body
+ * @param res the response object to send the created branch or error message
+ */
+export const createBranch = (req: Request, res: Response): void => {
+  const { code, name, address } = req.body;
+
+  checkUniqueCode(code);
+
+  const newBranch: Branch = {
+    id: generateId('branches'),
+    code,
+    name,
+    address
+  };
+
+  sendRecord(req, res.status(201), addBranch(newBranch));
+};
+
+/**
+ * Modifies an existing branch identified by its ID with the details in the request body.
+ * if the branch is not found, respond with a 404 status code.
+ * if another branch already has the code, respond with a 409 status code.
+ *
+ * @param req the request object containing the branch ID in params and its new details in body
+ * @param res the response object to send the updated branch or error message
+ */
+export const updateBranchById = (req: Request, res: Response): void => {
+  const { code, name, address } = req.body;
+
+  if (!findBranchById(req.params.id)) {
+    throw new NotFoundError('Branch not found');
+  }
+  checkUniqueCode(code, req.params.id);
+
+  sendRecord(req, res, updateBranch(req.params.id, { code, name, address }) as Branch);
+};
+
+/**
+ * Deletes a branch identified by its ID.
+ * if the branch is not found, respond with a 404 status code.
+ * if copies belong to or are at the branch, holds are to be picked up there, or copies are being sent to or from it,
+ * respond with a 409 status code; they have to be moved or cancelled first.
+ * on successful deletion, respond with a 204 status code and no content.
+ *
+ * @param req the request object containing the branch ID in params
+ * @param res the response object to send the status of deletion or error message
+ */
+export const deleteBranchById = (req: Request, res: Response): void => {
+  const { id } = req.params;
+
+  if (!findBranchById(id)) {
+    throw new NotFoundError('Branch not found');
+  }
+
+  const copies = findCopiesByBranchId(id);
+  if (copies.length > 0) {
+    throw new ConflictError(`${copies.length} book copy(ies) belong to or are at the branch`, {
+      copies: copies.map(({ id, status }) => ({ id, status }))
+    });
+  }
+
+  const activeStatuses: Hold['status'][] = ['waiting', 'in-transit', 'ready'];
+  if (findHoldsByPickupBranchId(id).some(hold => activeStatuses.includes(hold.status))) {
+    throw new ConflictError('Holds are still to be picked up at the branch');
+  }
+
+  const openStatuses: Transfer['status'][] = ['requested', 'shipped'];
+  if (listTransfers().some(transfer =>
+    openStatuses.includes(transfer.status) && (transfer.fromBranchId === id || transfer.toBranchId === id))) {
+    throw new ConflictError('Book copies are still being transferred to or from the branch');
+  }
+
+  deleteBranch(id);
+  res.status(204).send();
+};
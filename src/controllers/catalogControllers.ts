@@ -0,0 +1,103 @@
+import { once } from 'events';
+import { Request, Response, NextFunction } from 'express';
+import { CatalogFormat, catalogMediaTypes, readCatalogRecords, toCsvRecord } from '../services/catalogFormats';
+import { CatalogRow, catalogColumns, exportCatalog, importCatalog } from '../services/catalogTransfer';
+import { UnsupportedMediaTypeError } from '../errors';
+
+/**
+ * The number of rows written between yields to the event loop while exporting.
+ */
+const EXPORT_CHUNK_SIZE = 500;
+
+/**
+ * Works out the format of an import from the `format` query parameter, or else from the Content-Type of the upload.
+ *
+ * @param req the import request
+ * @returns the format of the upload, or undefined if it is not supported
+ */
+const importFormat = (req: Request): CatalogFormat | undefined => {
+  if (req.query.format === 'csv' || req.query.format === 'ndjson') return req.query.format;
+  if (req.is('text/csv')) return 'csv';
+  if (req.is(['application/x-ndjson', 'application/jsonl', 'application/x-jsonlines'])) return 'ndjson';
+  return undefined;
+};
+
+/**
+ * Formats one exported row as a line of the export.
+ *
+ * @param row the row to format
+ * @param format the format of the export
+ * @returns the line, including its line break
+ */
+const formatRow = (row: CatalogRow, format: CatalogFormat): string => {
+  if (format === 'ndjson') return `${JSON.stringify(row)}\n`;
+  return `${toCsvRecord(catalogColumns.map(column => {
+    const value = row[column];
+    return Array.isArray(value) ? value.join('; ') : value;
+  }))}\n`;
+};
+
+/**
+ * Import authors, genres, books and copies from an uploaded CSV or JSON Lines file.
+ * Each row names its kind in a `type` column and is validated like the matching create or update request;
+ * authors and genres are matched by name and books by ISBN, so existing records are updated rather than duplicated.
+ * The file is read as it arrives and imported in chunks, so large imports do not block other requests.
+ * With `?dryRun=true` every row is checked but nothing is written.
+ * If the format of the upload is not supported, respond with a 415 status code.
+ *
+ * @param req the request object streaming the file to import, with optional format and dryRun query parameters
+ * @param res the response object to send the import report or an error message
+ * @param next the function to pass unexpected errors on to
+ * @returns the counts of created, updated and unchanged records, and an error for each row that could not be imported
+ */
+export const importCatalogFile = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const format = importFormat(req);
+  if (!format) {
+    next(new UnsupportedMediaTypeError(`Upload the catalog as ${catalogMediaTypes.csv} or ${catalogMediaTypes.ndjson}`));
+    return;
+  }
+
+  try {
+    const report = await importCatalog(readCatalogRecords(req, format), req.query.dryRun === 'true');
+    res.json(report);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * Export the whole catalog as CSV or JSON Lines, in the format accepted by the import.
+ * The format is taken from the `format` query parameter, or else from the Accept header, and defaults to JSON Lines.
+ * Rows are streamed as they are produced, waiting for the client to keep up, rather than built in memory.
+ *
+ * @param req the request object with the optional format query parameter
+ * @param res the response object to stream the catalog to
+ * @param next the function to pass unexpected errors on to
+ */
+export const exportCatalogFile = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const format: CatalogFormat = req.query.format === 'csv' || req.query.format === 'ndjson'
+    ? req.query.format
+    : req.accepts([catalogMediaTypes.ndjson, catalogMediaTypes.csv]) === catalogMediaTypes.csv ? 'csv' : 'ndjson';
+
+  try {
+    res.type(catalogMediaTypes[format]);
+    res.attachment(`catalog.${format === 'csv' ? 'csv' : 'ndjson'}`);
+    if (format === 'csv') {
+      res.write(`${toCsvRecord([...catalogColumns])}\n`);
+    }
+
+    let written = 0;
+    for (const row of exportCatalog()) {
+      if (!res.write(formatRow(row, format))) {
+        await Promise.race([once(res, 'drain'), once(res, 'close')]);
+      }
+      if (res.destroyed) return;
+      if (++written % EXPORT_CHUNK_SIZE === 0) {
+        await new Promise(resolve => setImmediate(resolve));
+      }
+    }
+    res.end();
+  } catch (err) {
+    next(err);
+  }
+};
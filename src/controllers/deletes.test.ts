@@ -0,0 +1,115 @@
+import request from 'supertest';
+import app from '../app';
+import { findAuthorById, findBookById, findBookCopyById, findGenreById } from '../data/storage';
+import { BookCopyStatus } from '../models';
+import { newAuthor, newBook, newCopy, newGenre, signIn } from '../testing/fixtures';
+
+const { auth } = signIn('admin');
+
+describe('DELETE /authors/:id', () => {
+  it('refuses with 409 while a book lists the author', async () => {
+    const author = newAuthor();
+    const book = newBook({ authorIds: [author.id] });
+
+    const res = await request(app).delete(`/authors/${author.id}`).set('Authorization', auth);
+
+    expect(res.status).toBe(409);
+    expect(res.body.books).toEqual([expect.objectContaining({ id: book.id })]);
+    expect(findAuthorById(author.id)).toBeDefined();
+  });
+
+  it('removes the author from its books with cascade=detach', async () => {
+    const author = newAuthor();
+    const coauthor = newAuthor();
+    const book = newBook({ authorIds: [author.id, coauthor.id] });
+
+    const res = await request(app).delete(`/authors/${author.id}?cascade=detach`).set('Authorization', auth);
+
+    expect(res.status).toBe(204);
+    expect(findAuthorById(author.id)).toBeUndefined();
+    expect(findBookById(book.id)?.authorIds).toEqual([coauthor.id]);
+  });
+
+  it('refuses to detach the only author of a book', async () => {
+    const author = newAuthor();
+    const book = newBook({ authorIds: [author.id] });
+
+    const res = await request(app).delete(`/authors/${author.id}?cascade=detach`).set('Authorization', auth);
+
+    expect(res.status).toBe(409);
+    expect(res.body.books).toEqual([expect.objectContaining({ id: book.id })]);
+    expect(findBookById(book.id)?.authorIds).toEqual([author.id]);
+  });
+});
+
+describe('DELETE /genres/:id', () => {
+  it('refuses with 409 while a book lists the genre', async () => {
+    const genre = newGenre();
+    const book = newBook({ genreIds: [genre.id] });
+
+    const res = await request(app).delete(`/genres/${genre.id}`).set('Authorization', auth);
+
+    expect(res.status).toBe(409);
+    expect(res.body.books).toEqual([expect.objectContaining({ id: book.id })]);
+    expect(findGenreById(genre.id)).toBeDefined();
+  });
+
+  it('removes the genre from its books with cascade=detach', async () => {
+    const genre = newGenre();
+    const other = newGenre();
+    const book = newBook({ genreIds: [genre.id, other.id] });
+
+    const res = await request(app).delete(`/genres/${genre.id}?cascade=detach`).set('Authorization', auth);
+
+    expect(res.status).toBe(204);
+    expect(findGenreById(genre.id)).toBeUndefined();
+    expect(findBookById(book.id)?.genreIds).toEqual([other.id]);
+  });
+
+  it('refuses to detach the only genre of a book', async () => {
+    const genre = newGenre();
+    const book = newBook({ genreIds: [genre.id] });
+
+    const res = await request(app).delete(`/genres/${genre.id}?cascade=detach`).set('Authorization', auth);
+
+    expect(res.status).toBe(409);
+    expect(findBookById(book.id)?.genreIds).toEqual([genre.id]);
+  });
+});
+
+describe('DELETE /books/:id', () => {
+  it('refuses with 409 while the book has copies', async () => {
+    const book = newBook();
+    const copy = newCopy(book);
+
+    const res = await request(app).delete(`/books/${book.id}`).set('Authorization', auth);
+
+    expect(res.status).toBe(409);
+    expect(res.body.copies).toEqual([{ id: copy.id, status: 'available' }]);
+    expect(findBookById(book.id)).toBeDefined();
+  });
+
+  it('deletes the copies along with the book with cascade=delete', async () => {
+    const book = newBook();
+    const copy = newCopy(book);
+
+    const res = await request(app).delete(`/books/${book.id}?cascade=delete`).set('Authorization', auth);
+
+    expect(res.status).toBe(204);
+    expect(findBookById(book.id)).toBeUndefined();
+    expect(findBookCopyById(copy.id)).toBeUndefined();
+  });
+
+  it.each<BookCopyStatus>(['on-loan', 'in-transit'])('refuses even with cascade=delete while a copy is %s', async status => {
+    const book = newBook();
+    const copy = newCopy(book, status === 'on-loan'
+      ? { status, patronId: 'patron1', dueBackDate: '2030-01-01' }
+      : { status });
+
+    const res = await request(app).delete(`/books/${book.id}?cascade=delete`).set('Authorization', auth);
+
+    expect(res.status).toBe(409);
+    expect(res.body.copies).toEqual([{ id: copy.id, status }]);
+    expect(findBookCopyById(copy.id)).toBeDefined();
+  });
+});
@@ -0,0 +1,113 @@
+import { Request, Response } from 'express';
+import {
+  findPatronById,
+  findFineById,
+  findFinesByPatronId,
+  updateFine
+} from '../data/storage';
+import { Fine } from '../models';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+
+/**
+ * Computes how much of a fine is still owed.
+ *
+ * @param fine the fine to check
+ * @returns the outstanding amount in cents, which is 0 for waived fines
+ */
+const getOutstandingCents = (fine: Fine): number =>
+  fine.status === 'waived' ? 0 : fine.amountCents - fine.paidCents;
+
+/**
+ * Finds the fine named in the URL parameters and checks that it belongs to the patron in the URL.
+ *
+ * @param req the request object containing the patron ID and fine ID in the URL parameters
+ * @returns the fine
+ * @throws NotFoundError if the patron or fine is missing
+ */
+const findFineForRequest = (req: Request): Fine => {
+  if (!findPatronById(req.params.id)) {
+    throw new NotFoundError('Patron not found');
+  }
+
+  const fine = findFineById(req.params.fineId);
+  if (!fine || fine.patronId !== req.params.id) {
+    throw new NotFoundError('Fine not found');
+  }
+
+  return fine;
+};
+
+/**
+ * Retrieve the fines charged to a patron along with their outstanding balance.
+ * The status query parameter narrows the list to open, paid, or waived fines.
+ *
+ * @param req the request object containing the patron ID in the URL parameters and an optional status query parameter
+ * @param res the response object to send the balance and fines or an error message
+ * @returns the patron's balance and fines, otherwise a 404 error if the patron is not found
+ */
+export const getFinesForPatron = (req: Request, res: Response): void => {
+  if (!findPatronById(req.params.id)) {
+    throw new NotFoundError('Patron not found');
+  }
+
+  const patronFines = findFinesByPatronId(req.params.id);
+  const balanceCents = patronFines.reduce((total, fine) => total + getOutstandingCents(fine), 0);
+  const listedFines = req.query.status
+    ? patronFines.filter(fine => fine.status === req.query.status)
+    : patronFines;
+
+  res.json({ balanceCents, fines: listedFines });
+};
+
+/**
+ * Record a payment towards an open fine.
+ * The amount, already validated as a positive whole number of cents, must be no greater than what is still owed;
+ * once the fine is paid in full its status becomes 'paid'.
+ *
+ * @param req the request object containing the patron ID and fine ID in the URL parameters and amountCents in the body
+ * @param res the response object to send the updated fine or an error message
+ * @returns the updated fine if successful, otherwise a 400, 404, or 409 error
+ */
+export const payFine = (req: Request, res: Response): void => {
+  const { amountCents } = req.body;
+
+  const fine = findFineForRequest(req);
+
+  if (fine.status !== 'open') {
+    throw new ConflictError(`Fine is already ${fine.status}`);
+  }
+
+  const outstandingCents = getOutstandingCents(fine);
+  if (amountCents > outstandingCents) {
+    const message = `amountCents must not exceed the outstanding ${outstandingCents}`;
+    throw new ValidationError([{ field: 'amountCents', message }]);
+  }
+
+  const paidCents = fine.paidCents + amountCents;
+  const updatedFine = updateFine(fine.id, {
+    paidCents,
+    status: paidCents === fine.amountCents ? 'paid' : 'open'
+  });
+
+  res.json(updatedFine);
+};
+
+/**
+ * Waive whatever is still owed on an open fine.
+ *
+ * @param req the request object containing the patron ID and fine ID in the URL parameters and an optional reason in the body
+ * @param res the response object to send the updated fine or an error message
+ * @returns the updated fine if successful, otherwise a 404 or 409 error
+ */
+export const waiveFine = (req: Request, res: Response): void => {
+  const { reason } = req.body;
+
+  const fine = findFineForRequest(req);
+
+  if (fine.status !== 'open') {
+    throw new ConflictError(`Fine is already ${fine.status}`);
+  }
+
+  const updatedFine = updateFine(fine.id, { status: 'waived', waiverReason: reason });
+  res.json(updatedFine);
+};
@@ -1,21 +1,53 @@
 import { Request, Response } from 'express';
 import { 
-  genres, 
+  listGenres, 
   findGenreById, 
   addGenre, 
   updateGenre, 
   deleteGenre, 
+  findBooksByGenreId,
+  updateBook,
   generateId 
 } from '../data/storage';
-import { Genre } from '../models';
+import { Genre, Book } from '../models';
+import { sendList } from '../middleware/listQuery';
+import { sendRecord } from '../middleware/conditional';
+import { expandBook } from '../services/expansion';
+import { BadRequestError, ConflictError, NotFoundError } from '../errors';
 
 /**
- * Retrieve all genres in the system.
+ * Reduces books to the id and title needed to identify them in a conflict response.
  * 
+ * @param books the books to summarize
+ * @returns the id and title of each book
+ */
+const summarizeBooks = (books: Book[]): Pick<Book, 'id' | 'title'>[] => 
+  books.map(({ id, title }) => ({ id, title }));
+
+/**
+ * Retrieve a page of the genres in the system.
+ * the paging, sort order and field selection are parsed from the query string before this runs.
+ * 
+ * @param req the request object containing the paging, sort and field selection query parameters
  * @param res the response object to send the genres data
  */
-export const getAllGenres = (_: Request, res: Response): void => {
-  res.json(genres);
+export const getAllGenres = (req: Request, res: Response): void => {
+  sendList(req, res, listGenres());
+};
+
+/**
+ * Retrieve a page of the books in a genre.
+ * the paging, sort order, field selection and expansions are parsed from the query string before this runs.
+ * if the genre is not found, respond with a 404 status code.
+ * 
+ * @param req the request object containing the genre ID in params
+ * @param res the response object to send the page of books or error message
+ */
+export const getBooksInGenre = (req: Request, res: Response): void => {
+  if (!findGenreById(req.params.id)) {
+    throw new NotFoundError('Genre not found');
+  }
+  sendList(req, res, findBooksByGenreId(req.params.id), book => expandBook(book, res.locals.expand));
 };
 
 /**
@@ -28,15 +60,14 @@ export const getAllGenres = (_: Request, res: Response): void => {
 export const getGenreById = (req: Request, res: Response): void => {
   const genre = findGenreById(req.params.id);
   if (!genre) {
-    res.status(404).json({ error: 'Not Found', message: 'Genre not found' });
-    return;
+    throw new NotFoundError('Genre not found');
   }
-  res.json(genre);
+  sendRecord(req, res, genre);
 };
 
 /**
  * creates a new genre with the provided name in the request body.
- * if the name is missing, respond with a 400 status code.
+ * the body is validated against the genre schema first, which responds with a 400 status code if the name is missing.
  * the newly created genre is returned with a 201 status code.
  * 
  * @param req the request object containing the genre name in body
@@ -45,24 +76,18 @@ export const getGenreById = (req: Request, res: Response): void => {
 export const createGenre = (req: Request, res: Response): void => {
   const { name } = req.body;
   
-  if (!name) {
-    res.status(400).json({ error: 'Bad Request', message: 'name is required' });
-    return;
-  }
-
   const newGenre: Genre = {
-    id: generateId(),
+    id: generateId('genres'),
     name
   };
 
-  addGenre(newGenre);
-  res.status(201).json(newGenre);
+  sendRecord(req, res.status(201), addGenre(newGenre));
 };
 
 /**
  * Modifies an existing genre identified by its ID with the new name provided in the request body.
  * if the genre is not found, respond with a 404 status code.
- * if the name is missing, respond with a 400 status code.
+ * the body is validated against the genre schema first, which responds with a 400 status code if the name is missing.
  * the updated genre is returned in the response.
  * 
  * @param req the request object containing the genre ID in params and new name in body
@@ -71,35 +96,55 @@ export const createGenre = (req: Request, res: Response): void => {
 export const updateGenreById = (req: Request, res: Response): void => {
   const { name } = req.body;
   
-  if (!name) {
-    res.status(400).json({ error: 'Bad Request', message: 'name is required' });
-    return;
-  }
-
   const updatedGenre = updateGenre(req.params.id, { name });
 
   if (!updatedGenre) {
-    res.status(404).json({ error: 'Not Found', message: 'Genre not found' });
-    return;
+    throw new NotFoundError('Genre not found');
   }
 
-  res.json(updatedGenre);
+  sendRecord(req, res, updatedGenre);
 };
 
 /**
- * Deletes a genre identified by its ID.
+ * Deletes a genre identified by its ID, moving it to the trash.
  * if the genre is not found, respond with a 404 status code.
+ * if books still list the genre, respond with a 409 status code listing them, unless the cascade
+ * query parameter is 'detach', in which case the genre is first removed from those books.
+ * detaching is refused with a 409 status code if it would leave a book with no genres.
  * on successful deletion, respond with a 204 status code and no content. 
  * 
- * @param req the request object containing the genre ID in params
+ * @param req the request object containing the genre ID in params and an optional cascade query parameter
  * @param res the response object to send the status of deletion or error message
  */
 export const deleteGenreById = (req: Request, res: Response): void => {
-  const success = deleteGenre(req.params.id);
-  if (!success) {
-    res.status(404).json({ error: 'Not Found', message: 'Genre not found' });
-    return;
+  const { cascade } = req.query;
+
+  if (!findGenreById(req.params.id)) {
+    throw new NotFoundError('Genre not found');
+  }
+
+  if (cascade !== undefined && cascade !== 'detach') {
+    throw new BadRequestError("cascade must be 'detach'");
+  }
+
+  const dependentBooks = findBooksByGenreId(req.params.id);
+  if (dependentBooks.length > 0 && cascade !== 'detach') {
+    throw new ConflictError(
+      `Genre is listed by ${dependentBooks.length} book(s); use ?cascade=detach to remove it from them`,
+      { books: summarizeBooks(dependentBooks) }
+    );
+  }
+
+  const orphanedBooks = dependentBooks.filter(book => book.genreIds.length === 1);
+  if (orphanedBooks.length > 0) {
+    throw new ConflictError('Detaching the genre would leave books with no genres', {
+      books: summarizeBooks(orphanedBooks)
+    });
   }
 
+  dependentBooks.forEach(book => updateBook(book.id, { 
+    genreIds: book.genreIds.filter(id => id !== req.params.id) 
+  }));
+  deleteGenre(req.params.id);
   res.status(204).send();
 };
@@ -0,0 +1,168 @@
+import { Request, Response } from 'express';
+import {
+  listBookCopies,
+  findBookById,
+  findPatronById,
+  findHoldById,
+  findHoldsByBookId,
+  findBookCopyById,
+  findBranchById,
+  addHold,
+  updateHold,
+  generateId
+} from '../data/storage';
+import { Hold } from '../models';
+import { expireUncollectedHolds, getQueuePosition, releaseCopy } from '../services/holds';
+import { now } from '../services/clock';
+import { cancelOpenTransfer } from '../services/transfers';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+
+/**
+ * Hold statuses that still wait for, or have, a copy: the hold can be cancelled, and blocks another hold on the same book.
+ */
+const activeHoldStatuses: Hold['status'][] = ['waiting', 'in-transit', 'ready'];
+
+/**
+ * Adds the patron's position in the queue to a hold that is still waiting.
+ *
+ * @param hold the hold to describe
+ * @returns the hold along with its queue position, if it has one
+ */
+const withPosition = (hold: Hold): Hold & { position?: number } => ({
+  ...hold,
+  position: getQueuePosition(hold)
+});
+
+/**
+ * Finds the hold named in the URL parameters and checks that it belongs to the book in the URL.
+ *
+ * @param req the request object containing the book ID and hold ID in the URL parameters
+ * @returns the hold
+ * @throws NotFoundError if the book or hold is missing
+ */
+const findHoldForRequest = (req: Request): Hold => {
+  if (!findBookById(req.params.id)) {
+    throw new NotFoundError('Book not found');
+  }
+
+  const hold = findHoldById(req.params.holdId);
+  if (!hold || hold.bookId !== req.params.id) {
+    throw new NotFoundError('Hold not found');
+  }
+
+  return hold;
+};
+
+/**
+ * Retrieve the holds of a book that are waiting, on their way to their pickup branch, or ready for pickup, in queue order.
+ * The patronId query parameter narrows the result to a single patron's holds.
+ *
+ * @param req the request object containing the book ID in the URL parameters and an optional patronId query parameter
+ * @param res the response object to send the holds or an error message
+ * @returns the active holds of the book, otherwise a 404 error if the book is not found
+ */
+export const getHoldsForBook = (req: Request, res: Response): void => {
+  if (!findBookById(req.params.id)) {
+    throw new NotFoundError('Book not found');
+  }
+
+  expireUncollectedHolds();
+  let activeHolds = findHoldsByBookId(req.params.id)
+    .filter(hold => activeHoldStatuses.includes(hold.status));
+
+  if (req.query.patronId) {
+    activeHolds = activeHolds.filter(hold => hold.patronId === req.query.patronId);
+  }
+
+  res.json(activeHolds.map(withPosition));
+};
+
+/**
+ * Retrieve a single hold of a book, including its position in the queue.
+ *
+ * @param req the request object containing the book ID and hold ID in the URL parameters
+ * @param res the response object to send the hold or an error message
+ * @returns the hold if found, otherwise a 404 error
+ */
+export const getHoldById = (req: Request, res: Response): void => {
+  expireUncollectedHolds();
+  res.json(withPosition(findHoldForRequest(req)));
+};
+
+/**
+ * Place a hold on a book, joining the end of its queue.
+ * Holds can only be placed while no copy of the book is available to check out at the pickup branch,
+ * or at any branch if the hold has no pickup branch, and a patron can only have one active hold on a book.
+ *
+ * @param req the request object containing the book ID in the URL parameters and the patronId and pickupBranchId in the body
+ * @param res the response object to send the created hold or an error message
+ * @returns the created hold with its queue position, otherwise a 400, 404, or 409 error
+ */
+export const createHold = (req: Request, res: Response): void => {
+  const { patronId, pickupBranchId } = req.body;
+
+  if (!findBookById(req.params.id)) {
+    throw new NotFoundError('Book not found');
+  }
+
+  if (!findPatronById(patronId)) {
+    throw new ValidationError([{ field: 'patronId', message: 'Invalid patron ID' }]);
+  }
+
+  if (pickupBranchId !== undefined && !findBranchById(pickupBranchId)) {
+    throw new ValidationError([{ field: 'pickupBranchId', message: 'Invalid branch ID' }]);
+  }
+
+  expireUncollectedHolds();
+  const hasAvailableCopy = listBookCopies().some(copy => copy.bookId === req.params.id
+    && copy.status === 'available'
+    && (pickupBranchId === undefined || copy.currentBranchId === pickupBranchId));
+  if (hasAvailableCopy) {
+    throw new ConflictError('A copy of this book is available; check it out instead of placing a hold');
+  }
+
+  const hasActiveHold = findHoldsByBookId(req.params.id).some(hold => hold.patronId === patronId
+    && activeHoldStatuses.includes(hold.status));
+  if (hasActiveHold) {
+    throw new ConflictError('Patron already has a hold on this book');
+  }
+
+  const newHold: Hold = {
+    id: generateId('holds'),
+    bookId: req.params.id,
+    patronId,
+    placedAt: now().toISOString(),
+    status: 'waiting',
+    pickupBranchId
+  };
+
+  res.status(201).json(withPosition(addHold(newHold)));
+};
+
+/**
+ * Cancel a hold that is waiting, on its way to the pickup branch, or ready for pickup.
+ * If a copy was reserved for the hold, it is passed on to the next patron in line;
+ * a copy that has not been shipped to the pickup branch yet stays where it is,
+ * and one already in transit is passed on when it arrives.
+ *
+ * @param req the request object containing the book ID and hold ID in the URL parameters
+ * @param res the response object to send a 204 status or an error message
+ * @returns a 204 status if successful, otherwise a 404 error, or a 409 error if the hold is no longer active
+ */
+export const cancelHold = (req: Request, res: Response): void => {
+  const hold = findHoldForRequest(req);
+
+  if (!activeHoldStatuses.includes(hold.status)) {
+    throw new ConflictError(`Hold is already ${hold.status}`);
+  }
+
+  updateHold(hold.id, { status: 'cancelled' });
+
+  const reservedCopy = hold.copyId ? findBookCopyById(hold.copyId) : undefined;
+  if (hold.status !== 'waiting' && reservedCopy && reservedCopy.status === 'reserved') {
+    cancelOpenTransfer(reservedCopy.id);
+    releaseCopy(reservedCopy);
+  }
+
+  res.status(204).send();
+};
@@ -0,0 +1,72 @@
+import { Request, Response } from 'express';
+import { findBookById, findBookCopyById, findBranchById } from '../data/storage';
+import { BookCopy } from '../models';
+import { CopyLabel, LABELS_PER_SHEET, LabelFormat, labelMediaTypes, renderLabelSheets } from '../services/labels';
+import { BadRequestError, ValidationError } from '../errors';
+
+/**
+ * The most sheets of labels one request can print.
+ */
+const MAX_LABEL_SHEETS = 10;
+
+/**
+ * Works out the format of a label sheet from the `format` query parameter, or else from the Accept header.
+ *
+ * @param req the request object with the optional format query parameter
+ * @returns the format of the sheet, SVG unless PDF is asked for
+ * @throws BadRequestError if the format query parameter names another format
+ */
+const labelFormat = (req: Request): LabelFormat => {
+  const { format } = req.query;
+  if (format === 'svg' || format === 'pdf') return format;
+  if (format !== undefined) {
+    throw new BadRequestError('format must be one of: svg, pdf');
+  }
+  return req.accepts([labelMediaTypes.svg, labelMediaTypes.pdf]) === labelMediaTypes.pdf ? 'pdf' : 'svg';
+};
+
+/**
+ * Collects what is printed on the label of a copy.
+ *
+ * @param copy the book copy
+ * @returns the label of the copy
+ */
+const labelOf = (copy: BookCopy): CopyLabel => ({
+  barcode: copy.barcode as string,
+  branchCode: copy.branchId ? findBranchById(copy.branchId)?.code : undefined,
+  callNumber: copy.shelfLocation,
+  title: findBookById(copy.bookId)?.title,
+});
+
+/**
+ * Print sheets of labels for a batch of book copies, in the order their IDs are given in the ids query parameter.
+ * The sheets are sent as SVG or PDF, as asked for with the format query parameter or the Accept header.
+ * If no IDs are given, too many are given, or a copy does not exist, a 400 error is returned.
+ *
+ * @param req the request object containing the comma-separated ids and the optional format query parameters
+ * @param res the response object to send the label sheets or an error message
+ */
+export const getBookCopyLabels = (req: Request, res: Response): void => {
+  const format = labelFormat(req);
+  const ids = typeof req.query.ids === 'string'
+    ? req.query.ids.split(',').map(id => id.trim()).filter(id => id.length > 0)
+    : [];
+
+  if (ids.length === 0) {
+    throw new ValidationError([{ field: 'ids', message: 'ids must list the book copies to print labels for' }]);
+  }
+  if (ids.length > MAX_LABEL_SHEETS * LABELS_PER_SHEET) {
+    const message = `ids must list at most ${MAX_LABEL_SHEETS * LABELS_PER_SHEET} book copies (${MAX_LABEL_SHEETS} sheets)`;
+    throw new ValidationError([{ field: 'ids', message }]);
+  }
+
+  const copies = ids.map(id => findBookCopyById(id));
+  const unknown = ids.filter((_, index) => !copies[index]);
+  if (unknown.length > 0) {
+    throw new ValidationError([{ field: 'ids', message: `Unknown book copies: ${unknown.join(', ')}` }]);
+  }
+
+  res.type(labelMediaTypes[format]);
+  res.set('Content-Disposition', `inline; filename="labels.${format}"`);
+  res.send(renderLabelSheets((copies as BookCopy[]).map(labelOf), format));
+};
@@ -0,0 +1,85 @@
+import { Request, Response } from 'express';
+import {
+  findBookCopyById,
+  findPatronById,
+  findLoansByCopyId,
+  findLoansByPatronId
+} from '../data/storage';
+import { Loan } from '../models';
+import { NotFoundError, ValidationError } from '../errors';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Filters a list of loans by the from, to and state query parameters.
+ * from and to select the loans that were open at any time within the date range,
+ * so a loan matches if it was checked out on or before `to` and not returned before `from`.
+ * A `to` given as a plain date includes the whole of that day.
+ * state is either 'open' (not yet returned) or 'closed' (returned).
+ *
+ * @param req the request object containing the from, to and state query parameters
+ * @param loans the loans to filter
+ * @returns the filtered loans
+ * @throws ValidationError if a query parameter is invalid
+ */
+const filterLoans = (req: Request, loans: Loan[]): Loan[] => {
+  const { from, to, state } = req.query;
+
+  const fromTime = from === undefined ? -Infinity : Date.parse(String(from));
+  let toTime = to === undefined ? Infinity : Date.parse(String(to));
+  if (/^\d{4}-\d{2}-\d{2}$/.test(String(to))) {
+    toTime += DAY_MS - 1;
+  }
+  if (Number.isNaN(fromTime) || Number.isNaN(toTime)) {
+    throw new ValidationError(
+      [['from', fromTime], ['to', toTime]]
+        .filter(([, time]) => Number.isNaN(time))
+        .map(([field]) => ({ field: String(field), message: `${field} must be an ISO 8601 date` })),
+      'from and to must be ISO 8601 dates'
+    );
+  }
+
+  if (state !== undefined && state !== 'open' && state !== 'closed') {
+    throw new ValidationError([{ field: 'state', message: 'state must be one of: open, closed' }]);
+  }
+
+  return loans.filter(loan => {
+    if (state === 'open' && loan.returnedAt) return false;
+    if (state === 'closed' && !loan.returnedAt) return false;
+
+    const returnedTime = loan.returnedAt ? Date.parse(loan.returnedAt) : Infinity;
+    return Date.parse(loan.checkedOutAt) <= toTime && returnedTime >= fromTime;
+  });
+};
+
+/**
+ * Retrieve the loan history of a book copy, oldest loan first.
+ * If the book copy is not found, a 404 error is returned.
+ *
+ * @param req the request object containing the book copy ID in the URL parameters and optional from, to and state query parameters
+ * @param res the response object to send the loans or an error message
+ * @returns the matching loans if the book copy exists, otherwise a 400 or 404 error
+ */
+export const getLoansForBookCopy = (req: Request, res: Response): void => {
+  if (!findBookCopyById(req.params.id)) {
+    throw new NotFoundError('Book copy not found');
+  }
+
+  res.json(filterLoans(req, findLoansByCopyId(req.params.id)));
+};
+
+/**
+ * Retrieve the loan history of a patron, oldest loan first.
+ * If the patron is not found, a 404 error is returned.
+ *
+ * @param req the request object containing the patron ID in the URL parameters and optional from, to and state query parameters
+ * @param res the response object to send the loans or an error message
+ * @returns the matching loans if the patron exists, otherwise a 400 or 404 error
+ */
+export const getLoansForPatron = (req: Request, res: Response): void => {
+  if (!findPatronById(req.params.id)) {
+    throw new NotFoundError('Patron not found');
+  }
+
+  res.json(filterLoans(req, findLoansByPatronId(req.params.id)));
+};
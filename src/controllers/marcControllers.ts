@@ -0,0 +1,80 @@
+import { Request, Response, NextFunction } from 'express';
+import { findBookById } from '../data/storage';
+import { MarcFormat, marcMediaTypes, readMarcRecords, toIso2709Record, toMarcXml } from '../services/marc';
+import { bookToMarc, importMarcRecords } from '../services/marcCatalog';
+import { NotAcceptableError, NotFoundError, UnsupportedMediaTypeError } from '../errors';
+
+/**
+ * The media types MARCXML may be sent or requested as.
+ */
+const marcXmlMediaTypes = [marcMediaTypes.marcxml, 'application/xml', 'text/xml'];
+
+/**
+ * Reads the MARC format named by the `format` query parameter.
+ *
+ * @param req the request
+ * @returns the format, or undefined if the parameter is missing or names another format
+ */
+const requestedFormat = (req: Request): MarcFormat | undefined =>
+  req.query.format === 'marc' || req.query.format === 'marcxml' ? req.query.format : undefined;
+
+/**
+ * Import books from an uploaded MARC 21 file, either in the ISO 2709 exchange format or as MARCXML.
+ * Each record creates or updates the book with its ISBN; its subject headings become genres,
+ * and its authors are matched by name against the authors already in the catalog.
+ * The whole record is kept with the book, so exporting the book again keeps the fields the catalog does not map.
+ * With `?dryRun=true` every record is checked but nothing is written.
+ * If the format of the upload is not supported, respond with a 415 status code.
+ *
+ * @param req the request object streaming the MARC file, with optional format and dryRun query parameters
+ * @param res the response object to send the import report or an error message
+ * @param next the function to pass unexpected errors on to
+ * @returns the counts of created, updated and unchanged records, and an error for each record that could not be imported
+ */
+export const importMarcFile = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  let format = requestedFormat(req);
+  if (!format && req.is(marcMediaTypes.marc)) format = 'marc';
+  if (!format && req.is(marcXmlMediaTypes)) format = 'marcxml';
+  if (!format) {
+    next(new UnsupportedMediaTypeError(`Upload MARC records as ${marcMediaTypes.marc} or ${marcMediaTypes.marcxml}`));
+    return;
+  }
+
+  try {
+    const report = await importMarcRecords(readMarcRecords(req, format), req.query.dryRun === 'true');
+    res.json(report);
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * Export a book as a MARC 21 record, as MARCXML or in the ISO 2709 exchange format.
+ * The format is taken from the `format` query parameter, or else from the Accept header, and defaults to MARCXML.
+ * If the book is not found, respond with a 404 status code.
+ * If the record is too long for ISO 2709, respond with a 406 status code.
+ *
+ * @param req the request object containing the book ID in the URL parameters
+ * @param res the response object to send the MARC record or an error message
+ * @returns the MARC record of the book
+ */
+export const getBookAsMarc = (req: Request, res: Response): void => {
+  const book = findBookById(req.params.id);
+  if (!book) {
+    throw new NotFoundError('Book not found');
+  }
+
+  const format = requestedFormat(req)
+    ?? (req.accepts([...marcXmlMediaTypes, marcMediaTypes.marc]) === marcMediaTypes.marc ? 'marc' : 'marcxml');
+  const record = bookToMarc(book);
+  if (format === 'marcxml') {
+    res.type(marcMediaTypes.marcxml).send(toMarcXml([record]));
+    return;
+  }
+
+  try {
+    res.type(marcMediaTypes.marc).send(toIso2709Record(record));
+  } catch (err) {
+    throw new NotAcceptableError(`${(err as Error).message}; request the record as ${marcMediaTypes.marcxml} instead`);
+  }
+};
@@ -0,0 +1,107 @@
+import { Request, Response } from 'express';
+import {
+  listPatrons,
+  findPatronById,
+  findCopiesCheckedOutBy,
+  addPatron,
+  updatePatron,
+  deletePatron,
+  generateId
+} from '../data/storage';
+import { Patron } from '../models';
+import { sendRecord } from '../middleware/conditional';
+import { ConflictError, NotFoundError } from '../errors';
+
+/**
+ * Returns a list of all patrons registered with the library.
+ *
+ * @param res the response object to send the list of patrons
+ */
+export const getAllPatrons = (_: Request, res: Response): void => {
+  res.json(listPatrons());
+};
+
+/**
+ * Retrieves a single patron by ID.
+ *
+ * @param req the request object containing the patron ID as a path parameter
+ * @param res the response object to send the patron data or an error message
+ * @returns the patron data if found, otherwise a 404 error response
+ */
+export const getPatronById = (req: Request, res: Response): void => {
+  const patron = findPatronById(req.params.id);
+  if (!patron) {
+    throw new NotFoundError('Patron not found');
+  }
+  sendRecord(req, res, patron);
+};
+
+/**
+ * Registers a new patron.
+ * The body is validated against the patron schema before this runs, so first name and email are present.
+ * loanLimit is optional and overrides the default borrowing limit of the loan policy.
+ *
+ * @param req the request object containing the patron's first name, last name, email, and optional loan limit in the body
+ * @param res the response object to send the created patron data or an error message
+ * @returns an HTTP 201 response with the created patron data, or a 400 error response from schema validation
+ */
+export const createPatron = (req: Request, res: Response): void => {
+  const { firstName, lastName, email, loanLimit } = req.body;
+
+  const newPatron: Patron = {
+    id: generateId('patrons'),
+    firstName,
+    lastName,
+    email,
+    loanLimit
+  };
+
+  sendRecord(req, res.status(201), addPatron(newPatron));
+};
+
+/**
+ * Updates an existing patron's details by ID.
+ * The body is validated against the patron schema before this runs, so first name and email are present.
+ *
+ * @param req the request object containing the patron ID as a path parameter and the updated details in the body
+ * @param res the response object to send the updated patron data or an error message
+ * @returns the updated patron data if found, otherwise a 404 error response; or a 400 error response from schema validation
+ */
+export const updatePatronById = (req: Request, res: Response): void => {
+  const { firstName, lastName, email, loanLimit } = req.body;
+
+  const updatedPatron = updatePatron(req.params.id, {
+    firstName,
+    lastName,
+    email,
+    loanLimit
+  });
+
+  if (!updatedPatron) {
+    throw new NotFoundError('Patron not found');
+  }
+
+  sendRecord(req, res, updatedPatron);
+};
+
+/**
+ * Deletes an existing patron by ID, moving them to the trash.
+ * A patron who still has book copies checked out cannot be deleted.
+ *
+ * @param req the request object containing the patron ID as a path parameter
+ * @param res the response object to send a success status or an error message
+ * @returns a 204 response if deletion was successful, a 404 error response if the patron was not found,
+ * or a 409 error response if the patron still has copies checked out
+ */
+export const deletePatronById = (req: Request, res: Response): void => {
+  if (!findPatronById(req.params.id)) {
+    throw new NotFoundError('Patron not found');
+  }
+
+  if (findCopiesCheckedOutBy(req.params.id).length > 0) {
+    throw new ConflictError('Patron still has book copies checked out');
+  }
+
+  deletePatron(req.params.id);
+  res.status(204).send();
+};
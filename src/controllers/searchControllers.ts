@@ -0,0 +1,47 @@
+import { Request, Response } from 'express';
+import { searchBooks } from '../services/search';
+import { parsePaging } from '../middleware/listQuery';
+import { FieldError } from '../models/schema';
+import { ValidationError } from '../errors';
+
+/**
+ * The number of results per page when a search does not ask for a page size.
+ */
+const DEFAULT_SEARCH_LIMIT = 20;
+
+/**
+ * Search the catalog for books matching every word of the `q` query parameter.
+ * Results can be narrowed to one author or genre with the `authorId` and `genreId` query parameters,
+ * and are returned a page at a time, most relevant first, along with facet counts over every matching book.
+ * If the query is missing or has no words, or the paging is invalid, respond with a 400 status code.
+ *
+ * @param req the request object containing the search query, filters, and paging in the query parameters
+ * @param res the response object to send the page of results or an error message
+ * @returns the page of matching books with their scores, the total number of matches, and the facets
+ */
+export const searchCatalog = (req: Request, res: Response): void => {
+  const errors: FieldError[] = [];
+  const query = typeof req.query.q === 'string' ? req.query.q.trim() : '';
+  if (!query) {
+    errors.push({ field: 'q', message: 'q is required' });
+  }
+  const { limit, page } = parsePaging(req.query, errors, DEFAULT_SEARCH_LIMIT);
+
+  if (errors.length > 0) {
+    throw new ValidationError(errors);
+  }
+
+  const result = searchBooks(query, {
+    authorId: typeof req.query.authorId === 'string' ? req.query.authorId : undefined,
+    genreId: typeof req.query.genreId === 'string' ? req.query.genreId : undefined,
+  });
+
+  res.json({
+    query,
+    total: result.total,
+    page,
+    limit,
+    results: result.hits.slice((page - 1) * limit, page * limit),
+    facets: result.facets
+  });
+};
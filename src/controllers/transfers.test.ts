@@ -0,0 +1,119 @@
+import request from 'supertest';
+import app from '../app';
+import { findBookCopyById, findHoldById, findTransferById, findTransfersByCopyId } from '../data/storage';
+import { getHoldQueue } from '../services/holds';
+import { newBook, newBranch, newCopy, newPatron, signIn } from '../testing/fixtures';
+
+const { auth } = signIn('admin');
+
+const post = (path: string, body?: object) => request(app).post(path).set('Authorization', auth).send(body);
+
+describe('transfers between branches', () => {
+  it('lends a copy to another branch: requested, shipped, then received', async () => {
+    const home = newBranch();
+    const other = newBranch();
+    const copy = newCopy(newBook(), { branchId: home.id });
+
+    const requested = await post(`/book-copies/${copy.id}/transfers`, { toBranchId: other.id });
+    expect(requested.status).toBe(201);
+    expect(requested.body).toMatchObject({ status: 'requested', fromBranchId: home.id, toBranchId: other.id, kind: 'temporary' });
+    expect(findBookCopyById(copy.id)).toMatchObject({ status: 'available', currentBranchId: home.id });
+
+    const shipped = await post(`/transfers/${requested.body.id}/ship`);
+    expect(shipped.body.status).toBe('shipped');
+    expect(findBookCopyById(copy.id)?.status).toBe('in-transit');
+    expect(findBookCopyById(copy.id)?.currentBranchId).toBeUndefined();
+
+    const received = await post(`/transfers/${requested.body.id}/receive`);
+    expect(received.body.status).toBe('received');
+    expect(findBookCopyById(copy.id)).toMatchObject({ status: 'available', branchId: home.id, currentBranchId: other.id });
+  });
+
+  it('moves the home branch too with a permanent transfer', async () => {
+    const home = newBranch();
+    const other = newBranch();
+    const copy = newCopy(newBook(), { branchId: home.id });
+
+    const { body: transfer } = await post(`/book-copies/${copy.id}/transfers`, { toBranchId: other.id, kind: 'permanent' });
+    await post(`/transfers/${transfer.id}/ship`);
+    await post(`/transfers/${transfer.id}/receive`);
+
+    expect(findBookCopyById(copy.id)).toMatchObject({ branchId: other.id, currentBranchId: other.id });
+  });
+
+  it('refuses to receive a transfer that has not been shipped, or to ship one twice', async () => {
+    const copy = newCopy(newBook());
+    const { body: transfer } = await post(`/book-copies/${copy.id}/transfers`, { toBranchId: newBranch().id });
+
+    expect((await post(`/transfers/${transfer.id}/receive`)).status).toBe(409);
+    expect((await post(`/transfers/${transfer.id}/ship`)).status).toBe(200);
+    expect((await post(`/transfers/${transfer.id}/ship`)).status).toBe(409);
+  });
+
+  it('refuses a second transfer of a copy that is already being moved', async () => {
+    const copy = newCopy(newBook());
+    await post(`/book-copies/${copy.id}/transfers`, { toBranchId: newBranch().id });
+
+    const res = await post(`/book-copies/${copy.id}/transfers`, { toBranchId: newBranch().id });
+
+    expect(res.status).toBe(409);
+  });
+
+  it('cancels a requested transfer, leaving the copy where it is', async () => {
+    const home = newBranch();
+    const copy = newCopy(newBook(), { branchId: home.id });
+    const { body: transfer } = await post(`/book-copies/${copy.id}/transfers`, { toBranchId: newBranch().id });
+
+    const res = await post(`/transfers/${transfer.id}/cancel`);
+
+    expect(res.body.status).toBe('cancelled');
+    expect(findBookCopyById(copy.id)).toMatchObject({ status: 'available', currentBranchId: home.id });
+  });
+
+  it('cancels the transfers of copies deleted along with their book', async () => {
+    const book = newBook();
+    const copy = newCopy(book);
+    const { body: transfer } = await post(`/book-copies/${copy.id}/transfers`, { toBranchId: newBranch().id });
+
+    const res = await request(app).delete(`/books/${book.id}?cascade=delete`).set('Authorization', auth);
+
+    expect(res.status).toBe(204);
+    expect(findTransferById(transfer.id)?.status).toBe('cancelled');
+  });
+
+  it('puts a hold back in the queue when the copy sent for it is lost in transit', async () => {
+    const home = newBranch();
+    const pickup = newBranch();
+    const book = newBook();
+    const copy = newCopy(book, { branchId: home.id });
+    const [borrower, waiting] = [newPatron(), newPatron()];
+    await post(`/book-copies/${copy.id}/checkout`, { patronId: borrower.id }).expect(200);
+    const { body: hold } = await post(`/books/${book.id}/holds`, { patronId: waiting.id, pickupBranchId: pickup.id })
+      .expect(201);
+
+    await post(`/book-copies/${copy.id}/return`).expect(200);
+    expect(findHoldById(hold.id)).toMatchObject({ status: 'in-transit', copyId: copy.id });
+    const [transfer] = findTransfersByCopyId(copy.id);
+    await post(`/transfers/${transfer.id}/ship`).expect(200);
+
+    await post(`/book-copies/${copy.id}/transitions`, { to: 'lost' }).expect(200);
+
+    expect(findTransferById(transfer.id)?.status).toBe('cancelled');
+    const requeued = findHoldById(hold.id);
+    expect(requeued?.status).toBe('waiting');
+    expect(requeued?.copyId).toBeUndefined();
+    expect(getHoldQueue(book.id).map(queued => queued.id)).toEqual([hold.id]);
+  });
+
+  it('refuses to restore a copy whose branch has since been deleted', async () => {
+    const branch = newBranch();
+    const copy = newCopy(newBook(), { branchId: branch.id });
+    await request(app).delete(`/book-copies/${copy.id}`).set('Authorization', auth).expect(204);
+    await request(app).delete(`/branches/${branch.id}`).set('Authorization', auth).expect(204);
+
+    const res = await post(`/book-copies/${copy.id}/restore`);
+
+    expect(res.status).toBe(409);
+    expect(res.body.conflicts).toEqual([`Branch ${branch.id} of copy ${copy.id} no longer exists`]);
+  });
+});
@@ -0,0 +1,200 @@
+import { Request, Response } from 'express';
+import {
+  listTransfers,
+  findBookCopyById,
+  findBranchById,
+  findTransferById,
+  findTransfersByCopyId,
+  findOpenTransferByCopyId,
+  updateTransfer
+} from '../data/storage';
+import { BookCopy, Transfer } from '../models';
+import { now } from '../services/clock';
+import { shelveArrivedCopy } from '../services/holds';
+import { receiveTransfer, requestTransfer, shipTransfer } from '../services/transfers';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+
+/**
+ * Finds the transfer a request names.
+ *
+ * @param req the request object containing the transfer ID in the URL parameters
+ * @returns the transfer
+ * @throws NotFoundError if there is no such transfer
+ */
+const findTransferForRequest = (req: Request): Transfer => {
+  const transfer = findTransferById(req.params.id);
+  if (!transfer) {
+    throw new NotFoundError('Transfer not found');
+  }
+  return transfer;
+};
+
+/**
+ * Finds the copy a transfer moves.
+ *
+ * @param transfer the transfer
+ * @returns the book copy
+ * @throws ConflictError if the copy has been deleted
+ */
+const findTransferredCopy = (transfer: Transfer): BookCopy => {
+  const copy = findBookCopyById(transfer.copyId);
+  if (!copy) {
+    throw new ConflictError(`Book copy ${transfer.copyId} no longer exists`);
+  }
+  return copy;
+};
+
+/**
+ * Retrieve the transfers between branches, newest first.
+ * Filter by status with the status query parameter, and by a branch they leave or go to with the branchId query parameter.
+ *
+ * @param req the request object containing the optional status and branchId query parameters
+ * @param res the response object to send the transfers
+ */
+export const getAllTransfers = (req: Request, res: Response): void => {
+  const { status, branchId } = req.query;
+
+  const transfers = listTransfers()
+    .filter(transfer => status === undefined || transfer.status === status)
+    .filter(transfer => branchId === undefined || transfer.fromBranchId === branchId || transfer.toBranchId === branchId)
+    .reverse();
+
+  res.json(transfers);
+};
+
+/**
+ * Retrieve a transfer by its ID.
+ * If the transfer is not found, a 404 error is returned.
+ *
+ * @param req the request object containing the transfer ID in the URL parameters
+ * @param res the response object to send the transfer or an error message
+ */
+export const getTransferById = (req: Request, res: Response): void => {
+  res.json(findTransferForRequest(req));
+};
+
+/**
+ * Retrieve every transfer of a book copy, oldest first.
+ * If the book copy is not found, a 404 error is returned.
+ *
+ * @param req the request object containing the book copy ID in the URL parameters
+ * @param res the response object to send the transfers or an error message
+ */
+export const getTransfersForBookCopy = (req: Request, res: Response): void => {
+  if (!findBookCopyById(req.params.id)) {
+    throw new NotFoundError('Book copy not found');
+  }
+
+  res.json(findTransfersByCopyId(req.params.id));
+};
+
+/**
+ * Request that an available book copy be sent to another branch.
+ * The request body has already been validated against the transfer request schema;
+ * the branch must exist and differ from the branch the copy is at, and the copy must not already be on its way somewhere.
+ * The copy stays available where it is until the transfer is shipped.
+ *
+ * @param req the request object containing the book copy ID in the URL parameters and the branch and kind in the body
+ * @param res the response object to send the requested transfer or an error message
+ * @returns the transfer with a 201 status if successful, otherwise a 400, 404, or 409 error
+ */
+export const createTransfer = (req: Request, res: Response): void => {
+  const { toBranchId, kind } = req.body;
+
+  const bookCopy = findBookCopyById(req.params.id);
+  if (!bookCopy) {
+    throw new NotFoundError('Book copy not found');
+  }
+
+  if (!findBranchById(toBranchId)) {
+    throw new ValidationError([{ field: 'toBranchId', message: 'Invalid branch ID' }]);
+  }
+
+  if (!bookCopy.currentBranchId) {
+    throw new ConflictError('Book copy is not at a branch');
+  }
+
+  if (bookCopy.currentBranchId === toBranchId) {
+    throw new ConflictError('Book copy is already at that branch');
+  }
+
+  if (findOpenTransferByCopyId(bookCopy.id)) {
+    throw new ConflictError('Book copy is already being transferred');
+  }
+
+  if (bookCopy.status !== 'available') {
+    throw new ConflictError(`Only available book copies can be transferred; this one is ${bookCopy.status}`);
+  }
+
+  res.status(201).json(requestTransfer(bookCopy, toBranchId, kind));
+};
+
+/**
+ * Record that a requested transfer has left its branch, which puts the copy in transit.
+ * If the transfer is not found, a 404 error is returned;
+ * if it is no longer requested, or the copy has since been lent or taken out of circulation, a 409 error is returned.
+ *
+ * @param req the request object containing the transfer ID in the URL parameters
+ * @param res the response object to send the shipped transfer or an error message
+ */
+export const shipTransferById = (req: Request, res: Response): void => {
+  const transfer = findTransferForRequest(req);
+
+  if (transfer.status !== 'requested') {
+    throw new ConflictError(`Transfer is already ${transfer.status}`);
+  }
+
+  const bookCopy = findTransferredCopy(transfer);
+  if (bookCopy.status !== 'available' && bookCopy.status !== 'reserved') {
+    throw new ConflictError(`Book copy cannot be shipped while it is ${bookCopy.status}`);
+  }
+
+  res.json(shipTransfer(transfer, bookCopy));
+};
+
+/**
+ * Record that a shipped transfer has arrived at its branch.
+ * The copy is now at that branch, and belongs to it too if the transfer was permanent.
+ * A copy sent for a hold is reserved for its patron; any other copy is handed to the hold queue or becomes available.
+ * If the transfer is not found, a 404 error is returned; if it has not been shipped, a 409 error is returned.
+ *
+ * @param req the request object containing the transfer ID in the URL parameters
+ * @param res the response object to send the received transfer or an error message
+ */
+export const receiveTransferById = (req: Request, res: Response): void => {
+  const transfer = findTransferForRequest(req);
+
+  if (transfer.status !== 'shipped') {
+    throw new ConflictError(transfer.status === 'requested'
+      ? 'Transfer has not been shipped yet'
+      : `Transfer is already ${transfer.status}`);
+  }
+
+  const bookCopy = findTransferredCopy(transfer);
+  const { transfer: receivedTransfer, location } = receiveTransfer(transfer, bookCopy);
+  shelveArrivedCopy(bookCopy, receivedTransfer, location);
+
+  res.json(receivedTransfer);
+};
+
+/**
+ * Cancel a transfer that has not been shipped yet; the copy stays where it is.
+ * A transfer that takes a copy to a hold's pickup branch is cancelled with the hold instead.
+ * Copies lost or damaged in transit end their transfer when they are marked so.
+ *
+ * @param req the request object containing the transfer ID in the URL parameters
+ * @param res the response object to send the cancelled transfer or an error message
+ */
+export const cancelTransferById = (req: Request, res: Response): void => {
+  const transfer = findTransferForRequest(req);
+
+  if (transfer.status !== 'requested') {
+    throw new ConflictError(`Only requested transfers can be cancelled; this one is ${transfer.status}`);
+  }
+
+  if (transfer.holdId) {
+    throw new ConflictError(`Transfer is for hold ${transfer.holdId}; cancel the hold instead`);
+  }
+
+  res.json(updateTransfer(transfer.id, { status: 'cancelled', cancelledAt: now().toISOString() }));
+};
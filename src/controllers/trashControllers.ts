@@ -0,0 +1,75 @@
+import { Request, Response, RequestHandler } from 'express';
+import { findDeletedById, TrashCollection } from '../data/storage';
+import { Versioned } from '../models';
+import { trashTypes } from '../models/schemas';
+import { sendList } from '../middleware/listQuery';
+import { sendRecord } from '../middleware/conditional';
+import { listTrash, restoreConflicts, restoreFromTrash } from '../services/trash';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+
+/**
+ * Retrieve the records in the trash, most recently deleted first, a page at a time.
+ * The type query parameter (e.g. books) narrows the list to one collection; if it is unknown, respond with a 400 status code.
+ *
+ * @param req the request object containing the type and paging in the query parameters
+ * @param res the response object to send the page of deleted records or an error message
+ * @returns the deleted records, with the total number in the X-Total-Count header
+ */
+export const getTrash = (req: Request, res: Response): void => {
+  const { type } = req.query;
+  if (type !== undefined && !trashTypes.includes(type as TrashCollection)) {
+    const message = `type must be one of: ${trashTypes.join(', ')}`;
+    throw new ValidationError([{ field: 'type', message }]);
+  }
+  sendList(req, res, listTrash(type as TrashCollection | undefined));
+};
+
+/**
+ * Creates the handler that takes a record of one collection out of the trash.
+ * If the record is not in the trash, it responds with a 404 status code; if restoring it would leave it referring
+ * to records that no longer exist, or clash with a record created since, it responds with a 409 status code
+ * listing the problems. Otherwise it responds with the restored record.
+ *
+ * @param type the collection of the records
+ * @param label the name of a record of the collection, used in error messages
+ * @returns the restore handler
+ */
+const restoreById = (type: TrashCollection, label: string): RequestHandler => (req: Request, res: Response): void => {
+  const record = findDeletedById(type, req.params.id);
+  if (!record) {
+    throw new NotFoundError(`${label} not found in the trash`);
+  }
+
+  const conflicts = restoreConflicts(type, record);
+  if (conflicts.length > 0) {
+    throw new ConflictError(`${label} cannot be restored: ${conflicts.join('; ')}`, { conflicts });
+  }
+
+  sendRecord(req, res, restoreFromTrash(type, record.id) as Versioned);
+};
+
+/**
+ * Restore a deleted book, with the copies that were deleted with it.
+ * Holds cancelled when the book was deleted stay cancelled.
+ */
+export const restoreBookById = restoreById('books', 'Book');
+
+/**
+ * Restore a deleted author. Books the author was detached from when it was deleted are not changed.
+ */
+export const restoreAuthorById = restoreById('authors', 'Author');
+
+/**
+ * Restore a deleted genre. Books the genre was detached from when it was deleted are not changed.
+ */
+export const restoreGenreById = restoreById('genres', 'Genre');
+
+/**
+ * Restore a deleted book copy, as long as its book exists.
+ */
+export const restoreBookCopyById = restoreById('bookCopies', 'Book copy');
+
+/**
+ * Restore a deleted patron.
+ */
+export const restorePatronById = restoreById('patrons', 'Patron');
@@ -0,0 +1,101 @@
+import { Request, Response, NextFunction } from 'express';
+import {
+  listUsers,
+  findUserById,
+  findUserByUsername,
+  findPatronById,
+  addUser,
+  deleteUser,
+  generateId
+} from '../data/storage';
+import { User } from '../models';
+import { sendRecord } from '../middleware/conditional';
+import { hashPassword, toPublicUser } from '../services/auth';
+import { now } from '../services/clock';
+import { ConflictError, NotFoundError, ValidationError } from '../errors';
+
+/**
+ * Returns a list of every user who can sign in.
+ *
+ * @param res the response object to send the list of users
+ */
+export const getAllUsers = (_: Request, res: Response): void => {
+  res.json(listUsers().map(toPublicUser));
+};
+
+/**
+ * Retrieves a single user by ID.
+ *
+ * @param req the request object containing the user ID as a path parameter
+ * @param res the response object to send the user or an error message
+ * @returns the user if found, otherwise a 404 error response
+ */
+export const getUserById = (req: Request, res: Response): void => {
+  const user = findUserById(req.params.id);
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+  sendRecord(req, res, toPublicUser(user));
+};
+
+/**
+ * Creates a user who can sign in, with a role.
+ * The body is validated against the user schema before this runs.
+ * A user with the patron role must be linked to an existing patron record, and only patrons may be linked to one.
+ * If the username is already taken, respond with a 409 status code.
+ *
+ * @param req the request object containing the username, password, role and patron ID in the body
+ * @param res the response object to send the created user or an error message
+ * @param next the function to pass unexpected errors on to
+ * @returns an HTTP 201 response with the created user, otherwise a 400 or 409 error
+ */
+export const createUser = async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+  const { username, password, role, patronId } = req.body;
+
+  if (role === 'patron' ? !findPatronById(patronId) : patronId !== undefined) {
+    const message = role === 'patron' ? 'A patron user needs the ID of an existing patron' : 'Only patron users have a patron ID';
+    next(new ValidationError([{ field: 'patronId', message }]));
+    return;
+  }
+
+  try {
+    // Hash first, so no other request can take the username between the check and the insert.
+    const passwordHash = await hashPassword(password);
+    if (findUserByUsername(username)) {
+      throw new ConflictError(`The username ${username} is already taken`);
+    }
+
+    const newUser: User = {
+      id: generateId('users'),
+      username,
+      passwordHash,
+      role,
+      patronId,
+      createdAt: now().toISOString()
+    };
+    sendRecord(req, res.status(201), toPublicUser(addUser(newUser)));
+  } catch (err) {
+    next(err);
+  }
+};
+
+/**
+ * Deletes a user by ID, along with their API keys. The last admin cannot be deleted.
+ *
+ * @param req the request object containing the user ID as a path parameter
+ * @param res the response object to send a 204 status or an error message
+ * @returns a 204 status if successful, otherwise a 404 error, or a 409 error for the last admin
+ */
+export const deleteUserById = (req: Request, res: Response): void => {
+  const user = findUserById(req.params.id);
+  if (!user) {
+    throw new NotFoundError('User not found');
+  }
+
+  if (user.role === 'admin' && listUsers().filter(other => other.role === 'admin').length === 1) {
+    throw new ConflictError('The last admin cannot be deleted');
+  }
+
+  deleteUser(user.id);
+  res.status(204).send();
+};
@@ -0,0 +1,91 @@
+import { randomBytes } from 'crypto';
+import { idPolicy } from '../config';
+import { now } from '../services/clock';
+
+/**
+ * Generators of the IDs of new records. Every generator starts its IDs with the time they were made,
+ * so IDs sort in the order they were made, even when several are made in the same millisecond.
+ */
+
+/**
+ * The alphabet of ULIDs: Crockford's base 32, without I, L, O and U, which are easily misread.
+ */
+const CROCKFORD_BASE32 = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+
+/**
+ * Writes a time in milliseconds as a 48-bit big-endian number.
+ *
+ * @param time the time in milliseconds since the epoch
+ * @returns the six bytes of the time
+ */
+const timeBytes = (time: number): number[] => {
+  const bytes: number[] = [];
+  for (let index = 0, rest = time; index < 6; index += 1, rest = Math.floor(rest / 256)) {
+    bytes.unshift(rest % 256);
+  }
+  return bytes;
+};
+
+let ulidTime = -1;
+let ulidRandom: number[] = [];
+
+/**
+ * Makes up a ULID: 10 characters of time in milliseconds and 16 random characters, in Crockford's base 32.
+ * ULIDs made in the same millisecond take the random part of the previous one plus one, as the ULID spec asks,
+ * and a ULID is never given an earlier time than the previous one, even if the clock goes back.
+ *
+ * @returns the ULID, e.g. 01JAB8Y4Q5V6Z8N9XKZ3T7R2WD
+ */
+export const createUlid = (): string => {
+  let time = Math.max(now().getTime(), ulidTime);
+  if (time === ulidTime && ulidRandom.every(digit => digit === 31)) time += 1;
+  if (time === ulidTime) {
+    const last = ulidRandom.map(digit => digit === 31).lastIndexOf(false);
+    ulidRandom = ulidRandom.map((digit, index) => (index < last ? digit : index === last ? digit + 1 : 0));
+  } else {
+    ulidRandom = Array.from(randomBytes(16), byte => byte % 32);
+  }
+  ulidTime = time;
+
+  let encodedTime = '';
+  for (let index = 0, rest = time; index < 10; index += 1, rest = Math.floor(rest / 32)) {
+    encodedTime = CROCKFORD_BASE32[rest % 32] + encodedTime;
+  }
+  return encodedTime + ulidRandom.map(digit => CROCKFORD_BASE32[digit]).join('');
+};
+
+let uuidTime = -1;
+let uuidCounter = 0;
+
+/**
+ * Makes up a version 7 UUID (RFC 9562): 48 bits of time in milliseconds, a 12-bit counter and 62 random bits.
+ * The counter starts at a random value below 2048 every millisecond and counts up within it;
+ * should it run out, the UUID borrows the next millisecond. Like ULIDs, UUIDs never go back in time.
+ *
+ * @returns the UUID, e.g. 0192b1e4-5a6c-7b3e-9f21-4c8d2e6a1b07
+ */
+export const createUuidV7 = (): string => {
+  const bytes = randomBytes(16);
+  let time = Math.max(now().getTime(), uuidTime);
+  if (time === uuidTime && uuidCounter === 0xfff) time += 1;
+  uuidCounter = time === uuidTime ? uuidCounter + 1 : ((bytes[6] & 0x07) << 8) | bytes[7];
+  uuidTime = time;
+
+  timeBytes(time).forEach((byte, index) => {
+    bytes[index] = byte;
+  });
+  bytes[6] = 0x70 | (uuidCounter >> 8);
+  bytes[7] = uuidCounter & 0xff;
+  bytes[8] = 0x80 | (bytes[8] & 0x3f);
+
+  const hex = bytes.toString('hex');
+  return [hex.slice(0, 8), hex.slice(8, 12), hex.slice(12, 16), hex.slice(16, 20), hex.slice(20)].join('-');
+};
+
+/**
+ * The ID generators to choose from with the ID policy.
+ */
+export const idGenerators: Record<typeof idPolicy.strategy, () => string> = {
+  ulid: createUlid,
+  uuidv7: createUuidV7,
+};
@@ -0,0 +1,108 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createJsonLinesRepository } from './repository';
+
+interface Note {
+  id: string;
+  text: string;
+}
+
+let dir: string;
+let journal: string;
+
+beforeEach(() => {
+  dir = fs.mkdtempSync(path.join(os.tmpdir(), 'repository-test-'));
+  journal = path.join(dir, 'notes.jsonl');
+});
+
+afterEach(() => fs.rmSync(dir, { recursive: true, force: true }));
+
+const lines = (): unknown[] => fs.readFileSync(journal, 'utf8').split('\n').filter(Boolean).map(line => JSON.parse(line));
+
+describe('createJsonLinesRepository', () => {
+  it('creates the journal and its directory when there are none', () => {
+    journal = path.join(dir, 'nested', 'notes.jsonl');
+
+    const notes = createJsonLinesRepository<Note>(journal);
+
+    expect(notes.findAll()).toEqual([]);
+    expect(fs.readFileSync(journal, 'utf8')).toBe('');
+  });
+
+  it('replays the journal into the records it was left with', () => {
+    const notes = createJsonLinesRepository<Note>(journal);
+    notes.insert({ id: 'a', text: 'first' });
+    notes.insert({ id: 'b', text: 'second' });
+    notes.insert({ id: 'c', text: 'third' });
+    notes.update('a', { text: 'first, edited' });
+    notes.remove('b');
+
+    const reopened = createJsonLinesRepository<Note>(journal);
+
+    expect(reopened.findAll()).toEqual([{ id: 'a', text: 'first, edited' }, { id: 'c', text: 'third' }]);
+    expect(reopened.findById('b')).toBeUndefined();
+  });
+
+  it('journals each change as it is made, before the repository is opened again', () => {
+    const notes = createJsonLinesRepository<Note>(journal);
+    notes.insert({ id: 'a', text: 'first' });
+    notes.update('a', { text: 'edited' });
+    notes.remove('a');
+
+    expect(lines()).toEqual([
+      { op: 'put', value: { id: 'a', text: 'first' } },
+      { op: 'put', value: { id: 'a', text: 'edited' } },
+      { op: 'delete', id: 'a' },
+    ]);
+  });
+
+  it('does not journal updates and removals of records it does not have', () => {
+    const notes = createJsonLinesRepository<Note>(journal);
+
+    expect(notes.update('missing', { text: 'edited' })).toBeNull();
+    expect(notes.remove('missing')).toBe(false);
+    expect(lines()).toEqual([]);
+  });
+
+  it('compacts the journal to one line per record on startup', () => {
+    const notes = createJsonLinesRepository<Note>(journal);
+    notes.insert({ id: 'a', text: 'first' });
+    notes.insert({ id: 'b', text: 'second' });
+    notes.update('a', { text: 'edited' });
+    notes.update('a', { text: 'edited again' });
+    notes.remove('b');
+    expect(lines()).toHaveLength(5);
+
+    createJsonLinesRepository<Note>(journal);
+
+    expect(lines()).toEqual([{ op: 'put', value: { id: 'a', text: 'edited again' } }]);
+    expect(fs.readdirSync(dir)).toEqual(['notes.jsonl']);
+  });
+
+  it('ignores a torn final line, as a crash in the middle of a write leaves', () => {
+    fs.writeFileSync(journal, [
+      JSON.stringify({ op: 'put', value: { id: 'a', text: 'first' } }),
+      JSON.stringify({ op: 'put', value: { id: 'b', text: 'second' } }).slice(0, 20),
+    ].join('\n'));
+
+    const notes = createJsonLinesRepository<Note>(journal);
+    notes.insert({ id: 'c', text: 'third' });
+
+    expect(notes.findAll().map(note => note.id)).toEqual(['a', 'c']);
+    expect(createJsonLinesRepository<Note>(journal).findAll().map(note => note.id)).toEqual(['a', 'c']);
+  });
+
+  it('refuses to start from a journal that is corrupt before its final line', () => {
+    const contents = [
+      JSON.stringify({ op: 'put', value: { id: 'a', text: 'first' } }),
+      '{"op":"put","value":',
+      JSON.stringify({ op: 'put', value: { id: 'b', text: 'second' } }),
+      '',
+    ].join('\n');
+    fs.writeFileSync(journal, contents);
+
+    expect(() => createJsonLinesRepository<Note>(journal)).toThrow(`Corrupt journal entry on line 2 of ${journal}`);
+    expect(fs.readFileSync(journal, 'utf8')).toBe(contents);
+  });
+});
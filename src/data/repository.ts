@@ -0,0 +1,303 @@
+import fs from 'fs';
+import path from 'path';
+import { Deletable, Versioned } from '../models';
+
+/**
+ * Any record that can be kept in a repository.
+ */
+export interface Entity {
+  id: string;
+}
+
+/**
+ * A collection of records of one type.
+ * Records are kept in insertion order, and updates keep a record in its place.
+ */
+export interface Repository<T extends Entity> {
+  /**
+   * @returns every record in the repository, in insertion order
+   */
+  findAll(): T[];
+  /**
+   * @param id the id to search for
+   * @returns the record with the given id, otherwise undefined
+   */
+  findById(id: string): T | undefined;
+  /**
+   * @param item the record to add; its id must not already be in use
+   * @returns the record as stored
+   */
+  insert(item: T): T;
+  /**
+   * @param id the id of the record to update
+   * @param changes the fields to overwrite
+   * @returns the updated record, or null if there is no record with the given id
+   */
+  update(id: string, changes: Partial<T>): T | null;
+  /**
+   * @param id the id of the record to remove
+   * @returns true if the record was found and removed, otherwise false
+   */
+  remove(id: string): boolean;
+}
+
+/**
+ * A repository whose removed records are kept in a trash, hidden from every other method, until they are purged.
+ */
+export interface TrashableRepository<T extends Entity> extends Repository<T> {
+  /**
+   * @param id the id of the record to move to the trash
+   * @param deletedWith the id of the record whose deletion takes this one with it, if any
+   * @returns true if the record was found and moved to the trash, otherwise false
+   */
+  remove(id: string, deletedWith?: string): boolean;
+  /**
+   * @returns every record in the trash, in insertion order
+   */
+  findDeleted(): T[];
+  /**
+   * @param id the id to search for
+   * @returns the record in the trash with the given id, otherwise undefined
+   */
+  findDeletedById(id: string): T | undefined;
+  /**
+   * @param id the id of the record to take out of the trash
+   * @returns the restored record, or null if there is no record in the trash with the given id
+   */
+  restore(id: string): T | null;
+  /**
+   * @param id the id of the record in the trash to remove for good
+   * @returns true if the record was found in the trash and removed, otherwise false
+   */
+  purge(id: string): boolean;
+}
+
+/**
+ * Creates a repository that keeps its records in memory only.
+ * Everything is lost when the process exits, which makes it a good fit for tests and demos.
+ *
+ * @returns an empty in-memory repository
+ */
+export const createInMemoryRepository = <T extends Entity>(): Repository<T> => {
+  const items = new Map<string, T>();
+
+  return {
+    findAll: () => Array.from(items.values()),
+    findById: (id) => items.get(id),
+    insert: (item) => {
+      items.set(item.id, item);
+      return item;
+    },
+    update: (id, changes) => {
+      const existing = items.get(id);
+      if (!existing) return null;
+
+      const updated = { ...existing, ...changes };
+      items.set(id, updated);
+      return updated;
+    },
+    remove: (id) => items.delete(id),
+  };
+};
+
+/**
+ * One line of a repository journal: either the full new state of a record, or the removal of one.
+ */
+type JournalEntry<T> = { op: 'put'; value: T } | { op: 'delete'; id: string };
+
+/**
+ * Writes a file atomically by writing to a temporary file, flushing it to disk, and renaming it over the target.
+ *
+ * @param filePath the file to write
+ * @param contents the new contents of the file
+ */
+const writeFileAtomically = (filePath: string, contents: string): void => {
+  const tempPath = `${filePath}.${process.pid}.tmp`;
+  const fd = fs.openSync(tempPath, 'w');
+  try {
+    fs.writeSync(fd, contents);
+    fs.fsyncSync(fd);
+  } finally {
+    fs.closeSync(fd);
+  }
+  fs.renameSync(tempPath, filePath);
+};
+
+/**
+ * Creates a repository that survives restarts by journaling every change to a JSON Lines file.
+ * On startup the journal is replayed into memory and then compacted, atomically, to one line per record.
+ * Each change is appended and flushed to disk before the call returns; a torn final line left by a crash is ignored.
+ *
+ * @param filePath the journal file of the repository
+ * @returns a repository holding the records found in the journal
+ */
+export const createJsonLinesRepository = <T extends Entity>(filePath: string): Repository<T> => {
+  const replayed = new Map<string, T>();
+
+  if (fs.existsSync(filePath)) {
+    const lines = fs.readFileSync(filePath, 'utf8').split('\n').filter(line => line.trim());
+    lines.forEach((line, index) => {
+      let entry: JournalEntry<T>;
+      try {
+        entry = JSON.parse(line);
+      } catch (err) {
+        if (index === lines.length - 1) return;
+        throw new Error(`Corrupt journal entry on line ${index + 1} of ${filePath}`);
+      }
+
+      if (entry.op === 'put') {
+        replayed.set(entry.value.id, entry.value);
+      } else {
+        replayed.delete(entry.id);
+      }
+    });
+  } else {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+  }
+
+  const memory = createInMemoryRepository<T>();
+  replayed.forEach(item => memory.insert(item));
+
+  const toLine = (entry: JournalEntry<T>): string => `${JSON.stringify(entry)}\n`;
+  writeFileAtomically(filePath, memory.findAll().map(value => toLine({ op: 'put', value })).join(''));
+
+  const append = (entry: JournalEntry<T>): void => {
+    const fd = fs.openSync(filePath, 'a');
+    try {
+      fs.writeSync(fd, toLine(entry));
+      fs.fsyncSync(fd);
+    } finally {
+      fs.closeSync(fd);
+    }
+  };
+
+  return {
+    findAll: memory.findAll,
+    findById: memory.findById,
+    insert: (item) => {
+      append({ op: 'put', value: item });
+      return memory.insert(item);
+    },
+    update: (id, changes) => {
+      const existing = memory.findById(id);
+      if (!existing) return null;
+
+      append({ op: 'put', value: { ...existing, ...changes } });
+      return memory.update(id, changes);
+    },
+    remove: (id) => {
+      if (!memory.findById(id)) return false;
+
+      append({ op: 'delete', id });
+      return memory.remove(id);
+    },
+  };
+};
+
+/**
+ * Wraps a repository so that every successful insert, update, and removal is reported to a listener
+ * after it has been applied.
+ *
+ * @param repository the repository to observe
+ * @param onChange called with the id of the changed record and the record before and after the change;
+ * before is undefined for an insert, and after is undefined for a removal
+ * @returns a repository with the same records that reports its changes
+ */
+export const observeRepository = <T extends Entity>(
+  repository: Repository<T>,
+  onChange: (id: string, before: T | undefined, after: T | undefined) => void
+): Repository<T> => ({
+  findAll: repository.findAll,
+  findById: repository.findById,
+  insert: (item) => {
+    const inserted = repository.insert(item);
+    onChange(item.id, undefined, inserted);
+    return inserted;
+  },
+  update: (id, changes) => {
+    const before = repository.findById(id);
+    const updated = repository.update(id, changes);
+    if (updated) onChange(id, before, updated);
+    return updated;
+  },
+  remove: (id) => {
+    const before = repository.findById(id);
+    const removed = repository.remove(id);
+    if (removed) onChange(id, before, undefined);
+    return removed;
+  },
+});
+
+/**
+ * Wraps a repository so that every record carries a version number and the time it was last written.
+ * Inserted records start at version 1, and every update increments the version.
+ * Records stored before versioning was introduced are treated as version 0.
+ *
+ * @param repository the repository to wrap
+ * @param now returns the current time
+ * @returns a repository with the same records that versions them as they are written
+ */
+export const versionRepository = <T extends Entity & Versioned>(
+  repository: Repository<T>,
+  now: () => Date
+): Repository<T> => ({
+  findAll: repository.findAll,
+  findById: repository.findById,
+  insert: (item) => repository.insert({ ...item, version: 1, updatedAt: now().toISOString() }),
+  update: (id, changes) => {
+    const existing = repository.findById(id);
+    if (!existing) return null;
+
+    return repository.update(id, {
+      ...changes,
+      version: (existing.version ?? 0) + 1,
+      updatedAt: now().toISOString(),
+    });
+  },
+  remove: repository.remove,
+});
+
+/**
+ * Wraps a repository so that removing a record only marks it as deleted, moving it to the trash.
+ * Records in the trash are left out of findAll and findById and cannot be updated,
+ * but they keep their id, so inserting a record with the same id is not allowed either.
+ *
+ * @param repository the repository to wrap
+ * @param now returns the current time
+ * @returns a repository with the live records of the wrapped one and a trash holding the rest
+ */
+export const trashRepository = <T extends Entity & Deletable>(
+  repository: Repository<T>,
+  now: () => Date
+): TrashableRepository<T> => {
+  const findLive = (id: string): T | undefined => {
+    const item = repository.findById(id);
+    return item && !item.deletedAt ? item : undefined;
+  };
+  const findDeletedById = (id: string): T | undefined => {
+    const item = repository.findById(id);
+    return item?.deletedAt ? item : undefined;
+  };
+
+  return {
+    findAll: () => repository.findAll().filter(item => !item.deletedAt),
+    findById: findLive,
+    insert: repository.insert,
+    update: (id, changes) => (findLive(id) ? repository.update(id, changes) : null),
+    remove: (id, deletedWith) => {
+      if (!findLive(id)) return false;
+
+      const deleted = { deletedAt: now().toISOString(), deletedWith } as Partial<T>;
+      return repository.update(id, deleted) !== null;
+    },
+    findDeleted: () => repository.findAll().filter(item => item.deletedAt),
+    findDeletedById,
+    restore: (id) => {
+      if (!findDeletedById(id)) return null;
+
+      const restored = { deletedAt: undefined, deletedWith: undefined } as Partial<T>;
+      return repository.update(id, restored);
+    },
+    purge: (id) => (findDeletedById(id) ? repository.remove(id) : false),
+  };
+};
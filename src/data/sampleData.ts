@@ -1,20 +1,43 @@
-import { Author, Genre, Book, BookCopy } from '../models';
-import { addAuthor, addGenre, addBook, addBookCopy } from './storage';
+import { Author, Genre, Book, BookCopy, Branch } from '../models';
+import { addAuthor, addGenre, addBook, addBookCopy, addBranch, listAuthors, listGenres, listBooks, listDeleted } from './storage';
 
+/**
+ * Seeds the catalog with the branches of the library and sample authors, genres, a book and a copy.
+ * Nothing is added if the catalog already has data, e.g. when it was loaded from a durable store,
+ * even if all of it is in the trash.
+ */
 export const initializeData = (): void => {
+  if (listAuthors().length > 0 || listGenres().length > 0 || listBooks().length > 0
+    || (['authors', 'genres', 'books'] as const).some(collection => listDeleted(collection).length > 0)) {
+    return;
+  }
+
+  // Branches
+  const branches: Branch[] = [
+    { id: 'branch1', code: 'CEN', name: 'Central Library' },
+    { id: 'branch2', code: 'NOR', name: 'North Branch' },
+    { id: 'branch3', code: 'EAS', name: 'East Branch' },
+    { id: 'branch4', code: 'WES', name: 'West Branch' }
+  ];
+
+  branches.forEach(addBranch);
+
   // Sample authors
   const author1: Author = {
     id: 'auth1',
     firstName: 'Isaac',
     lastName: 'Asimov',
+    sortName: 'Asimov, Isaac',
     birthDate: '1920-01-02',
-    deathDate: '1992-04-06'
+    deathDate: '1992-04-06',
+    alternateNames: [{ name: 'Paul French', kind: 'pseudonym' }]
   };
   
   const author2: Author = {
     id: 'auth2',
     firstName: 'Ursula',
     lastName: 'K. Le Guin',
+    sortName: 'Le Guin, Ursula K.',
     birthDate: '1929-10-21',
     deathDate: '2018-01-22'
   };
@@ -35,7 +58,8 @@ export const initializeData = (): void => {
     title: 'Foundation',
     authorIds: ['auth1'],
     genreIds: ['gen1'],
-    isbn: '978-0-553-29335-4',
+    isbn: '9780553293357',
+    isbnDisplay: '978-0-553-29335-7',
     summary: 'The first book in the Foundation series by Isaac Asimov.'
   };
 
@@ -46,7 +70,9 @@ export const initializeData = (): void => {
     id: 'copy1',
     bookId: 'book1',
     imprint: 'First Edition 1951',
-    status: 'available'
+    status: 'available',
+    branchId: 'branch1',
+    currentBranchId: 'branch1'
   };
 
   addBookCopy(copy1);
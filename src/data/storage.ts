@@ -1,16 +1,305 @@
-import { Book, Author, Genre, BookCopy } from '../models';
+import path from 'path';
+import { EventEmitter } from 'events';
+import {
+  Book,
+  Author,
+  Genre,
+  BookCopy,
+  Branch,
+  CopyTransition,
+  Patron,
+  Loan,
+  Hold,
+  Fine,
+  Transfer,
+  MarcRecord,
+  User,
+  ApiKey,
+  AuditEntry,
+  Sequence,
+  IdempotentResponse,
+  Versioned,
+  Deletable
+} from '../models';
+import { normalizeIsbn } from '../models/isbn';
+import { trashTypes } from '../models/schemas';
+import { idPolicy, storageConfig } from '../config';
+import { idGenerators } from './ids';
+import { 
+  Entity, 
+  Repository, 
+  TrashableRepository,
+  createInMemoryRepository, 
+  createJsonLinesRepository, 
+  observeRepository,
+  trashRepository,
+  versionRepository
+} from './repository';
+import { now } from '../services/clock';
 
-// In-memory storage
-export let books: Book[] = [];
-export let authors: Author[] = [];
-export let genres: Genre[] = [];
-export let bookCopies: BookCopy[] = [];
+/**
+ * The names of the collections kept in storage.
+ */
+export type Collection =
+  'books' | 'authors' | 'genres' | 'bookCopies' | 'patrons' | 'loans' | 'holds' | 'fines' | 'marcRecords'
+  | 'users' | 'apiKeys' | 'auditLog' | 'copyTransitions' | 'branches' | 'transfers' | 'sequences'
+  | 'idempotentResponses';
+
+/**
+ * The collections whose deleted records go to the trash instead of being removed outright.
+ */
+export type TrashCollection = typeof trashTypes[number];
+
+/**
+ * A change made to one record in storage.
+ * before is undefined when the record was added, and after is undefined when it was deleted.
+ */
+export interface StorageChange {
+  collection: Collection;
+  id: string;
+  before?: Entity;
+  after?: Entity;
+}
+
+const changes = new EventEmitter();
+changes.setMaxListeners(0);
+
+/**
+ * Registers a listener that is called synchronously after every change to a record in storage,
+ * so that derived data such as search indexes can be kept in sync with the records.
+ * @param listener the function to call with each change
+ * @returns a function that unregisters the listener
+ */
+export const onStorageChange = (listener: (change: StorageChange) => void): (() => void) => {
+  changes.on('change', listener);
+  return () => {
+    changes.off('change', listener);
+  };
+};
+
+/**
+ * Creates the repository for one collection using the storage driver chosen in the storage config.
+ * The 'file' driver journals each collection to <dataDir>/<name>.jsonl so data survives restarts;
+ * the 'memory' driver keeps everything in memory only.
+ * Every record is versioned as it is written,
+ * and every change to the collection is reported to the listeners registered with onStorageChange.
+ * @param name the name of the collection
+ * @returns the repository for the collection
+ */
+const createRepository = <T extends Entity & Versioned>(name: Collection): Repository<T> => 
+  observeRepository(
+    versionRepository(
+      storageConfig.driver === 'file'
+        ? createJsonLinesRepository<T>(path.join(storageConfig.dataDir, `${name}.jsonl`))
+        : createInMemoryRepository<T>(),
+      now
+    ),
+    (id, before, after) => {
+      const change: StorageChange = { collection: name, id, before, after };
+      changes.emit('change', change);
+    }
+  );
+
+/**
+ * Creates the repository for a collection whose deleted records go to the trash.
+ * Moving a record to the trash, restoring it and purging it are reported to listeners like any other change.
+ * @param name the name of the collection
+ * @returns the repository for the collection
+ */
+const createTrashableRepository = <T extends Entity & Versioned & Deletable>(name: TrashCollection): TrashableRepository<T> =>
+  trashRepository(createRepository<T>(name), now);
+
+const booksRepository = createTrashableRepository<Book>('books');
+const authorsRepository = createTrashableRepository<Author>('authors');
+const genresRepository = createTrashableRepository<Genre>('genres');
+const bookCopiesRepository = createTrashableRepository<BookCopy>('bookCopies');
+const patronsRepository = createTrashableRepository<Patron>('patrons');
+const loansRepository = createRepository<Loan>('loans');
+const holdsRepository = createRepository<Hold>('holds');
+const finesRepository = createRepository<Fine>('fines');
+const marcRecordsRepository = createRepository<MarcRecord>('marcRecords');
+const usersRepository = createRepository<User>('users');
+const apiKeysRepository = createRepository<ApiKey>('apiKeys');
+const auditLogRepository = createRepository<AuditEntry>('auditLog');
+const copyTransitionsRepository = createRepository<CopyTransition>('copyTransitions');
+const branchesRepository = createRepository<Branch>('branches');
+const transfersRepository = createRepository<Transfer>('transfers');
+const sequencesRepository = createRepository<Sequence>('sequences');
+const idempotentResponsesRepository = createRepository<IdempotentResponse>('idempotentResponses');
+
+const repositories: Record<Collection, Repository<Entity>> = {
+  books: booksRepository,
+  authors: authorsRepository,
+  genres: genresRepository,
+  bookCopies: bookCopiesRepository,
+  patrons: patronsRepository,
+  loans: loansRepository,
+  holds: holdsRepository,
+  fines: finesRepository,
+  marcRecords: marcRecordsRepository,
+  users: usersRepository,
+  apiKeys: apiKeysRepository,
+  auditLog: auditLogRepository,
+  copyTransitions: copyTransitionsRepository,
+  branches: branchesRepository,
+  transfers: transfersRepository,
+  sequences: sequencesRepository,
+  idempotentResponses: idempotentResponsesRepository,
+};
+
+const trash: Record<TrashCollection, TrashableRepository<Entity & Deletable>> = {
+  books: booksRepository,
+  authors: authorsRepository,
+  genres: genresRepository,
+  bookCopies: bookCopiesRepository,
+  patrons: patronsRepository,
+};
 
 /**
- * uses the Math.random function to generate a simple unique ID.
- * @returns a new unique ID
+ * Creates an index from each id a record refers to, such as a book's author IDs, to the records that refer to it.
+ * The index is built from the records already in storage and kept up to date as they change,
+ * so looking up the records that refer to an id does not scan the whole collection.
+ * Records are returned in the order they started referring to the id, and records in the trash refer to nothing.
+ * @param collection the name of the collection holding the records
+ * @param repository the repository of the collection
+ * @param referencesOf returns the ids a record refers to
+ * @returns a function that finds the records referring to an id
  */
-export const generateId = (): string => Math.random().toString(36).substr(2, 9);
+const createReferenceIndex = <T extends Entity>(
+  collection: Collection,
+  repository: Repository<T>,
+  referencesOf: (item: T) => string[]
+): ((id: string) => T[]) => {
+  const index = new Map<string, Set<string>>();
+  const link = (key: string, id: string): void => {
+    const ids = index.get(key) ?? new Set<string>();
+    ids.add(id);
+    index.set(key, ids);
+  };
+  const unlink = (key: string, id: string): void => {
+    const ids = index.get(key);
+    ids?.delete(id);
+    if (ids?.size === 0) index.delete(key);
+  };
+
+  const liveReferencesOf = (item?: Entity): string[] =>
+    item && !(item as Deletable).deletedAt ? referencesOf(item as T) : [];
+
+  repository.findAll().forEach(item => liveReferencesOf(item).forEach(key => link(key, item.id)));
+  onStorageChange(change => {
+    if (change.collection !== collection) return;
+    const before = liveReferencesOf(change.before);
+    const after = liveReferencesOf(change.after);
+    before.filter(key => !after.includes(key)).forEach(key => unlink(key, change.id));
+    after.filter(key => !before.includes(key)).forEach(key => link(key, change.id));
+  });
+
+  return (key) => Array.from(index.get(key) ?? [], id => repository.findById(id) as T);
+};
+
+const booksByAuthor = createReferenceIndex('books', booksRepository, book => book.authorIds);
+const booksByGenre = createReferenceIndex('books', booksRepository, book => book.genreIds);
+const copiesByBook = createReferenceIndex('bookCopies', bookCopiesRepository, copy => [copy.bookId]);
+const authorsByCanonicalAuthor = createReferenceIndex(
+  'authors',
+  authorsRepository,
+  author => (author.canonicalAuthorId ? [author.canonicalAuthorId] : [])
+);
+
+/**
+ * The prefix of the IDs made up for the records of each collection, so that an ID tells what kind of record it is.
+ */
+const idPrefixes: Record<Collection, string> = {
+  books: 'book',
+  authors: 'auth',
+  genres: 'genre',
+  bookCopies: 'copy',
+  patrons: 'patron',
+  loans: 'loan',
+  holds: 'hold',
+  fines: 'fine',
+  marcRecords: 'marc',
+  users: 'user',
+  apiKeys: 'key',
+  auditLog: 'audit',
+  copyTransitions: 'trn',
+  branches: 'branch',
+  transfers: 'xfer',
+  sequences: 'seq',
+  idempotentResponses: 'idem',
+};
+
+/**
+ * Makes up the ID of a new record: the prefix of its collection, an underscore,
+ * and an ID from the generator chosen in the ID policy, e.g. book_01JAB8Y4Q5V6Z8N9XKZ3T7R2WD.
+ * IDs already in use in the collection, including by records in its trash, are never returned.
+ * @param collection the collection the record is added to
+ * @returns a new ID, unique in the collection
+ */
+export const generateId = (collection: Collection): string => {
+  const inUse = (id: string): boolean => Boolean(repositories[collection].findById(id)
+    || (collection in trash && trash[collection as TrashCollection].findDeletedById(id)));
+
+  let id: string;
+  do {
+    id = `${idPrefixes[collection]}_${idGenerators[idPolicy.strategy]()}`;
+  } while (inUse(id));
+  return id;
+};
+
+/**
+ * Lists every book in storage, in the order they were added.
+ * @returns the books
+ */
+export const listBooks = (): Book[] => booksRepository.findAll();
+
+/**
+ * Lists every author in storage, in the order they were added.
+ * @returns the authors
+ */
+export const listAuthors = (): Author[] => authorsRepository.findAll();
+
+/**
+ * Lists every genre in storage, in the order they were added.
+ * @returns the genres
+ */
+export const listGenres = (): Genre[] => genresRepository.findAll();
+
+/**
+ * Lists every book copy in storage, in the order they were added.
+ * @returns the book copies
+ */
+export const listBookCopies = (): BookCopy[] => bookCopiesRepository.findAll();
+
+/**
+ * Lists every patron in storage, in the order they were added.
+ * @returns the patrons
+ */
+export const listPatrons = (): Patron[] => patronsRepository.findAll();
+
+/**
+ * Lists every branch in storage, in the order they were added.
+ * @returns the branches
+ */
+export const listBranches = (): Branch[] => branchesRepository.findAll();
+
+/**
+ * Lists every transfer between branches, oldest first.
+ * @returns the transfers
+ */
+export const listTransfers = (): Transfer[] => transfersRepository.findAll();
+
+/**
+ * Lists every user in storage, in the order they were added.
+ * @returns the users
+ */
+export const listUsers = (): User[] => usersRepository.findAll();
+
+/**
+ * Lists every entry of the audit log, oldest first.
+ * @returns the audit entries
+ */
+export const listAuditEntries = (): AuditEntry[] => auditLogRepository.findAll();
 
 /**
  * Finds the first book, author, genre, or book copy with the given ID.
@@ -18,7 +307,16 @@ export const generateId = (): string => Math.random().toString(36).substr(2, 9);
  * @returns the book, author, genre, or book copy if found, otherwise undefined
  */
 export const findBookById = (id: string): Book | undefined => 
-  books.find(book => book.id === id);
+  booksRepository.findById(id);
+
+/**
+ * Finds the book with the given ISBN.
+ * Stored ISBNs are normalized before comparing, so records saved before ISBNs were canonical still match.
+ * @param isbn the canonical hyphen-free ISBN-13 to search for
+ * @returns the book if found, otherwise undefined
+ */
+export const findBookByIsbn = (isbn: string): Book | undefined => 
+  booksRepository.findAll().find(book => (normalizeIsbn(book.isbn) ?? book.isbn) === isbn);
 
 /**
  * Finds the first author with the given ID.
@@ -26,7 +324,7 @@ export const findBookById = (id: string): Book | undefined =>
  * @returns the author if found, otherwise undefined
  */
 export const findAuthorById = (id: string): Author | undefined => 
-  authors.find(author => author.id === id);
+  authorsRepository.findById(id);
 
 /**
  * Finds the first genre with the given ID.
@@ -34,7 +332,7 @@ export const findAuthorById = (id: string): Author | undefined =>
  * @returns the genre if found, otherwise undefined
  */
 export const findGenreById = (id: string): Genre | undefined => 
-  genres.find(genre => genre.id === id);
+  genresRepository.findById(id);
 
 /**
  * Finds the first book copy with the given ID.
@@ -42,40 +340,431 @@ export const findGenreById = (id: string): Genre | undefined =>
  * @returns the book copy if found, otherwise undefined
  */
 export const findBookCopyById = (id: string): BookCopy | undefined => 
-  bookCopies.find(copy => copy.id === id);
+  bookCopiesRepository.findById(id);
+
+/**
+ * Finds the branch with the given ID.
+ * @param id the branch ID to search for
+ * @returns the branch if found, otherwise undefined
+ */
+export const findBranchById = (id: string): Branch | undefined => 
+  branchesRepository.findById(id);
+
+/**
+ * Finds the branch with the given code, ignoring case.
+ * @param code the branch code to search for
+ * @returns the branch if found, otherwise undefined
+ */
+export const findBranchByCode = (code: string): Branch | undefined => 
+  branchesRepository.findAll().find(branch => branch.code.toLowerCase() === code.toLowerCase());
+
+/**
+ * Finds every book copy that belongs to, or is at, the given branch.
+ * @param branchId the branch ID to search for
+ * @returns the book copies of the branch
+ */
+export const findCopiesByBranchId = (branchId: string): BookCopy[] => 
+  bookCopiesRepository.findAll().filter(copy => copy.branchId === branchId || copy.currentBranchId === branchId);
+
+/**
+ * Finds the book copy with the given barcode, including copies in the trash,
+ * since a barcode stays taken until the copy that had it is purged.
+ * @param barcode the normalized barcode to search for
+ * @returns the book copy if found, otherwise undefined
+ */
+export const findBookCopyByBarcode = (barcode: string): BookCopy | undefined => 
+  [...bookCopiesRepository.findAll(), ...bookCopiesRepository.findDeleted()].find(copy => copy.barcode === barcode);
+
+/**
+ * Finds the book copy with the given RFID tag, including copies in the trash.
+ * @param rfidTag the normalized tag ID to search for
+ * @returns the book copy if found, otherwise undefined
+ */
+export const findBookCopyByRfidTag = (rfidTag: string): BookCopy | undefined => 
+  [...bookCopiesRepository.findAll(), ...bookCopiesRepository.findDeleted()].find(copy => copy.rfidTag === rfidTag);
+
+/**
+ * Finds the transfer with the given ID.
+ * @param id the transfer ID to search for
+ * @returns the transfer if found, otherwise undefined
+ */
+export const findTransferById = (id: string): Transfer | undefined => 
+  transfersRepository.findById(id);
+
+/**
+ * Finds every transfer of the given book copy, oldest first.
+ * @param copyId the book copy ID to search for
+ * @returns the transfers of the book copy
+ */
+export const findTransfersByCopyId = (copyId: string): Transfer[] => 
+  transfersRepository.findAll().filter(transfer => transfer.copyId === copyId);
+
+/**
+ * Finds the transfer of the given book copy that has been requested or shipped but not yet received.
+ * @param copyId the book copy ID to search for
+ * @returns the open transfer if the copy is being moved, otherwise undefined
+ */
+export const findOpenTransferByCopyId = (copyId: string): Transfer | undefined => 
+  findTransfersByCopyId(copyId).find(transfer => transfer.status === 'requested' || transfer.status === 'shipped');
 
 /**
- * Adds a new book to the end of the array of books in the in-memory storage.
+ * Finds every book written by the given author.
+ * @param authorId the author ID to search for
+ * @returns the books that list the author
+ */
+export const findBooksByAuthorId = (authorId: string): Book[] => 
+  booksByAuthor(authorId);
+
+/**
+ * Finds the author records that are pseudonyms or variants of an author.
+ * @param authorId the id of the canonical author
+ * @returns the author records whose canonical author is the given author
+ */
+export const findAuthorsByCanonicalAuthorId = (authorId: string): Author[] =>
+  authorsByCanonicalAuthor(authorId);
+
+/**
+ * Finds every book in the given genre.
+ * @param genreId the genre ID to search for
+ * @returns the books that list the genre
+ */
+export const findBooksByGenreId = (genreId: string): Book[] => 
+  booksByGenre(genreId);
+
+/**
+ * Finds every copy of the given book.
+ * @param bookId the book ID to search for
+ * @returns the copies of the book
+ */
+export const findCopiesByBookId = (bookId: string): BookCopy[] => 
+  copiesByBook(bookId);
+
+/**
+ * Finds the first patron with the given ID.
+ * @param id the patron ID to search for
+ * @returns the patron if found, otherwise undefined
+ */
+export const findPatronById = (id: string): Patron | undefined => 
+  patronsRepository.findById(id);
+
+/**
+ * Finds all book copies currently on loan to the given patron, including overdue ones.
+ * @param patronId the patron ID to search for
+ * @returns the book copies the patron is holding
+ */
+export const findCopiesCheckedOutBy = (patronId: string): BookCopy[] => 
+  bookCopiesRepository.findAll().filter(copy => (copy.status === 'on-loan' || copy.status === 'overdue') 
+    && copy.patronId === patronId);
+
+/**
+ * Finds the loan that is still open for the given book copy.
+ * @param copyId the book copy ID to search for
+ * @returns the open loan if the copy is on loan, otherwise undefined
+ */
+export const findOpenLoanByCopyId = (copyId: string): Loan | undefined => 
+  loansRepository.findAll().find(loan => loan.copyId === copyId && !loan.returnedAt);
+
+/**
+ * Finds every loan ever made of the given book copy, oldest first.
+ * @param copyId the book copy ID to search for
+ * @returns the loans of the book copy
+ */
+export const findLoansByCopyId = (copyId: string): Loan[] => 
+  loansRepository.findAll().filter(loan => loan.copyId === copyId);
+
+/**
+ * Finds every loan ever made to the given patron, oldest first.
+ * @param patronId the patron ID to search for
+ * @returns the loans of the patron
+ */
+export const findLoansByPatronId = (patronId: string): Loan[] => 
+  loansRepository.findAll().filter(loan => loan.patronId === patronId);
+
+/**
+ * Finds every loan that has not been returned yet.
+ * @returns the open loans
+ */
+export const findOpenLoans = (): Loan[] => 
+  loansRepository.findAll().filter(loan => !loan.returnedAt);
+
+/**
+ * Finds every change of status of the given book copy, oldest first.
+ * @param copyId the book copy ID to search for
+ * @returns the transitions of the book copy
+ */
+export const findTransitionsByCopyId = (copyId: string): CopyTransition[] => 
+  copyTransitionsRepository.findAll().filter(transition => transition.copyId === copyId);
+
+/**
+ * Finds the first hold with the given ID.
+ * @param id the hold ID to search for
+ * @returns the hold if found, otherwise undefined
+ */
+export const findHoldById = (id: string): Hold | undefined => 
+  holdsRepository.findById(id);
+
+/**
+ * Finds every hold placed on the given book, in the order they were placed.
+ * @param bookId the book ID to search for
+ * @returns the holds on the book
+ */
+export const findHoldsByBookId = (bookId: string): Hold[] => 
+  holdsRepository.findAll().filter(hold => hold.bookId === bookId);
+
+/**
+ * Finds every hold to be picked up at the given branch.
+ * @param branchId the branch ID to search for
+ * @returns the holds with the branch as their pickup branch
+ */
+export const findHoldsByPickupBranchId = (branchId: string): Hold[] => 
+  holdsRepository.findAll().filter(hold => hold.pickupBranchId === branchId);
+
+/**
+ * Finds every hold that is ready for pickup.
+ * @returns the holds that have a copy reserved for them
+ */
+export const findReadyHolds = (): Hold[] => 
+  holdsRepository.findAll().filter(hold => hold.status === 'ready');
+
+/**
+ * Finds the first fine with the given ID.
+ * @param id the fine ID to search for
+ * @returns the fine if found, otherwise undefined
+ */
+export const findFineById = (id: string): Fine | undefined => 
+  finesRepository.findById(id);
+
+/**
+ * Finds the fine charged for the given loan.
+ * @param loanId the loan ID to search for
+ * @returns the fine if the loan has been fined, otherwise undefined
+ */
+export const findFineByLoanId = (loanId: string): Fine | undefined => 
+  finesRepository.findAll().find(fine => fine.loanId === loanId);
+
+/**
+ * Finds every fine charged to the given patron.
+ * @param patronId the patron ID to search for
+ * @returns the fines of the patron
+ */
+export const findFinesByPatronId = (patronId: string): Fine[] => 
+  finesRepository.findAll().filter(fine => fine.patronId === patronId);
+
+/**
+ * Finds the MARC record the given book was imported from.
+ * @param bookId the book ID to search for
+ * @returns the MARC record if the book came from one, otherwise undefined
+ */
+export const findMarcRecordByBookId = (bookId: string): MarcRecord | undefined => 
+  marcRecordsRepository.findById(bookId);
+
+/**
+ * Finds the user with the given ID.
+ * @param id the user ID to search for
+ * @returns the user if found, otherwise undefined
+ */
+export const findUserById = (id: string): User | undefined => 
+  usersRepository.findById(id);
+
+/**
+ * Finds the user with the given username, ignoring case.
+ * @param username the username to search for
+ * @returns the user if found, otherwise undefined
+ */
+export const findUserByUsername = (username: string): User | undefined => 
+  usersRepository.findAll().find(user => user.username.toLowerCase() === username.toLowerCase());
+
+/**
+ * Finds the API key with the given ID.
+ * @param id the API key ID to search for
+ * @returns the API key if found, otherwise undefined
+ */
+export const findApiKeyById = (id: string): ApiKey | undefined => 
+  apiKeysRepository.findById(id);
+
+/**
+ * Finds the API key with the given hash.
+ * @param keyHash the hash of the key to search for
+ * @returns the API key if found, otherwise undefined
+ */
+export const findApiKeyByHash = (keyHash: string): ApiKey | undefined => 
+  apiKeysRepository.findAll().find(apiKey => apiKey.keyHash === keyHash);
+
+/**
+ * Finds every API key created by the given user.
+ * @param userId the user ID to search for
+ * @returns the API keys of the user
+ */
+export const findApiKeysByUserId = (userId: string): ApiKey[] => 
+  apiKeysRepository.findAll().filter(apiKey => apiKey.userId === userId);
+
+/**
+ * Adds a new book to the end of the book collection in storage.
  * @param book the book to add
+ * @returns the book as stored, with its version
  */
-export const addBook = (book: Book): void => {
-  books.push(book);
-};
+export const addBook = (book: Book): Book => 
+  booksRepository.insert(book);
 
 /**
- * Adds a new author to the end of the array of authors in the in-memory storage.
+ * Adds a new author to the end of the author collection in storage.
  * @param author the author to add
+ * @returns the author as stored, with its version
  */
-export const addAuthor = (author: Author): void => {
-  authors.push(author);
-};
+export const addAuthor = (author: Author): Author => 
+  authorsRepository.insert(author);
 
 /**
- * Adds the given genre to the end of the array of genres in the in-memory storage.
+ * Adds the given genre to the end of the genre collection in storage.
  * @param genre the genre to add
+ * @returns the genre as stored, with its version
  */
-export const addGenre = (genre: Genre): void => {
-  genres.push(genre);
-};
+export const addGenre = (genre: Genre): Genre => 
+  genresRepository.insert(genre);
 
 /**
- * Adds the given book copy to the end of the array of book copies in the in-memory storage.
+ * Adds the given book copy to the end of the book copy collection in storage.
  * @param bookCopy the book copy to add
+ * @returns the book copy as stored, with its version
  */
-export const addBookCopy = (bookCopy: BookCopy): void => {
-  bookCopies.push(bookCopy);
+export const addBookCopy = (bookCopy: BookCopy): BookCopy => 
+  bookCopiesRepository.insert(bookCopy);
+
+/**
+ * Adds the given patron to the end of the patron collection in storage.
+ * @param patron the patron to add
+ * @returns the patron as stored, with its version
+ */
+export const addPatron = (patron: Patron): Patron => 
+  patronsRepository.insert(patron);
+
+/**
+ * Adds the given branch to the end of the branch collection in storage.
+ * @param branch the branch to add
+ * @returns the branch as stored, with its version
+ */
+export const addBranch = (branch: Branch): Branch => 
+  branchesRepository.insert(branch);
+
+/**
+ * Adds the given transfer to the end of the transfer collection in storage.
+ * @param transfer the transfer to add
+ * @returns the transfer as stored, with its version
+ */
+export const addTransfer = (transfer: Transfer): Transfer => 
+  transfersRepository.insert(transfer);
+
+/**
+ * Takes the next number from a sequence, starting a new sequence at 1.
+ * The sequence is stored before the number is returned, so a number is never handed out twice.
+ * @param name the name of the sequence
+ * @returns the next number of the sequence
+ */
+export const nextSequenceValue = (name: string): number => {
+  const sequence = sequencesRepository.findById(name);
+  return sequence
+    ? (sequencesRepository.update(name, { value: sequence.value + 1 }) as Sequence).value
+    : sequencesRepository.insert({ id: name, value: 1 }).value;
 };
 
+/**
+ * Lists the responses kept for POST requests sent with an Idempotency-Key header, oldest first.
+ * @returns the kept responses
+ */
+export const listIdempotentResponses = (): IdempotentResponse[] => idempotentResponsesRepository.findAll();
+
+/**
+ * Finds the response kept for a POST request sent with an Idempotency-Key header.
+ * @param id the digest of the key, the user and the URL of the request
+ * @returns the kept response if found, otherwise undefined
+ */
+export const findIdempotentResponse = (id: string): IdempotentResponse | undefined =>
+  idempotentResponsesRepository.findById(id);
+
+/**
+ * Keeps the response to a POST request sent with an Idempotency-Key header, replacing any expired one with the same id.
+ * @param response the response to keep
+ * @returns the response as stored, with its version
+ */
+export const addIdempotentResponse = (response: IdempotentResponse): IdempotentResponse => {
+  idempotentResponsesRepository.remove(response.id);
+  return idempotentResponsesRepository.insert(response);
+};
+
+/**
+ * Forgets the response kept for a POST request sent with an Idempotency-Key header.
+ * @param id the id of the kept response
+ * @returns true if the response was found and removed, otherwise false
+ */
+export const deleteIdempotentResponse = (id: string): boolean => idempotentResponsesRepository.remove(id);
+
+/**
+ * Appends the given loan to the loan ledger in storage.
+ * Loans are never removed from the ledger, so the borrowing history of copies and patrons is kept.
+ * @param loan the loan to add
+ * @returns the loan as stored, with its version
+ */
+export const addLoan = (loan: Loan): Loan => 
+  loansRepository.insert(loan);
+
+/**
+ * Adds the given hold to the end of the hold collection in storage.
+ * @param hold the hold to add
+ * @returns the hold as stored, with its version
+ */
+export const addHold = (hold: Hold): Hold => 
+  holdsRepository.insert(hold);
+
+/**
+ * Adds the given fine to the end of the fine collection in storage.
+ * @param fine the fine to add
+ * @returns the fine as stored, with its version
+ */
+export const addFine = (fine: Fine): Fine => 
+  finesRepository.insert(fine);
+
+/**
+ * Adds the given user to the end of the user collection in storage.
+ * @param user the user to add
+ * @returns the user as stored, with its version
+ */
+export const addUser = (user: User): User => 
+  usersRepository.insert(user);
+
+/**
+ * Adds the given API key to the end of the API key collection in storage.
+ * @param apiKey the API key to add
+ * @returns the API key as stored, with its version
+ */
+export const addApiKey = (apiKey: ApiKey): ApiKey => 
+  apiKeysRepository.insert(apiKey);
+
+/**
+ * Appends the given entry to the audit log in storage.
+ * The audit log is append-only: there is no way to update or delete its entries.
+ * @param entry the audit entry to add
+ * @returns the audit entry as stored, with its version
+ */
+export const addAuditEntry = (entry: AuditEntry): AuditEntry => 
+  auditLogRepository.insert(entry);
+
+/**
+ * Appends the given transition to the lifecycle history of book copies in storage.
+ * Like the loan ledger, the history is never rewritten, and outlives the copies it describes.
+ * @param transition the transition to add
+ * @returns the transition as stored, with its version
+ */
+export const addCopyTransition = (transition: CopyTransition): CopyTransition => 
+  copyTransitionsRepository.insert(transition);
+
+/**
+ * Keeps the MARC record a book was imported from, replacing any record kept for it before.
+ * @param marcRecord the MARC record, with the id of its book
+ * @returns the MARC record as stored, with its version
+ */
+export const saveMarcRecord = (marcRecord: MarcRecord): MarcRecord => 
+  marcRecordsRepository.update(marcRecord.id, marcRecord) ?? marcRecordsRepository.insert(marcRecord);
+
 /**
  * Finds and updates the first book, author, genre, or book copy with the given ID.
  * Returns a shallow copy of the updated item, or null if not found.
@@ -85,15 +774,11 @@ export const addBookCopy = (bookCopy: BookCopy): void => {
  * @returns the updated book, author, genre, or book copy if found and updated, otherwise null
  */
 export const updateBook = (id: string, updatedBook: Partial<Book>): Book | null => {
-  const index = books.findIndex(book => book.id === id);
-  if (index === -1) return null;
-  
-  books[index] = { ...books[index], ...updatedBook };
-  return books[index];
+  return booksRepository.update(id, updatedBook);
 };
 
 /**
- * Modifies an existing author, genre, or book copy in the in-memory storage.
+ * Modifies an existing author, genre, or book copy in storage.
  * Returns a shallow copy of the updated item, or null if not found.
  * 
  * @param id the id of the author to update
@@ -101,26 +786,18 @@ export const updateBook = (id: string, updatedBook: Partial<Book>): Book | null
  * @returns the updated author, genre, or book copy if found and updated, otherwise null
  */
 export const updateAuthor = (id: string, updatedAuthor: Partial<Author>): Author | null => {
-  const index = authors.findIndex(author => author.id === id);
-  if (index === -1) return null;
-  
-  authors[index] = { ...authors[index], ...updatedAuthor };
-  return authors[index];
+  return authorsRepository.update(id, updatedAuthor);
 };
 
 /**
- * updates an existing genre in the in-memory storage.
+ * updates an existing genre in storage.
  * 
  * @param id the id of the genre to update
  * @param updatedGenre the new genre name
  * @returns the updated genre if found and updated, otherwise null
  */
 export const updateGenre = (id: string, updatedGenre: Partial<Genre>): Genre | null => {
-  const index = genres.findIndex(genre => genre.id === id);
-  if (index === -1) return null;
-  
-  genres[index] = { ...genres[index], ...updatedGenre };
-  return genres[index];
+  return genresRepository.update(id, updatedGenre);
 };
 
 /**
@@ -131,67 +808,219 @@ export const updateGenre = (id: string, updatedGenre: Partial<Genre>): Genre | n
  * @returns the updated book copy if found and updated, otherwise null
  */
 export const updateBookCopy = (id: string, updatedBookCopy: Partial<BookCopy>): BookCopy | null => {
-  const index = bookCopies.findIndex(copy => copy.id === id);
-  if (index === -1) return null;
-  
-  bookCopies[index] = { ...bookCopies[index], ...updatedBookCopy };
-  return bookCopies[index];
+  return bookCopiesRepository.update(id, updatedBookCopy);
 };
 
 /**
- * Finds and deletes the first book with the given ID.
- * Also deletes all associated book copies. 
+ * Finds the first patron with the given ID and updates it.
+ * 
+ * @param id the id of the patron to update
+ * @param updatedPatron the new patron data
+ * @returns the updated patron if found and updated, otherwise null
+ */
+export const updatePatron = (id: string, updatedPatron: Partial<Patron>): Patron | null => {
+  return patronsRepository.update(id, updatedPatron);
+};
+
+/**
+ * Finds the branch with the given ID and updates it.
+ * 
+ * @param id the id of the branch to update
+ * @param updatedBranch the new branch data
+ * @returns the updated branch if found and updated, otherwise null
+ */
+export const updateBranch = (id: string, updatedBranch: Partial<Branch>): Branch | null => {
+  return branchesRepository.update(id, updatedBranch);
+};
+
+/**
+ * Finds the transfer with the given ID and updates it, e.g. to record that it was shipped.
+ * 
+ * @param id the id of the transfer to update
+ * @param updatedTransfer the new transfer data
+ * @returns the updated transfer if found and updated, otherwise null
+ */
+export const updateTransfer = (id: string, updatedTransfer: Partial<Transfer>): Transfer | null => {
+  return transfersRepository.update(id, updatedTransfer);
+};
+
+/**
+ * Finds the loan with the given ID and updates it, e.g. to record a renewal or return.
+ * 
+ * @param id the id of the loan to update
+ * @param updatedLoan the new loan data
+ * @returns the updated loan if found and updated, otherwise null
+ */
+export const updateLoan = (id: string, updatedLoan: Partial<Loan>): Loan | null => {
+  return loansRepository.update(id, updatedLoan);
+};
+
+/**
+ * Finds the hold with the given ID and updates it.
+ * 
+ * @param id the id of the hold to update
+ * @param updatedHold the new hold data
+ * @returns the updated hold if found and updated, otherwise null
+ */
+export const updateHold = (id: string, updatedHold: Partial<Hold>): Hold | null => {
+  return holdsRepository.update(id, updatedHold);
+};
+
+/**
+ * Finds the fine with the given ID and updates it.
+ * 
+ * @param id the id of the fine to update
+ * @param updatedFine the new fine data
+ * @returns the updated fine if found and updated, otherwise null
+ */
+export const updateFine = (id: string, updatedFine: Partial<Fine>): Fine | null => {
+  return finesRepository.update(id, updatedFine);
+};
+
+/**
+ * Finds the API key with the given ID and updates it, e.g. to record when it was last used.
+ * 
+ * @param id the id of the API key to update
+ * @param updatedApiKey the new API key data
+ * @returns the updated API key if found and updated, otherwise null
+ */
+export const updateApiKey = (id: string, updatedApiKey: Partial<ApiKey>): ApiKey | null => {
+  return apiKeysRepository.update(id, updatedApiKey);
+};
+
+/**
+ * Finds the first book with the given ID and moves it to the trash.
+ * Copies of the book are not touched; callers decide whether they must be deleted first.
  * 
  * @param id the id of the book to delete
  * @returns true if the book was found and deleted, otherwise false
  */
-export const deleteBook = (id: string): boolean => {
-  const index = books.findIndex(book => book.id === id);
-  if (index === -1) return false;
-  
-  bookCopies = bookCopies.filter(copy => copy.bookId !== id);
-  books.splice(index, 1);
-  return true;
-};
+export const deleteBook = (id: string): boolean => 
+  booksRepository.remove(id);
 
 /**
- * Finds and deletes the first author with the given ID.
+ * Finds the first author with the given ID and moves it to the trash.
  * 
  * @param id the id of the author to delete
  * @returns true if the author was found and deleted, otherwise false
  */
 export const deleteAuthor = (id: string): boolean => {
-  const index = authors.findIndex(author => author.id === id);
-  if (index === -1) return false;
-  
-  authors.splice(index, 1);
-  return true;
+  return authorsRepository.remove(id);
 };
 
 /**
- * Finds the first genre with the given ID and deletes it.
+ * Finds the first genre with the given ID and moves it to the trash.
  * 
  * @param id the id of the genre to delete
  * @returns true if the genre was found and deleted, otherwise false
  */
 export const deleteGenre = (id: string): boolean => {
-  const index = genres.findIndex(genre => genre.id === id);
-  if (index === -1) return false;
-  
-  genres.splice(index, 1);
-  return true;
+  return genresRepository.remove(id);
 };
 
 /**
- * Finds the first book copy with the given ID and deletes it.
+ * Finds the first book copy with the given ID and moves it to the trash.
  * 
  * @param id the id of the book copy to delete
+ * @param deletedWith the id of the book the copy is deleted with, if it is not deleted on its own
  * @returns true if the book copy was found and deleted, otherwise false
  */
-export const deleteBookCopy = (id: string): boolean => {
-  const index = bookCopies.findIndex(copy => copy.id === id);
-  if (index === -1) return false;
-  
-  bookCopies.splice(index, 1);
-  return true;
+export const deleteBookCopy = (id: string, deletedWith?: string): boolean => {
+  return bookCopiesRepository.remove(id, deletedWith);
+};
+
+/**
+ * Finds the first patron with the given ID and moves it to the trash.
+ * 
+ * @param id the id of the patron to delete
+ * @returns true if the patron was found and deleted, otherwise false
+ */
+export const deletePatron = (id: string): boolean => {
+  return patronsRepository.remove(id);
+};
+
+/**
+ * Finds the branch with the given ID and deletes it.
+ * Callers check that no copies, holds or transfers refer to it first.
+ * 
+ * @param id the id of the branch to delete
+ * @returns true if the branch was found and deleted, otherwise false
+ */
+export const deleteBranch = (id: string): boolean => {
+  return branchesRepository.remove(id);
+};
+
+/**
+ * Deletes the MARC record kept for the given book.
+ * 
+ * @param bookId the id of the book
+ * @returns true if the book had a MARC record and it was deleted, otherwise false
+ */
+export const deleteMarcRecord = (bookId: string): boolean => {
+  return marcRecordsRepository.remove(bookId);
+};
+
+/**
+ * Finds the user with the given ID and deletes it, along with the API keys they created.
+ * 
+ * @param id the id of the user to delete
+ * @returns true if the user was found and deleted, otherwise false
+ */
+export const deleteUser = (id: string): boolean => {
+  findApiKeysByUserId(id).forEach(apiKey => apiKeysRepository.remove(apiKey.id));
+  return usersRepository.remove(id);
+};
+
+/**
+ * Finds the API key with the given ID and deletes it, so it can no longer be used.
+ * 
+ * @param id the id of the API key to delete
+ * @returns true if the API key was found and deleted, otherwise false
+ */
+export const deleteApiKey = (id: string): boolean => {
+  return apiKeysRepository.remove(id);
+};
+
+/**
+ * Lists the records of a collection that are in the trash.
+ * 
+ * @param collection the collection to look in
+ * @returns the deleted records, in the order they were created
+ */
+export const listDeleted = (collection: TrashCollection): (Entity & Deletable)[] => {
+  return trash[collection].findDeleted();
+};
+
+/**
+ * Finds the record with the given ID in the trash of a collection.
+ * 
+ * @param collection the collection to look in
+ * @param id the id of the deleted record
+ * @returns the deleted record if found, otherwise undefined
+ */
+export const findDeletedById = (collection: TrashCollection, id: string): (Entity & Deletable) | undefined => {
+  return trash[collection].findDeletedById(id);
+};
+
+/**
+ * Takes a record out of the trash of a collection, so that it is visible again.
+ * Callers check that the records it refers to still exist first.
+ * 
+ * @param collection the collection the record belongs to
+ * @param id the id of the deleted record
+ * @returns the restored record if it was in the trash, otherwise null
+ */
+export const restoreDeleted = (collection: TrashCollection, id: string): Entity | null => {
+  return trash[collection].restore(id);
+};
+
+/**
+ * Removes a record in the trash of a collection for good.
+ * 
+ * @param collection the collection the record belongs to
+ * @param id the id of the deleted record
+ * @returns true if the record was in the trash and was removed, otherwise false
+ */
+export const purgeDeleted = (collection: TrashCollection, id: string): boolean => {
+  return trash[collection].purge(id);
 };
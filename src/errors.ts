@@ -0,0 +1,135 @@
+import { FieldError } from './models/schema';
+
+/**
+ * The errors the API reports to clients.
+ * Controllers and middleware throw them, or pass them to next, and the error handling middleware
+ * turns them into RFC 7807 problem details with the status code and machine-readable code of their class.
+ */
+
+/**
+ * The machine-readable codes problem details carry, one per kind of problem.
+ */
+export const errorCodes = [
+  'bad_request',
+  'validation_failed',
+  'malformed_body',
+  'unauthorized',
+  'forbidden',
+  'not_found',
+  'route_not_found',
+  'not_acceptable',
+  'conflict',
+  'precondition_failed',
+  'payload_too_large',
+  'unsupported_media_type',
+  'unprocessable_content',
+  'internal_error',
+] as const;
+
+export type ErrorCode = typeof errorCodes[number];
+
+/**
+ * A problem with a request that is the client's to fix, reported with an HTTP status code.
+ * details holds any further members of the problem, such as the records that conflict with the request.
+ */
+export class ApiError extends Error {
+  constructor(
+    readonly status: number,
+    readonly code: ErrorCode,
+    message: string,
+    readonly details: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.name = new.target.name;
+  }
+}
+
+/**
+ * The request is malformed, e.g. it has an unknown query parameter value.
+ */
+export class BadRequestError extends ApiError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(400, 'bad_request', message, details);
+  }
+}
+
+/**
+ * Fields of the request body or query string are invalid; errors lists one problem per field.
+ */
+export class ValidationError extends ApiError {
+  constructor(readonly errors: FieldError[], message = errors.map(error => error.message).join('; ')) {
+    super(400, 'validation_failed', message, { errors });
+  }
+}
+
+/**
+ * The request needs valid credentials.
+ */
+export class UnauthorizedError extends ApiError {
+  constructor(message: string) {
+    super(401, 'unauthorized', message);
+  }
+}
+
+/**
+ * The signed-in user is not allowed to do this.
+ */
+export class ForbiddenError extends ApiError {
+  constructor(message: string) {
+    super(403, 'forbidden', message);
+  }
+}
+
+/**
+ * A record the request names does not exist.
+ */
+export class NotFoundError extends ApiError {
+  constructor(message: string, code: 'not_found' | 'route_not_found' = 'not_found') {
+    super(404, code, message);
+  }
+}
+
+/**
+ * The record cannot be sent in any of the formats the request accepts.
+ */
+export class NotAcceptableError extends ApiError {
+  constructor(message: string) {
+    super(406, 'not_acceptable', message);
+  }
+}
+
+/**
+ * The request clashes with the current state of the records, e.g. a duplicate ISBN or a copy that is on loan.
+ */
+export class ConflictError extends ApiError {
+  constructor(message: string, details?: Record<string, unknown>) {
+    super(409, 'conflict', message, details);
+  }
+}
+
+/**
+ * The record has been changed since the client read it.
+ */
+export class PreconditionFailedError extends ApiError {
+  constructor(message: string) {
+    super(412, 'precondition_failed', message);
+  }
+}
+
+/**
+ * The request body is in a format this endpoint does not take.
+ */
+export class UnsupportedMediaTypeError extends ApiError {
+  constructor(message: string) {
+    super(415, 'unsupported_media_type', message);
+  }
+}
+
+/**
+ * The request is well-formed but cannot be processed as sent, e.g. it reuses an Idempotency-Key for a different request.
+ */
+export class UnprocessableContentError extends ApiError {
+  constructor(message: string) {
+    super(422, 'unprocessable_content', message);
+  }
+}
@@ -0,0 +1,132 @@
+import request from 'supertest';
+import app from '../app';
+import { deleteUser } from '../data/storage';
+import { authPolicy } from '../config';
+import { hashPassword, issueToken } from '../services/auth';
+import { resetClock, setClock } from '../services/clock';
+import { newAuthor, newPatron, signIn } from '../testing/fixtures';
+
+afterEach(resetClock);
+
+const me = (authorization?: string) => {
+  const req = request(app).get('/auth/me');
+  return authorization ? req.set('Authorization', authorization) : req;
+};
+
+describe('authentication', () => {
+  it('signs a user in with their password and knows them by the token it issues', async () => {
+    const { user } = signIn('librarian', { passwordHash: await hashPassword('correct horse') });
+
+    const wrong = await request(app).post('/auth/login').send({ username: user.username, password: 'battery staple' });
+    expect(wrong.status).toBe(401);
+
+    const login = await request(app).post('/auth/login').send({ username: user.username, password: 'correct horse' });
+    expect(login.status).toBe(200);
+    const res = await me(`Bearer ${login.body.token}`);
+    expect(res.status).toBe(200);
+    expect(res.body).toMatchObject({ id: user.id, role: 'librarian' });
+    expect(res.body.passwordHash).toBeUndefined();
+  });
+
+  it('asks for credentials with 401 when there are none', async () => {
+    const res = await me();
+
+    expect(res.status).toBe(401);
+    expect(res.headers['www-authenticate']).toBe('Bearer realm="library"');
+  });
+
+  it.each(['Bearer', 'Bearer not-a-token', 'Basic YWRtaW46YWRtaW4=', 'Bearer a.b.c'])(
+    'refuses the Authorization header %p with 401',
+    async authorization => {
+      expect((await me(authorization)).status).toBe(401);
+    }
+  );
+
+  it('refuses an unknown API key with 401', async () => {
+    const res = await request(app).get('/auth/me').set('X-API-Key', 'lib_unknown');
+
+    expect(res.status).toBe(401);
+  });
+
+  it('refuses a token whose payload has been tampered with', async () => {
+    const { auth } = signIn('patron');
+    const [header, payload, signature] = auth.slice('Bearer '.length).split('.');
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    const forged = Buffer.from(JSON.stringify({ ...claims, role: 'admin' })).toString('base64url');
+
+    expect((await me(`Bearer ${header}.${forged}.${signature}`)).status).toBe(401);
+    const [, , otherSignature] = signIn('patron').auth.split('.');
+    expect((await me(`Bearer ${header}.${payload}.${otherSignature}`)).status).toBe(401);
+  });
+
+  it('refuses a token signed with another algorithm', async () => {
+    const { auth } = signIn('patron');
+    const [, payload] = auth.slice('Bearer '.length).split('.');
+    const header = Buffer.from(JSON.stringify({ alg: 'none', typ: 'JWT' })).toString('base64url');
+
+    expect((await me(`Bearer ${header}.${payload}.`)).status).toBe(401);
+  });
+
+  it('refuses a token once it has expired', async () => {
+    const { auth } = signIn('admin');
+    const issuedAt = Date.now();
+
+    setClock(() => new Date(issuedAt + (authPolicy.tokenTtlSeconds - 60) * 1000));
+    expect((await me(auth)).status).toBe(200);
+
+    setClock(() => new Date(issuedAt + (authPolicy.tokenTtlSeconds + 1) * 1000));
+    expect((await me(auth)).status).toBe(401);
+  });
+
+  it('refuses the token of a user who has since been deleted', async () => {
+    const { user } = signIn('admin');
+    const { token } = issueToken(user);
+    deleteUser(user.id);
+
+    expect((await me(`Bearer ${token}`)).status).toBe(401);
+  });
+});
+
+describe('authorization', () => {
+  it('turns a role that is not enough away with 403', async () => {
+    const { auth: patron } = signIn('patron');
+    const { auth: librarian } = signIn('librarian');
+    const { auth: admin } = signIn('admin');
+
+    expect((await request(app).get('/patrons').set('Authorization', patron)).status).toBe(403);
+    expect((await request(app).get('/patrons').set('Authorization', librarian)).status).toBe(200);
+    expect((await request(app).get('/users').set('Authorization', librarian)).status).toBe(403);
+
+    const author = newAuthor();
+    expect((await request(app).delete(`/authors/${author.id}`).set('Authorization', librarian)).status).toBe(403);
+    expect((await request(app).delete(`/authors/${author.id}`).set('Authorization', admin)).status).toBe(204);
+  });
+
+  it('asks anonymous requests for credentials with 401 rather than 403', async () => {
+    expect((await request(app).get('/patrons')).status).toBe(401);
+    expect((await request(app).delete(`/authors/${newAuthor().id}`)).status).toBe(401);
+  });
+
+  it('lets a patron see their own record, loans and fines, but no one else\'s', async () => {
+    const own = newPatron();
+    const other = newPatron();
+    const { auth } = signIn('patron', { patronId: own.id });
+
+    for (const path of ['', '/loans', '/fines']) {
+      expect((await request(app).get(`/patrons/${own.id}${path}`).set('Authorization', auth)).status).toBe(200);
+      expect((await request(app).get(`/patrons/${other.id}${path}`).set('Authorization', auth)).status).toBe(403);
+    }
+  });
+
+  it('gives a patron user not linked to a patron record no patron\'s records', async () => {
+    const { auth } = signIn('patron');
+
+    expect((await request(app).get(`/patrons/${newPatron().id}`).set('Authorization', auth)).status).toBe(403);
+  });
+
+  it('lets librarians see any patron\'s records', async () => {
+    const { auth } = signIn('librarian');
+
+    expect((await request(app).get(`/patrons/${newPatron().id}/loans`).set('Authorization', auth)).status).toBe(200);
+  });
+});
@@ -0,0 +1,110 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { User } from '../models';
+import { roles } from '../models/schemas';
+import { verifyApiKey, verifyToken } from '../services/auth';
+import { currentRequestContext } from '../services/requestContext';
+import { ForbiddenError, UnauthorizedError } from '../errors';
+
+export type Role = typeof roles[number];
+
+/**
+ * Builds the error for a request that needs valid credentials, and challenges the client to send them.
+ *
+ * @param res the response object
+ * @param message what was wrong with the credentials
+ * @returns the error to pass on
+ */
+const unauthorized = (res: Response, message: string): UnauthorizedError => {
+  res.set('WWW-Authenticate', 'Bearer realm="library"');
+  return new UnauthorizedError(message);
+};
+
+/**
+ * Checks whether a user has a role, or a more privileged one.
+ *
+ * @param user the signed-in user
+ * @param role the least privileged role that is allowed
+ * @returns true if the user's role is at least as privileged
+ */
+export const hasRole = (user: User, role: Role): boolean => roles.indexOf(user.role) >= roles.indexOf(role);
+
+/**
+ * Middleware that works out who is making a request from its credentials:
+ * a bearer token issued by POST /auth/login in the Authorization header, or an API key in the X-API-Key header.
+ * The signed-in user is left in `res.locals.user` and in the request context, so that changes can be attributed to them;
+ * requests without credentials carry on anonymously, and the routes that need a user turn them away.
+ * If the credentials are invalid or expired, responds with a 401 status code.
+ *
+ * @param req the request
+ * @param res the response object
+ * @param next the next middleware
+ */
+export const authenticate = (req: Request, res: Response, next: NextFunction): void => {
+  const authorization = req.get('Authorization');
+  const apiKey = req.get('X-API-Key');
+
+  if (authorization) {
+    const [scheme, token] = authorization.split(' ');
+    const user = scheme?.toLowerCase() === 'bearer' && token ? verifyToken(token) : undefined;
+    if (!user) {
+      next(unauthorized(res, 'The bearer token is invalid or has expired'));
+      return;
+    }
+    res.locals.user = user;
+  } else if (apiKey) {
+    const user = verifyApiKey(apiKey);
+    if (!user) {
+      next(unauthorized(res, 'The API key is invalid or has been revoked'));
+      return;
+    }
+    res.locals.user = user;
+  }
+
+  const context = currentRequestContext();
+  if (context) context.user = res.locals.user;
+  next();
+};
+
+/**
+ * Creates middleware that only lets users with at least the given role through.
+ * Responds with a 401 status code if no one is signed in, or a 403 status code if the user's role is not enough.
+ *
+ * @param role the least privileged role that is allowed
+ * @returns the authorization middleware
+ */
+export const requireRole = (role: Role): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const user: User | undefined = res.locals.user;
+    if (!user) {
+      next(unauthorized(res, 'Sign in to do this'));
+      return;
+    }
+    if (!hasRole(user, role)) {
+      next(new ForbiddenError(`This needs the ${role} role or above`));
+      return;
+    }
+    next();
+  };
+
+/**
+ * Creates middleware that lets staff with at least the given role through,
+ * and patrons only when the request concerns their own patron record, such as their own loans or holds.
+ * Responds with a 401 status code if no one is signed in, or a 403 status code otherwise.
+ *
+ * @param ownerOf finds the id of the patron the request concerns, if any
+ * @param role the least privileged role that may act for any patron
+ * @returns the authorization middleware
+ */
+export const requireOwnerOrRole = (ownerOf: (req: Request) => unknown, role: Role = 'librarian'): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const user: User | undefined = res.locals.user;
+    if (!user) {
+      next(unauthorized(res, 'Sign in to do this'));
+      return;
+    }
+    if (!hasRole(user, role) && (!user.patronId || ownerOf(req) !== user.patronId)) {
+      next(new ForbiddenError(`Patrons can only do this for themselves; anyone else needs the ${role} role or above`));
+      return;
+    }
+    next();
+  };
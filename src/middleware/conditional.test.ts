@@ -0,0 +1,58 @@
+import request from 'supertest';
+import app from '../app';
+import { newBook, signIn } from '../testing/fixtures';
+
+const { auth } = signIn('admin');
+
+const get = (path: string) => request(app).get(path).set('Authorization', auth);
+
+const patchTitle = (id: string, etag: string, title: string) => request(app)
+  .patch(`/books/${id}`)
+  .set('Authorization', auth)
+  .set('If-Match', etag)
+  .set('Content-Type', 'application/merge-patch+json')
+  .send(JSON.stringify({ title }));
+
+describe('conditional requests', () => {
+  it('answers a GET with 304 while the ETag still holds, and with the record once it has changed', async () => {
+    const book = newBook();
+    const { headers } = await get(`/books/${book.id}`).expect(200);
+
+    await get(`/books/${book.id}`).set('If-None-Match', headers.etag).expect(304);
+
+    await patchTitle(book.id, headers.etag, 'Changed').expect(200);
+    const res = await get(`/books/${book.id}`).set('If-None-Match', headers.etag);
+    expect(res.status).toBe(200);
+    expect(res.body.title).toBe('Changed');
+  });
+
+  it('gives an expanded response an ETag of its own', async () => {
+    const book = newBook();
+    const plain = await get(`/books/${book.id}`);
+    const expanded = await get(`/books/${book.id}?expand=authors`);
+
+    expect(expanded.headers.etag).not.toBe(plain.headers.etag);
+    await get(`/books/${book.id}?expand=authors`).set('If-None-Match', expanded.headers.etag).expect(304);
+  });
+
+  it('takes the ETag of an expanded response as a precondition for a write', async () => {
+    const book = newBook();
+    const { headers } = await get(`/books/${book.id}?expand=authors,genres`);
+    expect(headers.etag).toMatch(/^"\d+-.+"$/);
+
+    await patchTitle(book.id, headers.etag, 'First').expect(200);
+  });
+
+  it('refuses a write with 412 once the record has changed since it was read', async () => {
+    const book = newBook();
+    const plain = await get(`/books/${book.id}`);
+    const expanded = await get(`/books/${book.id}?expand=authors`);
+    await patchTitle(book.id, plain.headers.etag, 'First').expect(200);
+
+    for (const etag of [plain.headers.etag, expanded.headers.etag]) {
+      const res = await patchTitle(book.id, etag, 'Second');
+      expect(res.status).toBe(412);
+      expect(res.headers.etag).not.toBe(plain.headers.etag);
+    }
+  });
+});
@@ -0,0 +1,96 @@
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { Versioned } from '../models';
+import { PreconditionFailedError } from '../errors';
+
+/**
+ * Builds the strong ETag of a record from its version.
+ * A response that inlines other records as well gets a distinct ETag, since the inlined records change independently.
+ *
+ * @param record the record
+ * @param expansion the other records inlined in the response, if any
+ * @returns the quoted ETag
+ */
+export const etagOf = (record: Versioned, expansion: object = {}): string => {
+  const version = String(record.version ?? 0);
+  if (Object.keys(expansion).length === 0) {
+    return `"${version}"`;
+  }
+  const digest = createHash('sha1').update(JSON.stringify(expansion)).digest('base64url').slice(0, 16);
+  return `"${version}-${digest}"`;
+};
+
+/**
+ * Checks whether an If-Match or If-None-Match header lists an ETag.
+ *
+ * @param header the value of the header: `*` or a comma-separated list of ETags
+ * @param etag the current ETag
+ * @param weak whether to use weak comparison, which ignores the W/ prefix, as If-None-Match does
+ * @returns true if the header matches the ETag
+ */
+const headerMatches = (header: string, etag: string, weak: boolean): boolean =>
+  header.trim() === '*' || header.split(',')
+    .map(tag => tag.trim())
+    .some(tag => (weak ? tag.replace(/^W\//, '') : tag) === etag);
+
+/**
+ * Reduces an ETag to the part that names the version of the record, dropping the digest of any inlined records.
+ * A write changes only the record itself, so an ETag read from an expanded response is as good a precondition as the plain one.
+ *
+ * @param tag the quoted ETag
+ * @returns the quoted ETag of the record alone
+ */
+const recordEtagOf = (tag: string): string => tag.replace(/^"([^"-]*)-[^"]*"$/, '"$1"');
+
+/**
+ * Sends a single record with its ETag.
+ * A GET whose If-None-Match header lists the current ETag gets an empty 304 response instead.
+ *
+ * @param req the request
+ * @param res the response object to send the record, with its status already set if it is not 200
+ * @param record the record to send
+ * @param expansion other records to inline in the response
+ */
+export const sendRecord = (req: Request, res: Response, record: Versioned, expansion: object = {}): void => {
+  const etag = etagOf(record, expansion);
+  res.set('ETag', etag);
+
+  const ifNoneMatch = req.get('If-None-Match');
+  if ((req.method === 'GET' || req.method === 'HEAD') && ifNoneMatch && headerMatches(ifNoneMatch, etag, true)) {
+    res.status(304).end();
+    return;
+  }
+  res.json({ ...record, ...expansion });
+};
+
+/**
+ * Creates middleware that makes a write conditional on the If-Match header, for optimistic concurrency.
+ * When the header is present and does not list the current ETag of the record named by the route parameter,
+ * counting the ETag of an expanded response of the same version,
+ * responds with a 412 status code so that the client can re-read the record instead of overwriting someone else's change.
+ * Requests without the header, and requests for records that do not exist, are passed on unchanged.
+ *
+ * @param find looks up the record by its id
+ * @param label the name of the kind of record, used in the error message
+ * @param param the route parameter holding the id of the record
+ * @returns the If-Match middleware
+ */
+export const ifMatch = (
+  find: (id: string) => Versioned | undefined,
+  label: string,
+  param = 'id'
+): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const header = req.get('If-Match');
+    const record = header ? find(req.params[param]) : undefined;
+    if (header && record) {
+      const etag = etagOf(record);
+      const listed = header.split(',').map(tag => recordEtagOf(tag.trim())).join(',');
+      if (!headerMatches(listed, etag, false)) {
+        res.set('ETag', etag);
+        next(new PreconditionFailedError(`The ${label} has been changed since it was read; its current ETag is ${etag}`));
+        return;
+      }
+    }
+    next();
+  };
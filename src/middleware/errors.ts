@@ -0,0 +1,83 @@
+import { STATUS_CODES } from 'http';
+import { Request, Response, NextFunction } from 'express';
+import { ApiError, ErrorCode, NotFoundError } from '../errors';
+
+/**
+ * The media type of error responses (RFC 7807).
+ */
+export const problemMediaType = 'application/problem+json';
+
+/**
+ * The machine-readable code of each client error status that Express and body-parser report on their own.
+ */
+const httpErrorCodes: Record<number, ErrorCode> = {
+  400: 'bad_request',
+  413: 'payload_too_large',
+  415: 'unsupported_media_type',
+};
+
+/**
+ * Turns anything a route passed on as an error into an ApiError.
+ * Request bodies that body-parser could not read become client errors, and anything else is a fault of the server.
+ *
+ * @param err what was thrown or passed to next
+ * @returns the error to report
+ */
+const toApiError = (err: unknown): ApiError => {
+  if (err instanceof ApiError) return err;
+
+  const { status, type, expose, message } = (err ?? {}) as { status?: number; type?: string; expose?: boolean; message?: string };
+  if (type === 'entity.parse.failed') {
+    return new ApiError(400, 'malformed_body', 'The request body is not valid JSON');
+  }
+  if (expose && status !== undefined && status >= 400 && status < 500) {
+    return new ApiError(status, httpErrorCodes[status] ?? 'bad_request', message ?? STATUS_CODES[status] ?? 'Bad request');
+  }
+  return new ApiError(500, 'internal_error', 'Something went wrong while handling the request');
+};
+
+/**
+ * Middleware for requests no route matched, which responds with a 404 problem rather than Express's HTML page.
+ *
+ * @param req the request
+ * @param _res the response object
+ * @param next the next middleware
+ */
+export const notFoundRoute = (req: Request, _res: Response, next: NextFunction): void => {
+  next(new NotFoundError(`There is no ${req.method} ${req.path} endpoint`, 'route_not_found'));
+};
+
+/**
+ * Error handling middleware that reports every error as an RFC 7807 problem detail:
+ * the status code and its title, the message as detail, a machine-readable code, the path that was requested,
+ * the ID of the request for support, and any further members of the error, such as the invalid fields.
+ * Errors that are not the client's fault are logged, and their message is not sent to the client.
+ * If the response has already started, e.g. while streaming an export, the connection is closed instead.
+ *
+ * @param err what was thrown or passed to next
+ * @param req the request
+ * @param res the response object
+ * @param next the next middleware
+ */
+export const handleErrors = (err: unknown, req: Request, res: Response, next: NextFunction): void => {
+  if (res.headersSent) {
+    next(err);
+    return;
+  }
+
+  const error = toApiError(err);
+  if (error.status >= 500) {
+    console.error(`Request ${res.locals.requestId} failed:`, err);
+  }
+
+  res.status(error.status).type(problemMediaType).json({
+    type: 'about:blank',
+    title: STATUS_CODES[error.status],
+    status: error.status,
+    detail: error.message,
+    code: error.code,
+    instance: req.originalUrl,
+    requestId: res.locals.requestId,
+    ...error.details,
+  });
+};
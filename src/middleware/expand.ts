@@ -0,0 +1,30 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ValidationError } from '../errors';
+
+/**
+ * Creates middleware that parses the comma-separated `expand` query parameter of a request.
+ * If it names a reference that cannot be expanded, responds with a 400 status code;
+ * otherwise the requested expansions are left in `res.locals.expand`, empty if none were asked for.
+ *
+ * @param allowed the references that can be expanded
+ * @returns the expand parsing middleware
+ */
+export const parseExpand = (allowed: readonly string[]): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const raw = req.query.expand;
+    const expand = (Array.isArray(raw) ? raw.join(',') : String(raw ?? ''))
+      .split(',')
+      .map(name => name.trim())
+      .filter(name => name.length > 0);
+
+    const errors = expand
+      .filter(name => !allowed.includes(name))
+      .map(name => ({ field: 'expand', message: `Cannot expand ${name}; expected one of: ${allowed.join(', ')}` }));
+    if (errors.length > 0) {
+      next(new ValidationError(errors));
+      return;
+    }
+
+    res.locals.expand = expand;
+    next();
+  };
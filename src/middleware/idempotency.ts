@@ -0,0 +1,89 @@
+import { createHash } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { findRememberedResponse, rememberResponse } from '../services/idempotency';
+import { BadRequestError, ConflictError, UnprocessableContentError } from '../errors';
+
+/**
+ * The response headers kept with a response, and sent again when it is replayed.
+ */
+const replayedHeaders = ['Content-Type', 'Location', 'ETag'];
+
+/**
+ * The requests being handled whose responses will be kept, by the id their response will be kept under.
+ */
+const inProgress = new Set<string>();
+
+/**
+ * Digests values into a short, fixed-length string.
+ *
+ * @param values the values to digest
+ * @returns the SHA-256 digest of the values, in base64url
+ */
+const digest = (...values: unknown[]): string =>
+  createHash('sha256').update(JSON.stringify(values)).digest('base64url');
+
+/**
+ * Middleware that makes POST requests safe to retry: a POST sent with an Idempotency-Key header
+ * gets the same response every time it is sent again with the same key, by the same user, to the same URL,
+ * instead of creating another record. Successful responses are kept for as long as the idempotency policy says;
+ * failed requests can be retried with the same key, since they changed nothing.
+ * A replayed response has an Idempotent-Replayed: true header.
+ * Reusing a key for a request with a different body gets a 422 status code,
+ * and retrying a request while it is still being handled gets a 409 status code.
+ * Responses marked Cache-Control: no-store, such as new bearer tokens and API keys, are not kept.
+ *
+ * @param req the request, with the optional Idempotency-Key header
+ * @param res the response object
+ * @param next the next middleware
+ * @throws BadRequestError if the key is empty, too long or not printable ASCII
+ * @throws UnprocessableContentError if the key was used for a request with a different body
+ * @throws ConflictError if a request with the key is still being handled
+ */
+export const idempotentPost = (req: Request, res: Response, next: NextFunction): void => {
+  const header = req.get('Idempotency-Key');
+  if (req.method !== 'POST' || header === undefined) {
+    next();
+    return;
+  }
+
+  const key = header.trim().replace(/^"(.*)"$/, '$1');
+  if (!/^[\x21-\x7e]{1,255}$/.test(key)) {
+    throw new BadRequestError('Idempotency-Key must be 1 to 255 printable ASCII characters without spaces');
+  }
+
+  const id = digest(key, res.locals.user?.id ?? null, req.originalUrl);
+  const fingerprint = digest(req.get('Content-Type') ?? null, req.get('Content-Length') ?? null, req.body ?? null);
+  const remembered = findRememberedResponse(id);
+  if (remembered) {
+    if (remembered.fingerprint !== fingerprint) {
+      throw new UnprocessableContentError('This Idempotency-Key has already been used for a different request');
+    }
+    res.status(remembered.status).set(remembered.headers).set('Idempotent-Replayed', 'true').send(remembered.body);
+    return;
+  }
+  if (inProgress.has(id)) {
+    throw new ConflictError('A request with this Idempotency-Key is still being handled; retry it once it is done');
+  }
+
+  inProgress.add(id);
+  let body: unknown;
+  const send = res.send.bind(res);
+  res.send = ((data?: unknown) => {
+    body = data;
+    return send(data);
+  }) as Response['send'];
+
+  res.on('finish', () => {
+    inProgress.delete(id);
+    const cacheControl = res.get('Cache-Control') ?? '';
+    const kept = body === undefined || typeof body === 'string';
+    if (res.statusCode >= 200 && res.statusCode < 300 && kept && !/no-store/i.test(cacheControl)) {
+      const headers = Object.fromEntries(replayedHeaders
+        .filter(name => res.get(name) !== undefined)
+        .map(name => [name, String(res.get(name))]));
+      rememberResponse({ id, fingerprint, status: res.statusCode, headers, body: (body as string | undefined) ?? '' });
+    }
+  });
+  res.on('close', () => inProgress.delete(id));
+  next();
+};
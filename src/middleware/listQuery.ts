@@ -0,0 +1,190 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { FieldError, ModelSchema } from '../models/schema';
+import { listPolicy } from '../config';
+import { ValidationError } from '../errors';
+
+/**
+ * One key of the sort order of a list, parsed from `sort=field` or `sort=-field`.
+ */
+export interface SortKey {
+  field: string;
+  descending: boolean;
+}
+
+/**
+ * The paging, ordering and field selection asked for by the query string of a list request.
+ */
+export interface ListQuery {
+  limit: number;
+  page: number;
+  sort: SortKey[];
+  fields?: string[];
+}
+
+const collator = new Intl.Collator('en', { numeric: true, sensitivity: 'base' });
+
+/**
+ * Reads a comma-separated query parameter, which may also have been repeated.
+ *
+ * @param value the raw query parameter
+ * @returns the non-empty items of the parameter, or undefined if it was not given
+ */
+const listParameter = (value: unknown): string[] | undefined => {
+  if (value === undefined) return undefined;
+  const raw = Array.isArray(value) ? value.join(',') : String(value);
+  return raw.split(',').map(item => item.trim()).filter(item => item.length > 0);
+};
+
+/**
+ * Reads a positive integer query parameter.
+ *
+ * @param name the name of the parameter, used in error messages
+ * @param value the raw query parameter
+ * @param errors the list to add a problem to if the parameter is malformed
+ * @returns the parsed integer, or undefined if the parameter was not given or is malformed
+ */
+const integerParameter = (name: string, value: unknown, errors: FieldError[]): number | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string' || !/^\d+$/.test(value) || Number(value) < 1) {
+    errors.push({ field: name, message: `${name} must be a positive integer` });
+    return undefined;
+  }
+  return Number(value);
+};
+
+/**
+ * Reads the `limit` and `page` query parameters of a request that returns its results a page at a time.
+ *
+ * @param query the parsed query string of the request
+ * @param errors the list to add problems with the parameters to
+ * @param defaultLimit the page size to use when the request does not ask for one
+ * @returns the page size and the page, counting from 1
+ */
+export const parsePaging = (
+  query: Request['query'],
+  errors: FieldError[],
+  defaultLimit: number = listPolicy.defaultLimit
+): Pick<ListQuery, 'limit' | 'page'> => {
+  const limit = integerParameter('limit', query.limit, errors) ?? defaultLimit;
+  if (limit > listPolicy.maxLimit) {
+    errors.push({ field: 'limit', message: `limit must be at most ${listPolicy.maxLimit}` });
+  }
+  const page = integerParameter('page', query.page, errors) ?? 1;
+  return { limit, page };
+};
+
+/**
+ * Creates middleware that parses the `limit`, `page`, `sort` and `fields` query parameters of a list request.
+ * Only top-level string and integer fields of the model schema can be sorted on, and only fields of the schema can be selected.
+ * If a parameter is invalid, responds with a 400 status code and one error per offending parameter;
+ * otherwise the parsed query is left in `res.locals.listQuery` for {@link sendList}.
+ *
+ * @param schema the model schema of the listed records
+ * @returns the query parsing middleware
+ */
+export const parseListQuery = (schema: ModelSchema): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const errors: FieldError[] = [];
+
+    const { limit, page } = parsePaging(req.query, errors);
+
+    const sort = (listParameter(req.query.sort) ?? []).map(key => ({
+      field: key.replace(/^[-+]/, ''),
+      descending: key.startsWith('-'),
+    }));
+    sort
+      .filter(({ field }) => {
+        const type = schema.properties[field]?.type;
+        return type !== 'string' && type !== 'integer';
+      })
+      .forEach(({ field }) => errors.push({ field: 'sort', message: `Cannot sort on ${field}` }));
+
+    const fields = listParameter(req.query.fields);
+    fields
+      ?.filter(field => !schema.properties[field])
+      .forEach(field => errors.push({ field: 'fields', message: `${schema.name} has no field ${field}` }));
+
+    if (errors.length > 0) {
+      next(new ValidationError(errors));
+      return;
+    }
+
+    const listQuery: ListQuery = { limit, page, sort, fields };
+    res.locals.listQuery = listQuery;
+    next();
+  };
+
+/**
+ * Compares two field values for sorting. Missing values sort after every present value, in either direction.
+ *
+ * @param a the first value
+ * @param b the second value
+ * @param descending whether the order is reversed
+ * @returns a negative number if a sorts first, a positive number if b sorts first, otherwise 0
+ */
+const compareValues = (a: unknown, b: unknown, descending: boolean): number => {
+  if (a === undefined || a === null) return b === undefined || b === null ? 0 : 1;
+  if (b === undefined || b === null) return -1;
+  const order = typeof a === 'number' && typeof b === 'number' ? a - b : collator.compare(String(a), String(b));
+  return descending ? -order : order;
+};
+
+/**
+ * Builds the URL of another page of the current list request, keeping its other query parameters.
+ *
+ * @param req the list request
+ * @param page the page to link to
+ * @returns the absolute URL of the page
+ */
+const pageUrl = (req: Request, page: number): string => {
+  const url = new URL(req.originalUrl, `${req.protocol}://${req.get('host')}`);
+  url.searchParams.set('page', String(page));
+  return url.toString();
+};
+
+/**
+ * Sends one page of a list, sorted and with only the selected fields, as parsed by {@link parseListQuery}.
+ * The total number of records is sent in the X-Total-Count header,
+ * and links to the first, previous, next and last pages in the Link header.
+ * The id of each record is always included, even when it is not among the selected fields.
+ * If an expand function is given, the properties it returns are added to each record of the page after the fields are selected.
+ *
+ * @param req the list request
+ * @param res the response object to send the page of records
+ * @param items every record matching the request's filters
+ * @param expand looks up the referenced records to inline in a record
+ */
+export const sendList = <T extends object>(
+  req: Request,
+  res: Response,
+  items: T[],
+  expand?: (item: T) => object
+): void => {
+  const { limit, page, sort, fields }: ListQuery = res.locals.listQuery;
+
+  const sorted = sort.length === 0 ? items : [...items].sort((a, b) => {
+    for (const { field, descending } of sort) {
+      const order = compareValues((a as Record<string, unknown>)[field], (b as Record<string, unknown>)[field], descending);
+      if (order !== 0) return order;
+    }
+    return 0;
+  });
+
+  const pageItems = sorted.slice((page - 1) * limit, page * limit);
+  const selected = pageItems.map(item => {
+    const projected = fields
+      ? Object.fromEntries(Object.entries(item).filter(([name]) => name === 'id' || fields.includes(name)))
+      : item;
+    return expand ? { ...projected, ...expand(item) } : projected;
+  });
+
+  const lastPage = Math.max(1, Math.ceil(items.length / limit));
+  const links = [`<${pageUrl(req, 1)}>; rel="first"`];
+  if (page > 1) links.push(`<${pageUrl(req, Math.min(page - 1, lastPage))}>; rel="prev"`);
+  if (page < lastPage) links.push(`<${pageUrl(req, page + 1)}>; rel="next"`);
+  links.push(`<${pageUrl(req, lastPage)}>; rel="last"`);
+
+  res.set('X-Total-Count', String(items.length));
+  res.set('Link', links.join(', '));
+  res.json(selected);
+};
@@ -0,0 +1,92 @@
+import request from 'supertest';
+import app from '../app';
+import { findBookById, findPatronById } from '../data/storage';
+import { applyMergePatch } from './mergePatch';
+import { newAuthor, newBook, newPatron, signIn } from '../testing/fixtures';
+
+const { auth } = signIn('admin');
+
+const patch = (path: string, body: unknown, contentType = 'application/merge-patch+json') => request(app)
+  .patch(path)
+  .set('Authorization', auth)
+  .set('Content-Type', contentType)
+  .send(JSON.stringify(body));
+
+describe('applyMergePatch', () => {
+  it('replaces the members the patch has and leaves the others alone', () => {
+    expect(applyMergePatch({ a: 'b', c: 'd' }, { a: 'z' })).toEqual({ a: 'z', c: 'd' });
+  });
+
+  it('removes a member whose value in the patch is null', () => {
+    expect(applyMergePatch({ a: 'b', c: 'd' }, { a: null })).toEqual({ c: 'd' });
+    expect(applyMergePatch({ a: 'b' }, { missing: null })).toEqual({ a: 'b' });
+  });
+
+  it('merges nested objects member by member', () => {
+    const target = { title: 'Goodbye!', author: { givenName: 'John', familyName: 'Doe' } };
+
+    expect(applyMergePatch(target, { author: { familyName: null, nickName: 'JD' } }))
+      .toEqual({ title: 'Goodbye!', author: { givenName: 'John', nickName: 'JD' } });
+    expect(applyMergePatch({ a: 'b' }, { c: { d: 'e', f: null } })).toEqual({ a: 'b', c: { d: 'e' } });
+  });
+
+  it('replaces arrays whole rather than merging them', () => {
+    expect(applyMergePatch({ tags: ['example', 'sample'] }, { tags: ['example'] })).toEqual({ tags: ['example'] });
+    expect(applyMergePatch({ a: [{ b: 'c' }] }, { a: [1] })).toEqual({ a: [1] });
+    expect(applyMergePatch({ a: { b: 'c' } }, { a: ['c'] })).toEqual({ a: ['c'] });
+  });
+
+  it('replaces the target with a patch that is not an object', () => {
+    expect(applyMergePatch({ a: 'b' }, ['c'])).toEqual(['c']);
+    expect(applyMergePatch({ a: 'b' }, 'bar')).toBe('bar');
+    expect(applyMergePatch({ a: 'b' }, null)).toBeNull();
+    expect(applyMergePatch(['a', 'b'], { a: 'c' })).toEqual({ a: 'c' });
+  });
+
+  it('does not modify the target', () => {
+    const target = { a: 'b', nested: { c: 'd' } };
+
+    applyMergePatch(target, { a: null, nested: { c: 'e' } });
+
+    expect(target).toEqual({ a: 'b', nested: { c: 'd' } });
+  });
+});
+
+describe('PATCH requests', () => {
+  it('removes a field sent as null', async () => {
+    const patron = newPatron({ loanLimit: 2 });
+
+    const res = await patch(`/patrons/${patron.id}`, { loanLimit: null });
+
+    expect(res.status).toBe(200);
+    expect(res.body.loanLimit).toBeUndefined();
+    expect(findPatronById(patron.id)).toMatchObject({ firstName: patron.firstName, email: patron.email });
+    expect(findPatronById(patron.id)?.loanLimit).toBeUndefined();
+  });
+
+  it('replaces an array field rather than adding to it', async () => {
+    const book = newBook();
+    const author = newAuthor();
+
+    const res = await patch(`/books/${book.id}`, { authorIds: [author.id] });
+
+    expect(res.status).toBe(200);
+    expect(findBookById(book.id)?.authorIds).toEqual([author.id]);
+  });
+
+  it('refuses to remove a required field', async () => {
+    const patron = newPatron();
+
+    const res = await patch(`/patrons/${patron.id}`, { email: null });
+
+    expect(res.status).toBe(400);
+    expect(findPatronById(patron.id)?.email).toBe(patron.email);
+  });
+
+  it('refuses a patch that is not JSON with 415, and a patch of a missing record with 404', async () => {
+    const patron = newPatron();
+
+    expect((await patch(`/patrons/${patron.id}`, { loanLimit: 1 }, 'text/plain')).status).toBe(415);
+    expect((await patch('/patrons/missing', { loanLimit: 1 })).status).toBe(404);
+  });
+});
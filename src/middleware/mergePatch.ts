@@ -0,0 +1,62 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { NotFoundError, UnsupportedMediaTypeError } from '../errors';
+
+/**
+ * The media types a merge patch may be sent as.
+ */
+export const mergePatchMediaTypes = ['application/merge-patch+json', 'application/json'];
+
+/**
+ * Applies a JSON Merge Patch (RFC 7396) to a value.
+ * Members of the patch replace the same members of the target, recursively for objects;
+ * a member whose value is null removes that member, and members missing from the patch are left alone.
+ * A patch that is not an object replaces the target entirely.
+ *
+ * @param target the value to patch; it is not modified
+ * @param patch the merge patch
+ * @returns the patched value
+ */
+export const applyMergePatch = (target: unknown, patch: unknown): unknown => {
+  if (typeof patch !== 'object' || patch === null || Array.isArray(patch)) {
+    return patch;
+  }
+
+  const result: Record<string, unknown> = typeof target === 'object' && target !== null && !Array.isArray(target)
+    ? { ...target as Record<string, unknown> }
+    : {};
+  Object.entries(patch).forEach(([name, value]) => {
+    if (value === null) {
+      delete result[name];
+    } else {
+      result[name] = applyMergePatch(result[name], value);
+    }
+  });
+  return result;
+};
+
+/**
+ * Creates middleware that turns a PATCH request into the equivalent full update.
+ * The request body is applied as a merge patch to the record named by the `id` route parameter,
+ * and the patched record replaces the body, so the validation and controller of the PUT route can handle it.
+ * Responds with a 415 status code if the body is not JSON, or a 404 status code if the record does not exist.
+ *
+ * @param find looks up the record to patch by its id
+ * @param notFoundMessage the message of the 404 response
+ * @returns the merge patch middleware
+ */
+export const mergePatch = (find: (id: string) => object | undefined, notFoundMessage: string): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    if (!req.is(mergePatchMediaTypes)) {
+      next(new UnsupportedMediaTypeError(`A patch must be sent as ${mergePatchMediaTypes.join(' or ')}`));
+      return;
+    }
+
+    const existing = find(req.params.id);
+    if (!existing) {
+      next(new NotFoundError(notFoundMessage));
+      return;
+    }
+
+    req.body = applyMergePatch(existing, req.body);
+    next();
+  };
@@ -0,0 +1,21 @@
+import { randomUUID } from 'crypto';
+import { Request, Response, NextFunction } from 'express';
+import { runInRequestContext } from '../services/requestContext';
+
+/**
+ * Middleware that gives every request an ID and handles the rest of the request within its request context.
+ * An X-Request-Id header sent by the client, e.g. by a proxy, is kept if it is reasonable; otherwise a UUID is made up.
+ * The ID is sent back in the X-Request-Id response header and left in `res.locals.requestId`.
+ *
+ * @param req the request
+ * @param res the response object
+ * @param next the next middleware
+ */
+export const assignRequestId = (req: Request, res: Response, next: NextFunction): void => {
+  const incoming = req.get('X-Request-Id');
+  const requestId = incoming && /^[\w.:-]{1,128}$/.test(incoming) ? incoming : randomUUID();
+
+  res.set('X-Request-Id', requestId);
+  res.locals.requestId = requestId;
+  runInRequestContext({ requestId }, next);
+};
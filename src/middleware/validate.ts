@@ -0,0 +1,20 @@
+import { Request, Response, NextFunction, RequestHandler } from 'express';
+import { ModelSchema, validate } from '../models/schema';
+import { ValidationError } from '../errors';
+
+/**
+ * Creates middleware that validates the request body against a model schema before the controller runs.
+ * If the body is invalid, responds with a 400 status code and one error per offending field.
+ *
+ * @param schema the model schema the request body must satisfy
+ * @returns the validation middleware
+ */
+export const validateBody = (schema: ModelSchema): RequestHandler =>
+  (req: Request, res: Response, next: NextFunction): void => {
+    const errors = validate(schema, req.body);
+    if (errors.length > 0) {
+      next(new ValidationError(errors));
+      return;
+    }
+    next();
+  };
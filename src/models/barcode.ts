@@ -0,0 +1,70 @@
+/**
+ * Validation and normalization of the identifiers printed or embedded on book copies:
+ * barcodes, which end in a check digit so that misreads are caught when they are scanned,
+ * and the IDs of RFID tags.
+ */
+
+/**
+ * Removes the spaces and hyphens a barcode may be written with.
+ *
+ * @param value the barcode as written or scanned
+ * @returns the barcode characters, upper-cased
+ */
+const compact = (value: string): string => value.replace(/[\s-]/g, '').toUpperCase();
+
+/**
+ * Computes the Luhn (mod 10) check digit of the characters a barcode starts with.
+ * Letters count as their base-36 values (A is 10, Z is 35), as in CUSIP,
+ * so all-digit barcodes get the usual Luhn check digit.
+ *
+ * @param payload the upper-case letters and digits before the check digit
+ * @returns the check digit
+ */
+export const barcodeCheckDigit = (payload: string): string => {
+  const digits = payload.split('').map(char => Number.parseInt(char, 36)).join('');
+  const sum = digits.split('').reverse().reduce((total, char, index) => {
+    const doubled = Number(char) * (index % 2 === 0 ? 2 : 1);
+    return total + (doubled > 9 ? doubled - 9 : doubled);
+  }, 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+/**
+ * Converts a barcode to the form it is stored in: without spaces or hyphens, upper-cased.
+ *
+ * @param value the barcode as written or scanned
+ * @returns the barcode, or undefined if it is not letters and digits ending in a correct check digit
+ */
+export const normalizeBarcode = (value: string): string | undefined => {
+  const barcode = compact(value);
+  if (!/^[0-9A-Z]{3,31}\d$/.test(barcode)) return undefined;
+  return barcodeCheckDigit(barcode.slice(0, -1)) === barcode.slice(-1) ? barcode : undefined;
+};
+
+/**
+ * Checks whether a value is a valid barcode, with or without spaces and hyphens.
+ *
+ * @param value the barcode as written or scanned
+ * @returns true if the value is a valid barcode
+ */
+export const isValidBarcode = (value: string): boolean => normalizeBarcode(value) !== undefined;
+
+/**
+ * Converts the ID of an RFID tag to the form it is stored in: hexadecimal digits without separators, upper-cased.
+ * Tags are read as 8 to 32 bytes, e.g. the 8-byte UID of an ISO 15693 tag or the 12-byte EPC of a Gen2 tag.
+ *
+ * @param value the tag ID as read, optionally with spaces, hyphens or colons between the bytes
+ * @returns the tag ID, or undefined if it is not 8 to 32 bytes of hexadecimal
+ */
+export const normalizeRfidTag = (value: string): string | undefined => {
+  const tag = value.replace(/[\s:-]/g, '').toUpperCase();
+  return /^([0-9A-F]{2}){8,32}$/.test(tag) ? tag : undefined;
+};
+
+/**
+ * Checks whether a value is a valid RFID tag ID.
+ *
+ * @param value the tag ID as read
+ * @returns true if the value is a valid tag ID
+ */
+export const isValidRfidTag = (value: string): boolean => normalizeRfidTag(value) !== undefined;
@@ -1,30 +1,264 @@
+import { alternateNameKinds, auditActions, bookCopyStatuses, roles, transferKinds } from './schemas';
+
+/**
+ * The version number and last write time that storage keeps on every record.
+ */
+export interface Versioned {
+  version?: number;
+  updatedAt?: string;
+}
+
+/**
+ * A record that is moved to the trash when it is deleted, so that it can be restored until the trash is purged.
+ * deletedAt is when the record was deleted, and deletedWith is the id of the record whose deletion took this one with it,
+ * such as the book of a copy, so that they are restored together.
+ */
+export interface Deletable {
+  deletedAt?: string;
+  deletedWith?: string;
+}
+
 // Data Models
-export interface Author {
+
+/**
+ * Another name an author is known by.
+ */
+export interface AlternateName {
+  name: string;
+  kind: typeof alternateNameKinds[number];
+}
+
+/**
+ * An author. birthDate and deathDate are partial dates, such as 1564-04-23, 1564 or 1564~ (circa 1564).
+ * An author who published under a pseudonym can have a record for the pseudonym as well,
+ * whose canonicalAuthorId is the id of the author's own record.
+ */
+export interface Author extends Versioned, Deletable {
   id: string;
   firstName: string;
   lastName?: string;
+  sortName: string;
   birthDate: string;
   deathDate?: string;
+  alternateNames?: AlternateName[];
+  canonicalAuthorId?: string;
 }
 
-export interface Genre {
+export interface Genre extends Versioned, Deletable {
   id: string;
   name: string;
 }
 
-export interface BookCopy {
+export type BookCopyStatus = typeof bookCopyStatuses[number];
+
+/**
+ * A copy of a book. branchId is the branch the copy belongs to, and currentBranchId the branch it is at,
+ * which differs while it is lent to another branch and is undefined while it is in transit.
+ */
+export interface BookCopy extends Versioned, Deletable {
   id: string;
   bookId: string;
   imprint: string;
-  status: 'available' | 'unavailable' | 'can be checkout' | 'checked out';
+  status: BookCopyStatus;
+  branchId?: string;
+  currentBranchId?: string;
+  shelfLocation?: string;
+  barcode?: string;
+  rfidTag?: string;
   dueBackDate?: string;
+  patronId?: string;
+  statusReason?: string;
 }
 
-export interface Book {
+/**
+ * A branch of the library, where copies are shelved and holds are picked up.
+ */
+export interface Branch extends Versioned {
+  id: string;
+  code: string;
+  name: string;
+  address?: string;
+}
+
+/**
+ * The move of a copy from one branch to another: requested, shipped, and received at the other end.
+ * A permanent transfer moves the copy's home branch as well; a temporary one only lends the copy to the other branch,
+ * e.g. to be picked up there by the patron whose hold it is for.
+ */
+export interface Transfer extends Versioned {
+  id: string;
+  copyId: string;
+  fromBranchId: string;
+  toBranchId: string;
+  kind: typeof transferKinds[number];
+  status: 'requested' | 'shipped' | 'received' | 'cancelled';
+  holdId?: string;
+  requestedAt: string;
+  shippedAt?: string;
+  receivedAt?: string;
+  cancelledAt?: string;
+}
+
+/**
+ * One step in the lifecycle of a book copy, kept so that the history of the copy can be traced.
+ * from is undefined for the status a copy was created in.
+ */
+export interface CopyTransition extends Versioned {
+  id: string;
+  copyId: string;
+  from?: BookCopyStatus;
+  to: BookCopyStatus;
+  at: string;
+  reason?: string;
+  actorId?: string;
+  requestId?: string;
+}
+
+export interface Book extends Versioned, Deletable {
   id: string;
   title: string;
   authorIds: string[];
   genreIds: string[];
   isbn: string;
+  isbnDisplay: string;
   summary: string;
 }
+
+export interface Patron extends Versioned, Deletable {
+  id: string;
+  firstName: string;
+  lastName?: string;
+  email: string;
+  loanLimit?: number;
+}
+
+export interface Loan extends Versioned {
+  id: string;
+  copyId: string;
+  patronId: string;
+  checkedOutAt: string;
+  dueAt: string;
+  returnedAt?: string;
+  renewals: number;
+}
+
+export interface Hold extends Versioned {
+  id: string;
+  bookId: string;
+  patronId: string;
+  placedAt: string;
+  status: 'waiting' | 'in-transit' | 'ready' | 'fulfilled' | 'cancelled' | 'expired';
+  pickupBranchId?: string;
+  copyId?: string;
+  pickupExpiresAt?: string;
+}
+
+export interface Fine extends Versioned {
+  id: string;
+  patronId: string;
+  copyId: string;
+  loanId: string;
+  daysOverdue: number;
+  amountCents: number;
+  paidCents: number;
+  status: 'open' | 'paid' | 'waived';
+  createdAt: string;
+  waiverReason?: string;
+}
+
+/**
+ * One field of a MARC 21 record.
+ * Control fields (tags 001 to 009) have a value; data fields have two indicators and a list of subfields.
+ */
+export interface MarcField {
+  tag: string;
+  value?: string;
+  indicators?: string;
+  subfields?: { code: string; value: string }[];
+}
+
+/**
+ * The MARC 21 record a book was imported from, kept under the book's id
+ * so that the fields the catalog does not map survive being exported again.
+ */
+export interface MarcRecord extends Versioned {
+  id: string;
+  leader: string;
+  fields: MarcField[];
+}
+
+/**
+ * Someone who can sign in to the API.
+ * Patrons who sign in are linked to their patron record, so they can see their own loans, fines and holds.
+ */
+export interface User extends Versioned {
+  id: string;
+  username: string;
+  passwordHash: string;
+  role: typeof roles[number];
+  patronId?: string;
+  createdAt: string;
+}
+
+/**
+ * A key that lets a program call the API as the user who created it.
+ * Only a hash of the key is stored; the key itself is shown once, when it is created.
+ */
+export interface ApiKey extends Versioned {
+  id: string;
+  userId: string;
+  name: string;
+  prefix: string;
+  keyHash: string;
+  createdAt: string;
+  lastUsedAt?: string;
+}
+
+/**
+ * One field of a record that a change set, changed, or removed.
+ */
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * An entry of the audit log: one record that was created, updated, or deleted, by whom, and how.
+ * Changes made outside a request, such as by the overdue sweep, have no actor or request ID.
+ */
+export interface AuditEntry extends Versioned {
+  id: string;
+  at: string;
+  action: typeof auditActions[number];
+  resource: string;
+  resourceId: string;
+  actorId?: string;
+  actorName?: string;
+  requestId?: string;
+  changes: AuditChange[];
+}
+
+/**
+ * A counter that hands out numbers in order, such as the numbers barcodes are allocated from.
+ * It is stored so that numbers are never handed out twice, even across restarts.
+ */
+export interface Sequence extends Versioned {
+  id: string;
+  value: number;
+}
+
+/**
+ * The response to a POST request sent with an Idempotency-Key header,
+ * kept so that a retry of the request gets the same response instead of making the change again.
+ * The id is a digest of the key, the user who sent it and the URL it was sent to,
+ * and fingerprint is a digest of the request body, so that the key cannot be reused for a different request.
+ */
+export interface IdempotentResponse extends Versioned {
+  id: string;
+  fingerprint: string;
+  status: number;
+  headers: Record<string, string>;
+  body: string;
+  createdAt: string;
+}
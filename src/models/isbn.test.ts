@@ -0,0 +1,40 @@
+import { isValidIsbn, isValidIsbn10, isValidIsbn13, normalizeIsbn } from './isbn';
+
+describe('isValidIsbn10', () => {
+  it('accepts ten digits with a correct mod 11 check digit, including X for 10', () => {
+    expect(isValidIsbn10('0553293354')).toBe(true);
+    expect(isValidIsbn10('080442957X')).toBe(true);
+  });
+
+  it.each(['0553293355', '0553293X54', '055329335', '05532933544', '080442957x'])('rejects %p', value => {
+    expect(isValidIsbn10(value)).toBe(false);
+  });
+});
+
+describe('isValidIsbn13', () => {
+  it('accepts thirteen digits starting 978 or 979 with a correct check digit', () => {
+    expect(isValidIsbn13('9780553293357')).toBe(true);
+    expect(isValidIsbn13('9791032305690')).toBe(true);
+  });
+
+  it.each(['9780553293358', '9770553293357', '978055329335', '97805532933570', '978-0553293357'])('rejects %p', value => {
+    expect(isValidIsbn13(value)).toBe(false);
+  });
+});
+
+describe('normalizeIsbn', () => {
+  it('removes hyphens and spaces from an ISBN-13', () => {
+    expect(normalizeIsbn('978-0-553-29335-7')).toBe('9780553293357');
+    expect(normalizeIsbn(' 978 0553 293357 ')).toBe('9780553293357');
+  });
+
+  it('converts an ISBN-10 to the ISBN-13 of the same book', () => {
+    expect(normalizeIsbn('0-553-29335-4')).toBe('9780553293357');
+    expect(normalizeIsbn('0-8044-2957-x')).toBe('9780804429573');
+  });
+
+  it.each(['', 'not an isbn', '0-553-29335-5', '978-0-553-29335-8'])('gives nothing for %p', value => {
+    expect(normalizeIsbn(value)).toBeUndefined();
+    expect(isValidIsbn(value)).toBe(false);
+  });
+});
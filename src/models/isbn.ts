@@ -0,0 +1,68 @@
+/**
+ * Validation and normalization of International Standard Book Numbers.
+ * Books store the canonical hyphen-free ISBN-13, so ISBN-10 and ISBN-13 input can be compared directly.
+ */
+
+/**
+ * Removes the hyphens and spaces that are commonly used to group the parts of an ISBN.
+ *
+ * @param value the ISBN as written
+ * @returns the ISBN digits (and a trailing X for ISBN-10), upper-cased
+ */
+const compact = (value: string): string => value.replace(/[\s-]/g, '').toUpperCase();
+
+/**
+ * Computes the check digit of an ISBN-13 from its first twelve digits.
+ *
+ * @param digits the first twelve digits
+ * @returns the check digit
+ */
+const isbn13CheckDigit = (digits: string): string => {
+  const sum = digits.split('').reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return String((10 - (sum % 10)) % 10);
+};
+
+/**
+ * Checks an ISBN-10 for the right length and a correct mod 11 check digit.
+ *
+ * @param value the ISBN-10 without hyphens
+ * @returns true if the ISBN-10 is valid
+ */
+export const isValidIsbn10 = (value: string): boolean => {
+  if (!/^\d{9}[\dX]$/.test(value)) return false;
+  const sum = value.split('').reduce((total, char, index) => total + (char === 'X' ? 10 : Number(char)) * (10 - index), 0);
+  return sum % 11 === 0;
+};
+
+/**
+ * Checks an ISBN-13 for the right length and prefix and a correct mod 10 check digit.
+ *
+ * @param value the ISBN-13 without hyphens
+ * @returns true if the ISBN-13 is valid
+ */
+export const isValidIsbn13 = (value: string): boolean =>
+  /^97[89]\d{10}$/.test(value) && isbn13CheckDigit(value.slice(0, 12)) === value[12];
+
+/**
+ * Converts an ISBN-10 or ISBN-13, with or without hyphens, to its canonical hyphen-free ISBN-13.
+ *
+ * @param value the ISBN as written
+ * @returns the canonical ISBN-13, or undefined if the value is not a valid ISBN
+ */
+export const normalizeIsbn = (value: string): string | undefined => {
+  const isbn = compact(value);
+  if (isValidIsbn13(isbn)) return isbn;
+  if (isValidIsbn10(isbn)) {
+    const prefixed = `978${isbn.slice(0, 9)}`;
+    return prefixed + isbn13CheckDigit(prefixed);
+  }
+  return undefined;
+};
+
+/**
+ * Checks whether a value is a valid ISBN-10 or ISBN-13, with or without hyphens.
+ *
+ * @param value the ISBN as written
+ * @returns true if the value is a valid ISBN
+ */
+export const isValidIsbn = (value: string): boolean => normalizeIsbn(value) !== undefined;
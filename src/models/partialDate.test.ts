@@ -0,0 +1,60 @@
+import { isValidPartialDate, parsePartialDate, partialDateRange } from './partialDate';
+
+describe('parsePartialDate', () => {
+  it('reads a full date, a year and month, or a year', () => {
+    expect(parsePartialDate('1564-04-23')).toEqual({ year: 1564, month: 4, day: 23, approximate: false });
+    expect(parsePartialDate('1564-04')).toEqual({ year: 1564, month: 4, day: undefined, approximate: false });
+    expect(parsePartialDate('1564')).toEqual({ year: 1564, month: undefined, day: undefined, approximate: false });
+  });
+
+  it('reads a trailing tilde as an approximate date', () => {
+    expect(parsePartialDate('1564~')).toMatchObject({ year: 1564, approximate: true });
+    expect(parsePartialDate('1564-04~')).toMatchObject({ year: 1564, month: 4, approximate: true });
+  });
+
+  it.each(['', '64', '1564-4', '1564-13', '1564-00', '1564-04-31', '1900-02-29', '~1564', 'circa 1564', '1564-04-23T00:00'])(
+    'rejects %p',
+    value => {
+      expect(parsePartialDate(value)).toBeUndefined();
+      expect(isValidPartialDate(value)).toBe(false);
+    }
+  );
+
+  it('accepts the leap day of a leap year', () => {
+    expect(isValidPartialDate('2000-02-29')).toBe(true);
+  });
+
+  it('counts the days of months in the first century by its own calendar', () => {
+    expect(isValidPartialDate('0004-02-29')).toBe(true);
+    expect(isValidPartialDate('0000-02-29')).toBe(true);
+    expect(isValidPartialDate('0001-02-29')).toBe(false);
+    expect(isValidPartialDate('0096-02-29')).toBe(true);
+    expect(isValidPartialDate('0097-02-29')).toBe(false);
+  });
+});
+
+describe('partialDateRange', () => {
+  const range = (value: string) => partialDateRange(parsePartialDate(value)!);
+
+  it('is a single day for a full date', () => {
+    expect(range('1564-04-23')).toEqual({ earliest: '1564-04-23', latest: '1564-04-23' });
+  });
+
+  it('spans the month or year when that is all that is known', () => {
+    expect(range('1564-02')).toEqual({ earliest: '1564-02-01', latest: '1564-02-29' });
+    expect(range('1565-02')).toEqual({ earliest: '1565-02-01', latest: '1565-02-28' });
+    expect(range('1564')).toEqual({ earliest: '1564-01-01', latest: '1564-12-31' });
+  });
+
+  it('knows the month lengths of years 0 to 99', () => {
+    expect(range('0004-02')).toEqual({ earliest: '0004-02-01', latest: '0004-02-29' });
+    expect(range('0000-02')).toEqual({ earliest: '0000-02-01', latest: '0000-02-29' });
+    expect(range('0001-02')).toEqual({ earliest: '0001-02-01', latest: '0001-02-28' });
+    expect(range('0099-12')).toEqual({ earliest: '0099-12-01', latest: '0099-12-31' });
+  });
+
+  it('allows a year either side of an approximate date', () => {
+    expect(range('1564~')).toEqual({ earliest: '1563-01-01', latest: '1565-12-31' });
+    expect(range('1564-04-23~')).toEqual({ earliest: '1563-04-23', latest: '1565-04-23' });
+  });
+});
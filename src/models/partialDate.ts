@@ -0,0 +1,83 @@
+/**
+ * Dates that may only be known in part, as the life dates of authors often are:
+ * an ISO 8601 calendar date (1564-04-23), or one reduced to a year and month (1564-04) or to a year (1564),
+ * optionally followed by a tilde to mark it as approximate (1564~, "circa 1564"),
+ * as in the Extended Date/Time Format of ISO 8601-2.
+ */
+
+/**
+ * A date as precisely as it is known.
+ */
+export interface PartialDate {
+  year: number;
+  month?: number;
+  day?: number;
+  approximate: boolean;
+}
+
+/**
+ * Builds a UTC date. Unlike Date.UTC, years 0 to 99 are taken as they are rather than as 1900 to 1999.
+ *
+ * @param year the year
+ * @param month the month, from 1 to 12; 13 is the first month of the next year
+ * @param day the day of the month; 0 is the last day of the month before
+ * @returns the date
+ */
+const utcDate = (year: number, month: number, day: number): Date => {
+  const date = new Date(0);
+  date.setUTCFullYear(year, month - 1, day);
+  return date;
+};
+
+/**
+ * Reads a partial date.
+ *
+ * @param value the date, e.g. 1564-04-23, 1564-04, 1564 or 1564~
+ * @returns the date, or undefined if it is not a partial date or names a day that does not exist
+ */
+export const parsePartialDate = (value: string): PartialDate | undefined => {
+  const match = /^(\d{4})(?:-(\d{2})(?:-(\d{2}))?)?(~)?$/.exec(value);
+  if (!match) return undefined;
+
+  const [, year, month, day, approximate] = match;
+  const date: PartialDate = {
+    year: Number(year),
+    month: month === undefined ? undefined : Number(month),
+    day: day === undefined ? undefined : Number(day),
+    approximate: approximate !== undefined,
+  };
+  if (date.month !== undefined && (date.month < 1 || date.month > 12)) return undefined;
+  if (date.day !== undefined) {
+    const calendarDate = utcDate(date.year, date.month as number, date.day);
+    if (date.day < 1 || calendarDate.getUTCDate() !== date.day) return undefined;
+  }
+  return date;
+};
+
+/**
+ * Checks whether a value is a partial date.
+ *
+ * @param value the value to check
+ * @returns true if the value is a partial date
+ */
+export const isValidPartialDate = (value: string): boolean => parsePartialDate(value) !== undefined;
+
+/**
+ * Works out the days a partial date could be: every day of its year or month if that is all that is known,
+ * and for an approximate date, anything up to a year either side of that.
+ *
+ * @param date the partial date
+ * @returns the earliest and latest day the date could be, as YYYY-MM-DD, which compare in date order
+ */
+export const partialDateRange = (date: PartialDate): { earliest: string; latest: string } => {
+  const margin = date.approximate ? 1 : 0;
+  const lastMonth = date.month ?? 12;
+  const lastDay = date.day ?? utcDate(date.year, lastMonth + 1, 0).getUTCDate();
+  const format = (year: number, month: number, day: number): string =>
+    `${String(year).padStart(4, '0')}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+
+  return {
+    earliest: format(Math.max(date.year - margin, 0), date.month ?? 1, date.day ?? 1),
+    latest: format(date.year + margin, lastMonth, lastDay),
+  };
+};
@@ -0,0 +1,238 @@
+import { isValidIsbn } from './isbn';
+import { isValidBarcode, isValidRfidTag } from './barcode';
+import { isValidPartialDate } from './partialDate';
+
+/**
+ * A small declarative schema language for the library's models.
+ * The same schema drives runtime validation of request bodies and the OpenAPI components served at /api-docs,
+ * so the documentation cannot drift from what the server accepts.
+ */
+
+interface BaseField {
+  required?: boolean;
+  readOnly?: boolean;
+  writeOnly?: boolean;
+  description?: string;
+  example?: unknown;
+}
+
+export interface StringField extends BaseField {
+  type: 'string';
+  format?: 'date' | 'partial-date' | 'date-time' | 'email' | 'isbn' | 'barcode' | 'rfid';
+  enum?: readonly string[];
+  minLength?: number;
+  maxLength?: number;
+}
+
+export interface IntegerField extends BaseField {
+  type: 'integer';
+  minimum?: number;
+  maximum?: number;
+}
+
+export interface ArrayField extends BaseField {
+  type: 'array';
+  items: FieldSchema;
+  minItems?: number;
+}
+
+export interface ObjectField extends BaseField {
+  type: 'object';
+  properties: Record<string, FieldSchema>;
+}
+
+export type FieldSchema = StringField | IntegerField | ArrayField | ObjectField;
+
+export interface ModelSchema {
+  name: string;
+  description?: string;
+  properties: Record<string, FieldSchema>;
+}
+
+/**
+ * A problem with a single field of a request body.
+ */
+export interface FieldError {
+  field: string;
+  message: string;
+}
+
+/**
+ * Checks that a YYYY-MM-DD string names a real calendar date.
+ *
+ * @param value the string to check
+ * @returns true if the string is a valid date
+ */
+const isCalendarDate = (value: string): boolean => {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const date = new Date(`${value}T00:00:00Z`);
+  return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+};
+
+const formatCheckers: Record<NonNullable<StringField['format']>, (value: string) => boolean> = {
+  'date': isCalendarDate,
+  'partial-date': isValidPartialDate,
+  'date-time': value => /^\d{4}-\d{2}-\d{2}T/.test(value) && !Number.isNaN(Date.parse(value)),
+  'email': value => /^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value),
+  'isbn': isValidIsbn,
+  'barcode': isValidBarcode,
+  'rfid': isValidRfidTag,
+};
+
+const formatLabels: Record<NonNullable<StringField['format']>, string> = {
+  'date': 'date (YYYY-MM-DD)',
+  'partial-date': 'date (YYYY-MM-DD, YYYY-MM or YYYY, followed by ~ if approximate)',
+  'date-time': 'ISO 8601 date-time',
+  'email': 'email address',
+  'isbn': 'ISBN-10 or ISBN-13',
+  'barcode': 'barcode (letters and digits ending in a check digit)',
+  'rfid': 'RFID tag ID (8 to 32 bytes in hexadecimal)',
+};
+
+/**
+ * Validates a single value against its field schema.
+ *
+ * @param field the path of the value, used in error messages
+ * @param schema the field schema to check against
+ * @param value the value to check; it is known to be present
+ * @returns the problems found with the value
+ */
+const validateField = (field: string, schema: FieldSchema, value: unknown): FieldError[] => {
+  switch (schema.type) {
+  case 'string': {
+    if (typeof value !== 'string') {
+      return [{ field, message: `${field} must be a string` }];
+    }
+    if (schema.minLength !== undefined && value.length < schema.minLength) {
+      return [{ field, message: schema.minLength === 1
+        ? `${field} must not be empty`
+        : `${field} must be at least ${schema.minLength} characters long` }];
+    }
+    if (schema.maxLength !== undefined && value.length > schema.maxLength) {
+      return [{ field, message: `${field} must be at most ${schema.maxLength} characters long` }];
+    }
+    if (schema.enum && !schema.enum.includes(value)) {
+      return [{ field, message: `${field} must be one of: ${schema.enum.join(', ')}` }];
+    }
+    if (schema.format && !formatCheckers[schema.format](value)) {
+      return [{ field, message: `${field} must be a valid ${formatLabels[schema.format]}` }];
+    }
+    return [];
+  }
+  case 'integer': {
+    if (!Number.isInteger(value)) {
+      return [{ field, message: `${field} must be an integer` }];
+    }
+    const number = value as number;
+    if (schema.minimum !== undefined && number < schema.minimum) {
+      return [{ field, message: `${field} must be at least ${schema.minimum}` }];
+    }
+    if (schema.maximum !== undefined && number > schema.maximum) {
+      return [{ field, message: `${field} must be at most ${schema.maximum}` }];
+    }
+    return [];
+  }
+  case 'array': {
+    if (!Array.isArray(value)) {
+      return [{ field, message: `${field} must be an array` }];
+    }
+    if (schema.minItems !== undefined && value.length < schema.minItems) {
+      return [{ field, message: schema.minItems === 1
+        ? `${field} must be a non-empty array`
+        : `${field} must contain at least ${schema.minItems} items` }];
+    }
+    return value.flatMap((item, index) => validateField(`${field}[${index}]`, schema.items, item));
+  }
+  case 'object': {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      return [{ field, message: `${field} must be an object` }];
+    }
+    return validateProperties(schema.properties, value as Record<string, unknown>, `${field}.`);
+  }
+  }
+};
+
+/**
+ * Validates the properties of an object against their field schemas.
+ * Read-only fields are ignored, and so are fields the schema does not know about.
+ * A field that is null is treated as missing.
+ *
+ * @param properties the field schema of each property
+ * @param values the object to check
+ * @param prefix the path of the object, prepended to the names of its fields in error messages
+ * @returns the problems found, one per offending field
+ */
+const validateProperties = (
+  properties: Record<string, FieldSchema>,
+  values: Record<string, unknown>,
+  prefix = ''
+): FieldError[] =>
+  Object.entries(properties)
+    .filter(([, field]) => !field.readOnly)
+    .flatMap(([name, field]) => {
+      const value = values[name];
+      if (value === undefined || value === null) {
+        return field.required ? [{ field: `${prefix}${name}`, message: `${prefix}${name} is required` }] : [];
+      }
+      return validateField(`${prefix}${name}`, field, value);
+    });
+
+/**
+ * Validates a request body against a model schema.
+ * Read-only fields are ignored, and so are fields the schema does not know about.
+ * A field that is null is treated as missing.
+ *
+ * @param schema the model schema to check against
+ * @param body the request body
+ * @returns the problems found, one per offending field; empty if the body is valid
+ */
+export const validate = (schema: ModelSchema, body: unknown): FieldError[] => {
+  if (typeof body !== 'object' || body === null || Array.isArray(body)) {
+    return [{ field: '', message: 'Request body must be a JSON object' }];
+  }
+
+  return validateProperties(schema.properties, body as Record<string, unknown>);
+};
+
+/**
+ * Converts a field schema to its OpenAPI 3.0 form.
+ *
+ * @param field the field schema to convert
+ * @returns the OpenAPI schema object of the field
+ */
+const toOpenApiField = (field: FieldSchema): Record<string, unknown> => {
+  const { required, ...rest } = field;
+  const openApiField: Record<string, unknown> = { ...rest };
+  if (field.type === 'array') {
+    openApiField.items = toOpenApiField(field.items);
+  }
+  if (field.type === 'object') {
+    const required = Object.entries(field.properties).filter(([, property]) => property.required).map(([name]) => name);
+    openApiField.properties = Object.fromEntries(
+      Object.entries(field.properties).map(([name, property]) => [name, toOpenApiField(property)])
+    );
+    if (required.length > 0) openApiField.required = required;
+  }
+  return openApiField;
+};
+
+/**
+ * Converts a model schema to an OpenAPI 3.0 schema component.
+ *
+ * @param schema the model schema to convert
+ * @returns the OpenAPI schema object of the model
+ */
+export const toOpenApiSchema = (schema: ModelSchema): Record<string, unknown> => {
+  const required = Object.entries(schema.properties)
+    .filter(([, field]) => field.required && !field.readOnly)
+    .map(([name]) => name);
+
+  return {
+    type: 'object',
+    ...(schema.description ? { description: schema.description } : {}),
+    ...(required.length > 0 ? { required } : {}),
+    properties: Object.fromEntries(
+      Object.entries(schema.properties).map(([name, field]) => [name, toOpenApiField(field)])
+    ),
+  };
+};
@@ -0,0 +1,544 @@
+import { ModelSchema, toOpenApiSchema } from './schema';
+
+/**
+ * The declarative schema of each model, used both to validate request bodies
+ * and to generate the schema components of the OpenAPI specification.
+ */
+
+/**
+ * The read-only fields that storage keeps on every record for optimistic concurrency.
+ */
+const versionProperties: ModelSchema['properties'] = {
+  version: {
+    type: 'integer',
+    readOnly: true,
+    description: 'Incremented on every write; the ETag of the record is derived from it',
+    example: 3,
+  },
+  updatedAt: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-01T10:00:00.000Z' },
+};
+
+/**
+ * The states of a book copy's lifecycle, from being ordered to being withdrawn from the collection.
+ * The transitions between them are laid down in services/copyLifecycle.
+ */
+export const bookCopyStatuses = [
+  'on-order',
+  'processing',
+  'available',
+  'reserved',
+  'on-loan',
+  'overdue',
+  'in-transit',
+  'lost',
+  'damaged',
+  'withdrawn',
+] as const;
+
+/**
+ * The roles a user can have, from least to most privileged.
+ * Patrons can read the catalog and manage their own holds, librarians run the catalog and the circulation desk,
+ * and admins can also delete records and manage users.
+ */
+export const roles = ['patron', 'librarian', 'admin'] as const;
+
+export const transferKinds = ['temporary', 'permanent'] as const;
+
+/**
+ * The kinds of other name an author is known by: a pseudonym they wrote under,
+ * or a variant of their name, such as another spelling, a transliteration, or their name before marriage.
+ */
+export const alternateNameKinds = ['pseudonym', 'variant'] as const;
+
+export const auditActions = ['create', 'update', 'delete', 'restore', 'purge'] as const;
+
+export const trashTypes = ['books', 'authors', 'genres', 'bookCopies', 'patrons'] as const;
+
+export const authorSchema: ModelSchema = {
+  name: 'Author',
+  properties: {
+    id: { type: 'string', readOnly: true, example: 'auth123' },
+    firstName: { type: 'string', required: true, minLength: 1, example: 'Jane' },
+    lastName: { type: 'string', example: 'Doe' },
+    sortName: {
+      type: 'string',
+      minLength: 1,
+      description: 'The name the author is filed under in alphabetical lists; defaults to "lastName, firstName", and is made up again when the author is renamed without a new one',
+      example: 'Doe, Jane',
+    },
+    birthDate: {
+      type: 'string',
+      format: 'partial-date',
+      required: true,
+      description: 'A full date, or just the year and month or the year if that is all that is known; '
+        + 'a trailing ~ marks an approximate date, e.g. 1564~ for circa 1564',
+      example: '1975-03-15',
+    },
+    deathDate: {
+      type: 'string',
+      format: 'partial-date',
+      description: 'Written like birthDate; it cannot be before birthDate',
+      example: '2020-12',
+    },
+    alternateNames: {
+      type: 'array',
+      description: 'Other names the author is known by; GET /authors?name= finds the author by any of them',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string', required: true, minLength: 1, example: 'J. D. Holloway' },
+          kind: { type: 'string', required: true, enum: alternateNameKinds, example: 'pseudonym' },
+        },
+      },
+    },
+    canonicalAuthorId: {
+      type: 'string',
+      minLength: 1,
+      description: 'For an author record that is a pseudonym or variant of another author, the ID of that author',
+      example: 'auth456',
+    },
+    ...versionProperties,
+  },
+};
+
+export const genreSchema: ModelSchema = {
+  name: 'Genre',
+  properties: {
+    id: { type: 'string', readOnly: true, example: 'gen123' },
+    name: { type: 'string', required: true, minLength: 1, example: 'Science Fiction' },
+    ...versionProperties,
+  },
+};
+
+export const bookSchema: ModelSchema = {
+  name: 'Book',
+  properties: {
+    id: { type: 'string', readOnly: true, example: 'book123' },
+    title: { type: 'string', required: true, minLength: 1, example: 'The Great Adventure' },
+    authorIds: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      minItems: 1,
+      required: true,
+      example: ['auth123', 'auth456'],
+    },
+    genreIds: {
+      type: 'array',
+      items: { type: 'string', minLength: 1 },
+      minItems: 1,
+      required: true,
+      example: ['gen123'],
+    },
+    isbn: {
+      type: 'string',
+      format: 'isbn',
+      required: true,
+      description: 'ISBN-10 or ISBN-13, with or without hyphens; stored as the canonical hyphen-free ISBN-13',
+      example: '978-3-16-148410-0',
+    },
+    isbnDisplay: {
+      type: 'string',
+      readOnly: true,
+      description: 'The ISBN as it was entered, for display',
+      example: '978-3-16-148410-0',
+    },
+    summary: { type: 'string', required: true, minLength: 1, example: 'An epic tale of adventure and discovery.' },
+    ...versionProperties,
+  },
+};
+
+export const bookCopySchema: ModelSchema = {
+  name: 'BookCopy',
+  properties: {
+    id: { type: 'string', readOnly: true, example: 'copy123' },
+    bookId: { type: 'string', required: true, minLength: 1, example: 'book123' },
+    imprint: { type: 'string', required: true, minLength: 1, example: 'First Edition 2023' },
+    status: {
+      type: 'string',
+      enum: bookCopyStatuses,
+      required: true,
+      description: 'A new copy starts out on-order, processing or available; after that, use POST /book-copies/{id}/transitions',
+      example: 'available',
+    },
+    branchId: {
+      type: 'string',
+      required: true,
+      minLength: 1,
+      description: 'The branch the copy belongs to',
+      example: 'br123',
+    },
+    currentBranchId: {
+      type: 'string',
+      readOnly: true,
+      description: 'The branch the copy is at; differs from branchId while it is lent to another branch, and is missing while it is in transit',
+      example: 'br123',
+    },
+    shelfLocation: {
+      type: 'string',
+      maxLength: 100,
+      description: 'Where the copy is shelved at its branch, e.g. its call number',
+      example: 'SF ASI',
+    },
+    barcode: {
+      type: 'string',
+      format: 'barcode',
+      description: 'The barcode on the copy, unique among copies. Allocated from the library\'s barcode sequence when left out; '
+        + 'a barcode given here, e.g. from a label printed by another system, must end in a correct Luhn check digit',
+      example: '30000000000012',
+    },
+    rfidTag: {
+      type: 'string',
+      format: 'rfid',
+      description: 'The ID of the RFID tag in the copy, in hexadecimal, unique among copies',
+      example: 'E004015012345678',
+    },
+    dueBackDate: {
+      type: 'string',
+      format: 'date',
+      readOnly: true,
+      description: 'When a copy that is on loan or overdue is due back',
+      example: '2024-01-15',
+    },
+    patronId: {
+      type: 'string',
+      readOnly: true,
+      description: 'The patron the copy is on loan or reserved to',
+      example: 'pat123',
+    },
+    statusReason: {
+      type: 'string',
+      readOnly: true,
+      description: 'Why the copy was last moved to its status, if a reason was given',
+      example: 'Water damage',
+    },
+    ...versionProperties,
+  },
+};
+
+export const branchSchema: ModelSchema = {
+  name: 'Branch',
+  properties: {
+    id: { type: 'string', readOnly: true, example: 'br123' },
+    code: {
+      type: 'string',
+      required: true,
+      minLength: 1,
+      maxLength: 16,
+      description: 'A short code that identifies the branch, unique among branches; catalog files refer to branches by it',
+      example: 'NORTH',
+    },
+    name: { type: 'string', required: true, minLength: 1, example: 'North Branch' },
+    address: { type: 'string', example: '12 Elm Street' },
+    ...versionProperties,
+  },
+};
+
+export const transferRequestSchema: ModelSchema = {
+  name: 'TransferRequest',
+  properties: {
+    toBranchId: { type: 'string', required: true, minLength: 1, example: 'br456' },
+    kind: {
+      type: 'string',
+      enum: transferKinds,
+      description: 'A permanent transfer moves the home branch of the copy too; the default is temporary',
+      example: 'temporary',
+    },
+  },
+};
+
+export const transferSchema: ModelSchema = {
+  name: 'Transfer',
+  properties: {
+    id: { type: 'string', readOnly: true, example: 'trf123' },
+    copyId: { type: 'string', readOnly: true, example: 'copy123' },
+    fromBranchId: { type: 'string', readOnly: true, example: 'br123' },
+    toBranchId: { type: 'string', readOnly: true, example: 'br456' },
+    kind: { type: 'string', enum: transferKinds, readOnly: true, example: 'temporary' },
+    status: {
+      type: 'string',
+      enum: ['requested', 'shipped', 'received', 'cancelled'],
+      readOnly: true,
+      example: 'requested',
+    },
+    holdId: {
+      type: 'string',
+      readOnly: true,
+      description: 'The hold the copy is sent to be picked up for, if any',
+      example: 'hold123',
+    },
+    requestedAt: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-01T10:00:00.000Z' },
+    shippedAt: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-02T09:00:00.000Z' },
+    receivedAt: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-03T14:00:00.000Z' },
+    cancelledAt: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-02T09:00:00.000Z' },
+    ...versionProperties,
+  },
+};
+
+export const copyTransitionRequestSchema: ModelSchema = {
+  name: 'CopyTransitionRequest',
+  properties: {
+    to: { type: 'string', enum: bookCopyStatuses, required: true, example: 'damaged' },
+    reason: { type: 'string', maxLength: 500, example: 'Water damage' },
+  },
+};
+
+export const copyTransitionSchema: ModelSchema = {
+  name: 'CopyTransition',
+  description: 'A change of status of a book copy',
+  properties: {
+    id: { type: 'string', readOnly: true, example: 'trn123' },
+    copyId: { type: 'string', readOnly: true, example: 'copy123' },
+    from: {
+      type: 'string',
+      enum: bookCopyStatuses,
+      readOnly: true,
+      description: 'The status the copy left; missing when the copy was created',
+      example: 'available',
+    },
+    to: { type: 'string', enum: bookCopyStatuses, readOnly: true, example: 'damaged' },
+    at: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-01T10:00:00.000Z' },
+    reason: { type: 'string', readOnly: true, example: 'Water damage' },
+    actorId: { type: 'string', readOnly: true, description: 'The user who made the change', example: 'user123' },
+    requestId: { type: 'string', readOnly: true, example: '0b6f8f63-4a1d-4c8e-9a53-6f7c1f0e2a11' },
+  },
+};
+
+export const patronSchema: ModelSchema = {
+  name: 'Patron',
+  properties: {
+    id: { type: 'string', readOnly: true, example: 'pat123' },
+    firstName: { type: 'string', required: true, minLength: 1, example: 'Alex' },
+    lastName: { type: 'string', example: 'Smith' },
+    email: { type: 'string', format: 'email', required: true, example: 'alex.smith@example.com' },
+    loanLimit: {
+      type: 'integer',
+      minimum: 0,
+      description: 'Overrides the default number of copies the patron may have on loan at once',
+      example: 5,
+    },
+    ...versionProperties,
+  },
+};
+
+export const loanSchema: ModelSchema = {
+  name: 'Loan',
+  properties: {
+    id: { type: 'string', readOnly: true, example: 'loan123' },
+    copyId: { type: 'string', readOnly: true, example: 'copy123' },
+    patronId: { type: 'string', readOnly: true, example: 'pat123' },
+    checkedOutAt: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-01T10:00:00.000Z' },
+    dueAt: { type: 'string', format: 'date', readOnly: true, example: '2024-01-22' },
+    returnedAt: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-20T15:30:00.000Z' },
+    renewals: { type: 'integer', readOnly: true, example: 0 },
+    ...versionProperties,
+  },
+};
+
+export const holdSchema: ModelSchema = {
+  name: 'Hold',
+  properties: {
+    id: { type: 'string', readOnly: true, example: 'hold123' },
+    bookId: { type: 'string', readOnly: true, example: 'book123' },
+    patronId: { type: 'string', required: true, minLength: 1, example: 'pat123' },
+    placedAt: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-01T10:00:00.000Z' },
+    status: {
+      type: 'string',
+      enum: ['waiting', 'in-transit', 'ready', 'fulfilled', 'cancelled', 'expired'],
+      readOnly: true,
+      description: 'in-transit while the copy set aside for the hold is on its way to the pickup branch',
+      example: 'waiting',
+    },
+    pickupBranchId: {
+      type: 'string',
+      minLength: 1,
+      description: 'The branch where the patron will pick up the copy; copies at other branches are sent there',
+      example: 'br123',
+    },
+    copyId: { type: 'string', readOnly: true, example: 'copy123' },
+    pickupExpiresAt: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-08T10:00:00.000Z' },
+    position: {
+      type: 'integer',
+      readOnly: true,
+      description: 'Position in the queue while the hold is waiting',
+      example: 1,
+    },
+    ...versionProperties,
+  },
+};
+
+export const fineSchema: ModelSchema = {
+  name: 'Fine',
+  properties: {
+    id: { type: 'string', readOnly: true, example: 'fine123' },
+    patronId: { type: 'string', readOnly: true, example: 'pat123' },
+    copyId: { type: 'string', readOnly: true, example: 'copy123' },
+    loanId: { type: 'string', readOnly: true, example: 'loan123' },
+    daysOverdue: { type: 'integer', readOnly: true, example: 4 },
+    amountCents: { type: 'integer', readOnly: true, example: 100 },
+    paidCents: { type: 'integer', readOnly: true, example: 0 },
+    status: { type: 'string', enum: ['open', 'paid', 'waived'], readOnly: true, example: 'open' },
+    createdAt: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-23T00:00:00.000Z' },
+    waiverReason: { type: 'string', readOnly: true, example: 'Returned during building closure' },
+    ...versionProperties,
+  },
+};
+
+export const patronReferenceSchema: ModelSchema = {
+  name: 'PatronReference',
+  properties: {
+    patronId: { type: 'string', required: true, minLength: 1, example: 'pat123' },
+  },
+};
+
+export const holdRequestSchema: ModelSchema = {
+  name: 'HoldRequest',
+  properties: {
+    patronId: { type: 'string', required: true, minLength: 1, example: 'pat123' },
+    pickupBranchId: { type: 'string', minLength: 1, example: 'br123' },
+  },
+};
+
+export const finePaymentSchema: ModelSchema = {
+  name: 'FinePayment',
+  properties: {
+    amountCents: { type: 'integer', minimum: 1, required: true, example: 100 },
+  },
+};
+
+export const fineWaiverSchema: ModelSchema = {
+  name: 'FineWaiver',
+  properties: {
+    reason: { type: 'string', example: 'Returned during building closure' },
+  },
+};
+
+export const userSchema: ModelSchema = {
+  name: 'User',
+  properties: {
+    id: { type: 'string', readOnly: true, example: 'user123' },
+    username: { type: 'string', required: true, minLength: 1, maxLength: 64, example: 'asmith' },
+    password: { type: 'string', required: true, minLength: 8, writeOnly: true, example: 'correct horse battery' },
+    role: { type: 'string', enum: roles, required: true, example: 'librarian' },
+    patronId: {
+      type: 'string',
+      minLength: 1,
+      description: 'The patron record of a user with the patron role',
+      example: 'pat123',
+    },
+    createdAt: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-01T10:00:00.000Z' },
+    ...versionProperties,
+  },
+};
+
+export const credentialsSchema: ModelSchema = {
+  name: 'Credentials',
+  properties: {
+    username: { type: 'string', required: true, minLength: 1, example: 'asmith' },
+    password: { type: 'string', required: true, minLength: 1, writeOnly: true, example: 'correct horse battery' },
+  },
+};
+
+export const apiKeySchema: ModelSchema = {
+  name: 'ApiKey',
+  properties: {
+    id: { type: 'string', readOnly: true, example: 'key123' },
+    name: { type: 'string', required: true, minLength: 1, maxLength: 100, example: 'Self-checkout kiosk' },
+    prefix: {
+      type: 'string',
+      readOnly: true,
+      description: 'The start of the key, to tell keys apart without revealing them',
+      example: 'lib_Xk3f9',
+    },
+    createdAt: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-01T10:00:00.000Z' },
+    lastUsedAt: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-02T09:30:00.000Z' },
+    ...versionProperties,
+  },
+};
+
+export const auditEntrySchema: ModelSchema = {
+  name: 'AuditEntry',
+  properties: {
+    id: { type: 'string', readOnly: true, example: 'aud123' },
+    at: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-01T10:00:00.000Z' },
+    action: { type: 'string', enum: auditActions, readOnly: true, example: 'update' },
+    resource: {
+      type: 'string',
+      readOnly: true,
+      description: 'The collection of the changed record',
+      example: 'books',
+    },
+    resourceId: { type: 'string', readOnly: true, example: 'book123' },
+    actorId: { type: 'string', readOnly: true, description: 'The user who made the change', example: 'user123' },
+    actorName: { type: 'string', readOnly: true, example: 'asmith' },
+    requestId: {
+      type: 'string',
+      readOnly: true,
+      description: 'The X-Request-Id of the request that made the change',
+      example: '0b6f8f63-4a1d-4c8e-9a53-6f7c1f0e2a11',
+    },
+    changes: {
+      type: 'array',
+      readOnly: true,
+      description: 'Each field that changed, with its value before and after; a value is missing where the field was',
+      items: {
+        type: 'object',
+        properties: {
+          field: { type: 'string', required: true, example: 'title' },
+        },
+        example: { field: 'title', before: 'Foundaton', after: 'Foundation' },
+      },
+    },
+  },
+};
+
+export const trashItemSchema: ModelSchema = {
+  name: 'TrashItem',
+  description: 'A deleted record, which can be restored until the trash is purged',
+  properties: {
+    type: { type: 'string', enum: trashTypes, readOnly: true, example: 'books' },
+    id: { type: 'string', readOnly: true, example: 'book123' },
+    deletedAt: { type: 'string', format: 'date-time', readOnly: true, example: '2024-01-01T10:00:00.000Z' },
+    deletedWith: {
+      type: 'string',
+      readOnly: true,
+      description: 'The id of the record this one was deleted with, such as the book of a copy; they are restored together',
+      example: 'book123',
+    },
+    record: {
+      type: 'object',
+      readOnly: true,
+      description: 'The record as it was when it was deleted',
+      properties: {
+        id: { type: 'string', example: 'book123' },
+      },
+    },
+  },
+};
+
+/**
+ * The OpenAPI schema components generated from every model schema, keyed by model name.
+ */
+export const openApiSchemas = Object.fromEntries([
+  authorSchema,
+  genreSchema,
+  bookSchema,
+  bookCopySchema,
+  branchSchema,
+  transferRequestSchema,
+  transferSchema,
+  copyTransitionRequestSchema,
+  copyTransitionSchema,
+  patronSchema,
+  loanSchema,
+  holdSchema,
+  fineSchema,
+  patronReferenceSchema,
+  holdRequestSchema,
+  finePaymentSchema,
+  fineWaiverSchema,
+  userSchema,
+  credentialsSchema,
+  apiKeySchema,
+  auditEntrySchema,
+  trashItemSchema,
+].map(schema => [schema.name, toOpenApiSchema(schema)]));
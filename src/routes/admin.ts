@@ -0,0 +1,70 @@
+import { Router } from 'express';
+import { purgeTrashNow, runOverdueSweepNow } from '../controllers/adminControllers';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /admin/overdue-sweep:
+ *   post:
+ *     summary: Run the overdue sweep now
+ *     description: Marks copies past their due date as overdue and accrues their fines. The sweep also runs on a timer.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: Summary of the sweep
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/OverdueSweepResult'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/overdue-sweep', requireRole('admin'), runOverdueSweepNow);
+
+/**
+ * @swagger
+ * /admin/purge-trash:
+ *   post:
+ *     summary: Purge the trash
+ *     description: >
+ *       Removes the records that were deleted more than the retention window ago for good; they can no longer be restored.
+ *       Copies deleted with a book stay as long as the book does.
+ *     tags: [Admin]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: retentionDays
+ *         schema:
+ *           type: integer
+ *           minimum: 0
+ *         description: How many days deleted records are kept; defaults to TRASH_RETENTION_DAYS (30). 0 empties the trash.
+ *     responses:
+ *       200:
+ *         description: Summary of the purge
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/TrashPurgeResult'
+ *       400:
+ *         description: Invalid retention window
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.post('/purge-trash', requireRole('admin'), purgeTrashNow);
+
+export default router;
@@ -0,0 +1,85 @@
+import { Router } from 'express';
+import { getAuditLog } from '../controllers/auditControllers';
+import { requireRole } from '../middleware/auth';
+import { parseListQuery } from '../middleware/listQuery';
+import { auditEntrySchema } from '../models/schemas';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /audit:
+ *   get:
+ *     summary: Get the audit log
+ *     description: >
+ *       Every create, update and delete of a book, author, genre, copy, patron, loan, hold or fine,
+ *       with who made it, when, from which request, and what changed. Entries are oldest first unless sorted otherwise.
+ *     tags: [Audit]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: resource
+ *         schema:
+ *           type: string
+ *           enum: [books, authors, genres, bookCopies, patrons, loans, holds, fines, branches, transfers]
+ *         description: Only changes to this kind of record
+ *       - in: query
+ *         name: resourceId
+ *         schema:
+ *           type: string
+ *         description: Only changes to the record with this ID
+ *       - in: query
+ *         name: action
+ *         schema:
+ *           type: string
+ *           enum: [create, update, delete]
+ *         description: Only changes of this kind
+ *       - in: query
+ *         name: actor
+ *         schema:
+ *           type: string
+ *         description: Only changes made by the user with this ID or username
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *         description: Only changes made at or after this date or date-time
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *         description: Only changes made at or before this date-time, or during or before this date
+ *       - $ref: '#/components/parameters/ListLimit'
+ *       - $ref: '#/components/parameters/ListPage'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/ListFields'
+ *     responses:
+ *       200:
+ *         description: The matching audit entries
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           Link:
+ *             $ref: '#/components/headers/Link'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AuditEntry'
+ *       400:
+ *         description: Invalid filter, paging, sort or field selection
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/', requireRole('admin'), parseListQuery(auditEntrySchema), getAuditLog);
+
+export default router;
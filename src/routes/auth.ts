@@ -0,0 +1,159 @@
+import { Router } from 'express';
+import { login, getCurrentUser, getApiKeys, createApiKey, revokeApiKey } from '../controllers/authControllers';
+import { validateBody } from '../middleware/validate';
+import { requireRole } from '../middleware/auth';
+import { apiKeySchema, credentialsSchema } from '../models/schemas';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /auth/login:
+ *   post:
+ *     summary: Sign in
+ *     description: Exchanges a username and password for a bearer token to send in the Authorization header.
+ *     tags: [Auth]
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Credentials'
+ *     responses:
+ *       200:
+ *         description: Signed in
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/LoginResult'
+ *       400:
+ *         description: Missing username or password
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         description: Invalid username or password
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/login', validateBody(credentialsSchema), login);
+
+/**
+ * @swagger
+ * /auth/me:
+ *   get:
+ *     summary: Get the signed-in user
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: The signed-in user
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/User'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.get('/me', requireRole('patron'), getCurrentUser);
+
+/**
+ * @swagger
+ * /auth/api-keys:
+ *   get:
+ *     summary: List the API keys of the signed-in user
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: The user's API keys, without the keys themselves
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ApiKey'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.get('/api-keys', requireRole('patron'), getApiKeys);
+
+/**
+ * @swagger
+ * /auth/api-keys:
+ *   post:
+ *     summary: Create an API key
+ *     description: The key acts as the signed-in user and is sent in the X-API-Key header. It is only shown in this response.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/ApiKey'
+ *     responses:
+ *       201:
+ *         description: API key created
+ *         content:
+ *           application/json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/ApiKey'
+ *                 - type: object
+ *                   properties:
+ *                     key:
+ *                       type: string
+ *                       example: lib_Xk3f9Qm2...
+ *       400:
+ *         description: Invalid input
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ */
+router.post('/api-keys', requireRole('patron'), validateBody(apiKeySchema), createApiKey);
+
+/**
+ * @swagger
+ * /auth/api-keys/{id}:
+ *   delete:
+ *     summary: Revoke an API key
+ *     description: Users can revoke their own keys; admins can revoke anyone's.
+ *     tags: [Auth]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: API key ID
+ *     responses:
+ *       204:
+ *         description: API key revoked
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       404:
+ *         description: API key not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.delete('/api-keys/:id', requireRole('patron'), revokeApiKey);
+
+export default router;
@@ -4,8 +4,19 @@ import {
   getAuthorById,
   createAuthor,
   updateAuthorById,
-  deleteAuthorById
+  deleteAuthorById,
+  getBooksByAuthor
 } from '../controllers/authorsControllers';
+import { validateBody } from '../middleware/validate';
+import { mergePatch } from '../middleware/mergePatch';
+import { ifMatch } from '../middleware/conditional';
+import { requireRole } from '../middleware/auth';
+import { findAuthorById } from '../data/storage';
+import { restoreAuthorById } from '../controllers/trashControllers';
+import { parseListQuery } from '../middleware/listQuery';
+import { parseExpand } from '../middleware/expand';
+import { bookExpansions } from '../services/expansion';
+import { authorSchema, bookSchema } from '../models/schemas';
 
 const router = Router();
 
@@ -14,18 +25,49 @@ const router = Router();
  * /authors:
  *   get:
  *     summary: Get all authors
+ *     description: Sort with sort=sortName to list authors the way a catalog files them.
  *     tags: [Authors]
+ *     parameters:
+ *       - in: query
+ *         name: name
+ *         schema:
+ *           type: string
+ *         example: le guin
+ *         description: >
+ *           Find authors by any name they go by: their name, sort name or alternate names,
+ *           or those of the author records linked to them as pseudonyms or variants.
+ *           Every word must start a word of the name, ignoring case, accents and word order.
+ *       - in: query
+ *         name: canonicalAuthorId
+ *         schema:
+ *           type: string
+ *         description: List the author records that are pseudonyms or variants of this author
+ *       - $ref: '#/components/parameters/ListLimit'
+ *       - $ref: '#/components/parameters/ListPage'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/ListFields'
  *     responses:
  *       200:
  *         description: List of authors
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           Link:
+ *             $ref: '#/components/headers/Link'
  *         content:
  *           application/json:
  *             schema:
  *               type: array
  *               items:
  *                 $ref: '#/components/schemas/Author'
+ *       400:
+ *         description: Invalid name, paging, sort or field selection
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-router.get('/', getAllAuthors);
+router.get('/', parseListQuery(authorSchema), getAllAuthors);
 
 /**
  * @swagger
@@ -39,6 +81,7 @@ router.get('/', getAllAuthors);
  *         required: true
  *         schema:
  *           type: string
+ *       - $ref: '#/components/parameters/IfNoneMatch'
  *     responses:
  *       200:
  *         description: Author found
@@ -49,9 +92,11 @@ router.get('/', getAllAuthors);
  *       404:
  *         description: Author not found
  *         content:
- *           application/json:
+ *           application/problem+json:
  *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       304:
+ *         $ref: '#/components/responses/NotModified'
  */
 router.get('/:id', getAuthorById);
 
@@ -61,24 +106,17 @@ router.get('/:id', getAuthorById);
  *   post:
  *     summary: Create a new author
  *     tags: [Authors]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required: [firstName, birthDate]
- *             properties:
- *               firstName:
- *                 type: string
- *               lastName:
- *                 type: string
- *               birthDate:
- *                 type: string
- *                 format: date
- *               deathDate:
- *                 type: string
- *                 format: date
+ *             $ref: '#/components/schemas/Author'
  *     responses:
  *       201:
  *         description: Author created successfully
@@ -87,9 +125,19 @@ router.get('/:id', getAuthorById);
  *             schema:
  *               $ref: '#/components/schemas/Author'
  *       400:
- *         description: Invalid input
+ *         description: Invalid input, life dates in the future or out of order, or a canonical author that cannot be linked to
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       422:
+ *         $ref: '#/components/responses/IdempotencyKeyReused'
  */
-router.post('/', createAuthor);
+router.post('/', requireRole('librarian'), validateBody(authorSchema), createAuthor);
 
 /**
  * @swagger
@@ -97,30 +145,72 @@ router.post('/', createAuthor);
  *   put:
  *     summary: Update an author
  *     tags: [Authors]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required: [firstName, birthDate]
- *             properties:
- *               firstName:
- *                 type: string
- *               lastName:
- *                 type: string
- *               birthDate:
- *                 type: string
- *                 format: date
- *               deathDate:
- *                 type: string
- *                 format: date
+ *             $ref: '#/components/schemas/Author'
+ *     responses:
+ *       200:
+ *         description: Author updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Author'
+ *       400:
+ *         description: Invalid input, life dates in the future or out of order, or a canonical author that cannot be linked to
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Author not found
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.put('/:id', requireRole('librarian'), ifMatch(findAuthorById, 'author'), validateBody(authorSchema), updateAuthorById);
+
+/**
+ * @swagger
+ * /authors/{id}:
+ *   patch:
+ *     summary: Partially update an author
+ *     description: >
+ *       Applies a JSON Merge Patch (RFC 7396): fields in the body replace the stored values,
+ *       a field set to null is removed, and fields left out are unchanged.
+ *       The patched record is validated like a full update.
+ *     tags: [Authors]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/merge-patch+json:
+ *           schema:
+ *             $ref: '#/components/schemas/Author'
  *     responses:
  *       200:
  *         description: Author updated successfully
@@ -128,33 +218,161 @@ router.post('/', createAuthor);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Author'
+ *       400:
+ *         description: The patched record is invalid, has life dates in the future or out of order, or a canonical author that cannot be linked to
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         description: Author not found
+ *       415:
+ *         description: The body is not JSON
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
  */
-router.put('/:id', updateAuthorById);
+router.patch('/:id', requireRole('librarian'), ifMatch(findAuthorById, 'author'), mergePatch(findAuthorById, 'Author not found'), validateBody(authorSchema), updateAuthorById);
 
 /** 
  * @swagger
  * /authors/{id}:
  *   delete:
  *     summary: Delete author by ID
+ *     description: The author goes to the trash, from which an admin can restore it until the trash is purged.
  *     tags: [Authors]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: cascade
+ *         schema:
+ *           type: string
+ *           enum: [detach]
+ *         description: >
+ *           Set to detach to remove the author from books that list it, and to unlink its pseudonyms and variants, before deleting it.
+ *           Refused if a book would be left with no authors.
+ *       - $ref: '#/components/parameters/IfMatch'
  *     responses:
  *       204:
  *         description: Author deleted
+ *       400:
+ *         description: Unknown cascade mode
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         description: Author not found
  *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Books still list the author or pseudonyms are linked to it, or detaching would leave a book with no authors
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/DependencyConflict'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.delete('/:id', requireRole('admin'), ifMatch(findAuthorById, 'author'), deleteAuthorById);
+
+/**
+ * @swagger
+ * /authors/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted author
+ *     description: Takes the author out of the trash. Books the author was detached from when it was deleted are not changed.
+ *     tags: [Authors]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The restored author
+ *         headers:
+ *           ETag:
+ *             $ref: '#/components/headers/ETag'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Author'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: No such author in the trash
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The author is a pseudonym or variant of an author that no longer exists
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/DependencyConflict'
+ */
+router.post('/:id/restore', requireRole('admin'), restoreAuthorById);
+
+/**
+ * @swagger
+ * /authors/{id}/books:
+ *   get:
+ *     summary: Get the books written by an author
+ *     tags: [Authors]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/ListLimit'
+ *       - $ref: '#/components/parameters/ListPage'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/ListFields'
+ *       - $ref: '#/components/parameters/BookExpand'
+ *     responses:
+ *       200:
+ *         description: List of books
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           Link:
+ *             $ref: '#/components/headers/Link'
+ *         content:
  *           application/json:
  *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ExpandedBook'
+ *       400:
+ *         description: Invalid paging, sort, field selection or expansion
+ *         content:
+ *           application/problem+json:
+ *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Author not found
  */
-router.delete('/:id', deleteAuthorById);
+router.get('/:id/books', parseListQuery(bookSchema), parseExpand(bookExpansions), getBooksByAuthor);
 
 export default router;
@@ -4,8 +4,27 @@ import {
   getBookCopyById,
   createBookCopy,
   updateBookCopyById,
-  deleteBookCopyById
+  deleteBookCopyById,
+  checkoutBookCopy,
+  returnBookCopy,
+  renewBookCopy,
+  transitionBookCopy,
+  getBookCopyTransitions,
+  getBookCopyByBarcode
 } from '../controllers/bookCopiesControllers';
+import { getBookCopyLabels } from '../controllers/labelsControllers';
+import { createTransfer, getTransfersForBookCopy } from '../controllers/transfersControllers';
+import { getLoansForBookCopy } from '../controllers/loansControllers';
+import { validateBody } from '../middleware/validate';
+import { mergePatch } from '../middleware/mergePatch';
+import { ifMatch } from '../middleware/conditional';
+import { requireRole, requireOwnerOrRole } from '../middleware/auth';
+import { findBookCopyById } from '../data/storage';
+import { restoreBookCopyById } from '../controllers/trashControllers';
+import { parseListQuery } from '../middleware/listQuery';
+import { parseExpand } from '../middleware/expand';
+import { bookCopyExpansions } from '../services/expansion';
+import { bookCopySchema, copyTransitionRequestSchema, patronReferenceSchema, transferRequestSchema } from '../models/schemas';
 
 const router = Router();
 
@@ -24,20 +43,139 @@ const router = Router();
  *       - in: query
  *         name: status
  *         schema:
- *           type: string
- *           enum: [available, unavailable, can be checkout, checked out]
+ *           $ref: '#/components/schemas/BookCopy/properties/status'
  *         description: Filter by status
+ *       - in: query
+ *         name: branchId
+ *         schema:
+ *           type: string
+ *         description: Filter by the branch the copies belong to
+ *       - in: query
+ *         name: currentBranchId
+ *         schema:
+ *           type: string
+ *         description: Filter by the branch the copies are at
+ *       - $ref: '#/components/parameters/ListLimit'
+ *       - $ref: '#/components/parameters/ListPage'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/ListFields'
+ *       - $ref: '#/components/parameters/BookCopyExpand'
  *     responses:
  *       200:
  *         description: List of book copies
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           Link:
+ *             $ref: '#/components/headers/Link'
  *         content:
  *           application/json:
  *             schema:
  *               type: array
  *               items:
- *                 $ref: '#/components/schemas/BookCopy'
+ *                 $ref: '#/components/schemas/ExpandedBookCopy'
+ *       400:
+ *         description: Invalid paging, sort, field selection or expansion
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', parseListQuery(bookCopySchema), parseExpand(bookCopyExpansions), getAllBookCopies);
+
+/**
+ * @swagger
+ * /book-copies/by-barcode/{code}:
+ *   get:
+ *     summary: Get the book copy a scanner read
+ *     description: >
+ *       Looks a copy up by its barcode, or by the ID of its RFID tag as read by an RFID pad.
+ *       Spaces, hyphens and letter case in the code are ignored.
+ *     tags: [Book Copies]
+ *     parameters:
+ *       - in: path
+ *         name: code
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: '30000000000012'
+ *       - $ref: '#/components/parameters/BookCopyExpand'
+ *       - $ref: '#/components/parameters/IfNoneMatch'
+ *     responses:
+ *       200:
+ *         description: Book copy found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ExpandedBookCopy'
+ *       400:
+ *         description: Invalid expansion
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: No book copy has the barcode or RFID tag
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       304:
+ *         $ref: '#/components/responses/NotModified'
+ */
+router.get('/by-barcode/:code', parseExpand(bookCopyExpansions), getBookCopyByBarcode);
+
+/**
+ * @swagger
+ * /book-copies/labels:
+ *   get:
+ *     summary: Print label sheets for book copies
+ *     description: >
+ *       Lays out a label for each copy on US Letter sheets of 30 (3 by 10, 2 5/8" by 1", like Avery 5160),
+ *       in the order the copies are listed. Each label has the branch code and call number of the copy,
+ *       the title of its book, and its barcode as Code 39.
+ *       PDF has a page per sheet; SVG has the sheets one below the other.
+ *     tags: [Book Copies]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: ids
+ *         required: true
+ *         schema:
+ *           type: string
+ *         example: copy1,copy2
+ *         description: The IDs of the copies to print labels for, separated by commas; at most 300
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [svg, pdf]
+ *         description: Format of the sheets; taken from the Accept header if not given, and SVG by default
+ *     responses:
+ *       200:
+ *         description: The label sheets
+ *         content:
+ *           image/svg+xml:
+ *             schema:
+ *               type: string
+ *           application/pdf:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       400:
+ *         description: No copies, too many copies, an unknown copy, or an unknown format
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  */
-router.get('/', getAllBookCopies);
+router.get('/labels', requireRole('librarian'), getBookCopyLabels);
 
 /**
  * @swagger
@@ -51,17 +189,27 @@ router.get('/', getAllBookCopies);
  *         required: true
  *         schema:
  *           type: string
+ *       - $ref: '#/components/parameters/BookCopyExpand'
+ *       - $ref: '#/components/parameters/IfNoneMatch'
  *     responses:
  *       200:
  *         description: Book copy found
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/BookCopy'
+ *               $ref: '#/components/schemas/ExpandedBookCopy'
+ *       400:
+ *         description: Invalid expansion
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Book copy not found
+ *       304:
+ *         $ref: '#/components/responses/NotModified'
  */
-router.get('/:id', getBookCopyById);
+router.get('/:id', parseExpand(bookCopyExpansions), getBookCopyById);
 
 /**
  * @swagger
@@ -69,24 +217,17 @@ router.get('/:id', getBookCopyById);
  *   post:
  *     summary: Create a new book copy
  *     tags: [Book Copies]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required: [bookId, imprint, status]
- *             properties:
- *               bookId:
- *                 type: string
- *               imprint:
- *                 type: string
- *               status:
- *                 type: string
- *                 enum: [available, unavailable, can be checkout, checked out]
- *               dueBackDate:
- *                 type: string
- *                 format: date
+ *             $ref: '#/components/schemas/BookCopy'
  *     responses:
  *       201:
  *         description: Book copy created successfully
@@ -96,39 +237,48 @@ router.get('/:id', getBookCopyById);
  *               $ref: '#/components/schemas/BookCopy'
  *       400:
  *         description: Invalid input
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       409:
+ *         description: Another copy has the barcode or RFID tag
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         $ref: '#/components/responses/IdempotencyKeyReused'
  */
-router.post('/', createBookCopy);
+router.post('/', requireRole('librarian'), validateBody(bookCopySchema), createBookCopy);
 
 /**
  * @swagger
  * /book-copies/{id}:
  *   put:
  *     summary: Update a book copy
+ *     description: The status cannot be changed here; use POST /book-copies/{id}/transitions.
  *     tags: [Book Copies]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required: [bookId, imprint, status]
- *             properties:
- *               bookId:
- *                 type: string
- *               imprint:
- *                 type: string
- *               status:
- *                 type: string
- *                 enum: [available, unavailable, can be checkout, checked out]
- *               dueBackDate:
- *                 type: string
- *                 format: date
+ *             $ref: '#/components/schemas/BookCopy'
  *     responses:
  *       200:
  *         description: Book copy updated successfully
@@ -136,35 +286,556 @@ router.post('/', createBookCopy);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/BookCopy'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         description: Book copy not found
  *       400:
  *         description: Invalid input
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The body changes the status of the copy, or has another copy's barcode or RFID tag
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.put('/:id', requireRole('librarian'), ifMatch(findBookCopyById, 'book copy'), validateBody(bookCopySchema), updateBookCopyById);
+
+/**
+ * @swagger
+ * /book-copies/{id}:
+ *   patch:
+ *     summary: Partially update a book copy
+ *     description: >
+ *       Applies a JSON Merge Patch (RFC 7396): fields in the body replace the stored values,
+ *       a field set to null is removed, and fields left out are unchanged.
+ *       The patched record is validated like a full update.
+ *     tags: [Book Copies]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/merge-patch+json:
+ *           schema:
+ *             $ref: '#/components/schemas/BookCopy'
+ *     responses:
+ *       200:
+ *         description: BookCopy updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BookCopy'
+ *       400:
+ *         description: The patched record is invalid
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book copy not found
+ *       409:
+ *         description: The patch changes the status of the copy, or gives it another copy's barcode or RFID tag
+ *       415:
+ *         description: The body is not JSON
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
  */
-router.put('/:id', updateBookCopyById);
+router.patch('/:id', requireRole('librarian'), ifMatch(findBookCopyById, 'book copy'), mergePatch(findBookCopyById, 'Book copy not found'), validateBody(bookCopySchema), updateBookCopyById);
 
 /** 
  * @swagger
  * /book-copies/{id}:
  *   delete:
  *     summary: Delete book copy by ID
+ *     description: The copy goes to the trash, from which a librarian can restore it until the trash is purged.
  *     tags: [Book Copies]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
  *     responses:
  *       204:
  *         description: Book copy deleted
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         description: Book copy not found
  *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Book copy is checked out, overdue, reserved, or in transit
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.delete('/:id', requireRole('librarian'), ifMatch(findBookCopyById, 'book copy'), deleteBookCopyById);
+
+/**
+ * @swagger
+ * /book-copies/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted book copy
+ *     description: Takes the copy out of the trash. Refused while its book is deleted; a copy deleted with its book is restored with the book.
+ *     tags: [Book Copies]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The restored book copy
+ *         headers:
+ *           ETag:
+ *             $ref: '#/components/headers/ETag'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BookCopy'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: No such book copy in the trash
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The book or a branch of the copy no longer exists, or the book is in the trash
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/DependencyConflict'
+ */
+router.post('/:id/restore', requireRole('librarian'), restoreBookCopyById);
+
+/**
+ * @swagger
+ * /book-copies/{id}/transitions:
+ *   post:
+ *     summary: Move a book copy to another status of its lifecycle
+ *     description: >
+ *       A copy is ordered (on-order), processed (processing) and shelved (available);
+ *       it can be lost, damaged, or withdrawn, which is final.
+ *       Lost copies can be found again and damaged ones repaired by processing them.
+ *       The reserved, on-loan and overdue statuses are entered and left through checkout, return and the hold queue instead,
+ *       and in-transit through the transfer endpoints; a copy lost or damaged in transit ends its transfer,
+ *       and a hold it was being sent for goes back in the queue.
+ *       A copy that becomes available is reserved for the first patron waiting for its book, if any.
+ *     tags: [Book Copies]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/CopyTransitionRequest'
+ *     responses:
+ *       200:
+ *         description: The book copy in its new status
+ *         content:
  *           application/json:
  *             schema:
+ *               $ref: '#/components/schemas/BookCopy'
+ *       400:
+ *         description: Invalid input
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book copy not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The lifecycle does not allow the transition, or it belongs to circulation or transfers; allowed lists the statuses the copy can move to
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               allOf:
+ *                 - $ref: '#/components/schemas/Error'
+ *                 - type: object
+ *                   properties:
+ *                     allowed:
+ *                       type: array
+ *                       items:
+ *                         $ref: '#/components/schemas/BookCopy/properties/status'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ *   get:
+ *     summary: Get the lifecycle history of a book copy
+ *     description: Every status the copy has been in, oldest first, starting with the one it was created in.
+ *     tags: [Book Copies]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of transitions, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/CopyTransition'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book copy not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/transitions', requireRole('librarian'), ifMatch(findBookCopyById, 'book copy'), validateBody(copyTransitionRequestSchema), transitionBookCopy);
+router.get('/:id/transitions', requireRole('librarian'), getBookCopyTransitions);
+
+/**
+ * @swagger
+ * /book-copies/{id}/transfers:
+ *   post:
+ *     summary: Request that a book copy be sent to another branch
+ *     description: >
+ *       The copy must be available and at a branch other than the one it is sent to.
+ *       It stays available where it is until the transfer is shipped, and checking it out cancels the transfer.
+ *       A temporary transfer lends the copy to the other branch; a permanent one makes it the copy's home branch.
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/TransferRequest'
+ *     responses:
+ *       201:
+ *         description: The requested transfer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Transfer'
+ *       400:
+ *         description: Invalid input or unknown branch
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book copy not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The copy is not available, is already at that branch, or is already being transferred
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   get:
+ *     summary: Get the transfers of a book copy
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: List of transfers, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Transfer'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book copy not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         $ref: '#/components/responses/IdempotencyKeyReused'
+ */
+router.post('/:id/transfers', requireRole('librarian'), validateBody(transferRequestSchema), createTransfer);
+router.get('/:id/transfers', requireRole('librarian'), getTransfersForBookCopy);
+
+/**
+ * @swagger
+ * /book-copies/{id}/checkout:
+ *   post:
+ *     summary: Check out a book copy to a patron
+ *     description: The due date is computed from the loan policy. Copies that are not available, unless they are reserved for the patron, and patrons at their borrowing limit, are refused.
+ *     tags: [Book Copies]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/PatronReference'
+ *     responses:
+ *       200:
+ *         description: Book copy checked out
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BookCopy'
+ *       400:
+ *         description: Invalid input
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book copy not found
+ *       409:
+ *         description: Book copy cannot be checked out or patron is at their borrowing limit
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ *       422:
+ *         $ref: '#/components/responses/IdempotencyKeyReused'
+ */
+router.post('/:id/checkout', requireRole('librarian'), ifMatch(findBookCopyById, 'book copy'), validateBody(patronReferenceSchema), checkoutBookCopy);
+
+/**
+ * @swagger
+ * /book-copies/{id}/return:
+ *   post:
+ *     summary: Return a checked out book copy
+ *     tags: [Book Copies]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     responses:
+ *       200:
+ *         description: Book copy returned
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BookCopy'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book copy not found
+ *       409:
+ *         description: Book copy is not checked out
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.post('/:id/return', requireRole('librarian'), ifMatch(findBookCopyById, 'book copy'), returnBookCopy);
+
+/**
+ * @swagger
+ * /book-copies/{id}/renew:
+ *   post:
+ *     summary: Renew the loan of a checked out book copy
+ *     tags: [Book Copies]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     responses:
+ *       200:
+ *         description: Loan renewed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/BookCopy'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book copy not found
+ *       409:
+ *         description: Book copy is not checked out or has no renewals left
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.post('/:id/renew', requireOwnerOrRole(req => findBookCopyById(req.params.id)?.patronId), ifMatch(findBookCopyById, 'book copy'), renewBookCopy);
+
+/**
+ * @swagger
+ * /book-copies/{id}/loans:
+ *   get:
+ *     summary: Get the loan history of a book copy
+ *     tags: [Book Copies]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only loans that were open on or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only loans that were open on or before this date
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *           enum: [open, closed]
+ *         description: Only loans that are still open or that have been returned
+ *     responses:
+ *       200:
+ *         description: List of loans, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Loan'
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book copy not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', deleteBookCopyById);
+router.get('/:id/loans', requireRole('librarian'), getLoansForBookCopy);
 
 export default router;
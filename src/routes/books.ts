@@ -1,31 +1,111 @@
-import { Router } from 'express';
+import { Request, Router } from 'express';
 import {
   getAllBooks,
   getBookById,
+  getBookByIsbn,
   createBook,
   updateBookById,
-  deleteBookById
+  deleteBookById,
+  attachAuthorToBook,
+  detachAuthorFromBook,
+  attachGenreToBook,
+  detachGenreFromBook
 } from '../controllers/booksControllers';
+import { getCopiesOfBook } from '../controllers/bookCopiesControllers';
+import { getBookAsMarc } from '../controllers/marcControllers';
+import { getBookHistory } from '../controllers/auditControllers';
+import {
+  getHoldsForBook,
+  getHoldById,
+  createHold,
+  cancelHold
+} from '../controllers/holdsControllers';
+import { validateBody } from '../middleware/validate';
+import { mergePatch } from '../middleware/mergePatch';
+import { ifMatch } from '../middleware/conditional';
+import { requireRole, requireOwnerOrRole } from '../middleware/auth';
+import { findBookById, findHoldById } from '../data/storage';
+import { restoreBookById } from '../controllers/trashControllers';
+import { parseListQuery } from '../middleware/listQuery';
+import { parseExpand } from '../middleware/expand';
+import { bookExpansions, bookCopyExpansions } from '../services/expansion';
+import { bookSchema, bookCopySchema, holdRequestSchema, auditEntrySchema } from '../models/schemas';
 
 const router = Router();
 
+/**
+ * Finds the patron who placed the hold named in the URL, so patrons can see and cancel their own holds.
+ *
+ * @param req the request containing the hold ID in the URL parameters
+ * @returns the id of the patron who placed the hold, if it exists
+ */
+const holdOwner = (req: Request): string | undefined => findHoldById(req.params.holdId)?.patronId;
+
 /**
  * @swagger
  * /books:
  *   get:
  *     summary: Get all books
  *     tags: [Books]
+ *     parameters:
+ *       - $ref: '#/components/parameters/ListLimit'
+ *       - $ref: '#/components/parameters/ListPage'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/ListFields'
+ *       - $ref: '#/components/parameters/BookExpand'
  *     responses:
  *       200:
  *         description: List of books
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           Link:
+ *             $ref: '#/components/headers/Link'
  *         content:
  *           application/json:
  *             schema:
  *               type: array
  *               items:
- *                 $ref: '#/components/schemas/Book'
+ *                 $ref: '#/components/schemas/ExpandedBook'
+ *       400:
+ *         description: Invalid paging, sort, field selection or expansion
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', parseListQuery(bookSchema), parseExpand(bookExpansions), getAllBooks);
+
+/**
+ * @swagger
+ * /books/by-isbn/{isbn}:
+ *   get:
+ *     summary: Get book by ISBN
+ *     description: Accepts an ISBN-10 or ISBN-13, with or without hyphens.
+ *     tags: [Books]
+ *     parameters:
+ *       - in: path
+ *         name: isbn
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/BookExpand'
+ *       - $ref: '#/components/parameters/IfNoneMatch'
+ *     responses:
+ *       200:
+ *         description: Book found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ExpandedBook'
+ *       400:
+ *         description: Invalid ISBN or expansion
+ *       404:
+ *         description: Book not found
+ *       304:
+ *         $ref: '#/components/responses/NotModified'
  */
-router.get('/', getAllBooks);
+router.get('/by-isbn/:isbn', parseExpand(bookExpansions), getBookByIsbn);
 
 /**
  * @swagger
@@ -39,17 +119,27 @@ router.get('/', getAllBooks);
  *         required: true
  *         schema:
  *           type: string
+ *       - $ref: '#/components/parameters/BookExpand'
+ *       - $ref: '#/components/parameters/IfNoneMatch'
  *     responses:
  *       200:
  *         description: Book found
  *         content:
  *           application/json:
  *             schema:
- *               $ref: '#/components/schemas/Book'
+ *               $ref: '#/components/schemas/ExpandedBook'
+ *       400:
+ *         description: Invalid expansion
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  *       404:
  *         description: Book not found
+ *       304:
+ *         $ref: '#/components/responses/NotModified'
  */
-router.get('/:id', getBookById);
+router.get('/:id', parseExpand(bookExpansions), getBookById);
 
 /**
  * @swagger
@@ -57,30 +147,17 @@ router.get('/:id', getBookById);
  *   post:
  *     summary: Create a new book
  *     tags: [Books]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required: [title, authorIds, genreIds, isbn, summary]
- *             properties:
- *               title:
- *                 type: string
- *               authorIds:
- *                 type: array
- *                 items:
- *                   type: string
- *                 minItems: 1
- *               genreIds:
- *                 type: array
- *                 items:
- *                   type: string
- *                 minItems: 1
- *               isbn:
- *                 type: string
- *               summary:
- *                 type: string
+ *             $ref: '#/components/schemas/Book'
  *     responses:
  *       201:
  *         description: Book created successfully
@@ -90,8 +167,24 @@ router.get('/:id', getBookById);
  *               $ref: '#/components/schemas/Book'
  *       400:
  *         description: Invalid input
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       409:
+ *         description: Another book already has the ISBN
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/DependencyConflict'
+ *       422:
+ *         $ref: '#/components/responses/IdempotencyKeyReused'
  */
-router.post('/', createBook);
+router.post('/', requireRole('librarian'), validateBody(bookSchema), createBook);
 
 /**
  * @swagger
@@ -99,36 +192,22 @@ router.post('/', createBook);
  *   put:
  *     summary: Update a book
  *     tags: [Books]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required: [title, authorIds, genreIds, isbn, summary]
- *             properties:
- *               title:
- *                 type: string
- *               authorIds:
- *                 type: array
- *                 items:
- *                   type: string
- *                 minItems: 1
- *               genreIds:
- *                 type: array
- *                 items:
- *                   type: string
- *                 minItems: 1
- *               isbn:
- *                 type: string
- *               summary:
- *                 type: string
+ *             $ref: '#/components/schemas/Book'
  *     responses:
  *       200:
  *         description: Book updated successfully
@@ -136,35 +215,666 @@ router.post('/', createBook);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Book'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         description: Book not found
  *       400:
  *         description: Invalid input
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Another book already has the ISBN
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/DependencyConflict'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
  */
-router.put('/:id', updateBookById);
+router.put('/:id', requireRole('librarian'), ifMatch(findBookById, 'book'), validateBody(bookSchema), updateBookById);
+
+/**
+ * @swagger
+ * /books/{id}:
+ *   patch:
+ *     summary: Partially update a book
+ *     description: >
+ *       Applies a JSON Merge Patch (RFC 7396): fields in the body replace the stored values,
+ *       a field set to null is removed, and fields left out are unchanged.
+ *       The patched record is validated like a full update.
+ *     tags: [Books]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/merge-patch+json:
+ *           schema:
+ *             $ref: '#/components/schemas/Book'
+ *     responses:
+ *       200:
+ *         description: Book updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Book'
+ *       400:
+ *         description: The patched record is invalid
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book not found
+ *       409:
+ *         description: Another book already has the ISBN
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/DependencyConflict'
+ *       415:
+ *         description: The body is not JSON
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.patch('/:id', requireRole('librarian'), ifMatch(findBookById, 'book'), mergePatch(findBookById, 'Book not found'), validateBody(bookSchema), updateBookById);
 
 /** 
  * @swagger
  * /books/{id}:
  *   delete:
  *     summary: Delete book by ID
+ *     description: The book, and any copies deleted with it, go to the trash, from which an admin can restore them together until the trash is purged.
  *     tags: [Books]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: cascade
+ *         schema:
+ *           type: string
+ *           enum: [delete]
+ *         description: Set to delete to delete the book's copies along with it.
+ *       - $ref: '#/components/parameters/IfMatch'
  *     responses:
  *       204:
  *         description: Book deleted
+ *       400:
+ *         description: Unknown cascade mode
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         description: Book not found
  *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The book still has copies, or a copy is checked out, reserved, or in transit
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/DependencyConflict'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.delete('/:id', requireRole('admin'), ifMatch(findBookById, 'book'), deleteBookById);
+
+/**
+ * @swagger
+ * /books/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted book
+ *     description: Takes the book out of the trash, with the copies that were deleted with it. Holds cancelled when it was deleted stay cancelled.
+ *     tags: [Books]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The restored book
+ *         headers:
+ *           ETag:
+ *             $ref: '#/components/headers/ETag'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Book'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: No such book in the trash
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: An author or genre of the book or a branch of one of its copies no longer exists, or another book now has its ISBN
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/DependencyConflict'
+ */
+router.post('/:id/restore', requireRole('admin'), restoreBookById);
+
+/**
+ * @swagger
+ * /books/{id}/copies:
+ *   get:
+ *     summary: Get the copies of a book
+ *     tags: [Books]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           $ref: '#/components/schemas/BookCopy/properties/status'
+ *         description: Filter by status
+ *       - $ref: '#/components/parameters/ListLimit'
+ *       - $ref: '#/components/parameters/ListPage'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/ListFields'
+ *       - $ref: '#/components/parameters/BookCopyExpand'
+ *     responses:
+ *       200:
+ *         description: List of book copies
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           Link:
+ *             $ref: '#/components/headers/Link'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ExpandedBookCopy'
+ *       400:
+ *         description: Invalid paging, sort, field selection or expansion
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Book not found
+ */
+router.get('/:id/copies', parseListQuery(bookCopySchema), parseExpand(bookCopyExpansions), getCopiesOfBook);
+
+/**
+ * @swagger
+ * /books/{id}/marc:
+ *   get:
+ *     summary: Get a book as a MARC 21 record
+ *     description: >
+ *       A book imported from MARC is exported with every field of the original record,
+ *       with the ISBN, title, summary, author and subject fields rewritten only if the book has changed since.
+ *     tags: [Books]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Book ID
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [marc, marcxml]
+ *         description: Format of the record; taken from the Accept header if not given, and MARCXML by default
+ *     responses:
+ *       200:
+ *         description: The MARC record of the book
+ *         content:
+ *           application/marcxml+xml:
+ *             schema:
+ *               type: string
+ *           application/marc:
+ *             schema:
+ *               type: string
+ *               format: binary
+ *       404:
+ *         description: Book not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       406:
+ *         description: The record is too long for the ISO 2709 format
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/marc', getBookAsMarc);
+
+/**
+ * @swagger
+ * /books/{id}/history:
+ *   get:
+ *     summary: Get the change history of a book
+ *     description: Every change made to the book, oldest first, from its creation to its deletion if it has been deleted.
+ *     tags: [Books]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: Book ID
+ *       - $ref: '#/components/parameters/ListLimit'
+ *       - $ref: '#/components/parameters/ListPage'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/ListFields'
+ *     responses:
+ *       200:
+ *         description: The audit entries of the book
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           Link:
+ *             $ref: '#/components/headers/Link'
+ *         content:
  *           application/json:
  *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/AuditEntry'
+ *       400:
+ *         description: Invalid paging, sort or field selection
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/history', requireRole('librarian'), parseListQuery(auditEntrySchema), getBookHistory);
+
+/**
+ * @swagger
+ * /books/{id}/authors/{authorId}:
+ *   post:
+ *     summary: Add an author to a book
+ *     description: Adding an author the book already lists leaves it unchanged.
+ *     tags: [Books]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: authorId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     responses:
+ *       200:
+ *         description: The updated book
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Book'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book or author not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   delete:
+ *     summary: Remove an author from a book
+ *     tags: [Books]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: authorId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     responses:
+ *       204:
+ *         description: Author removed from the book
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book not found, or the book does not list the author
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The author is the book's only author
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.post('/:id/authors/:authorId', requireRole('librarian'), ifMatch(findBookById, 'book'), attachAuthorToBook);
+router.delete('/:id/authors/:authorId', requireRole('librarian'), ifMatch(findBookById, 'book'), detachAuthorFromBook);
+
+/**
+ * @swagger
+ * /books/{id}/genres/{genreId}:
+ *   post:
+ *     summary: Add a genre to a book
+ *     description: Adding a genre the book already lists leaves it unchanged.
+ *     tags: [Books]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: genreId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     responses:
+ *       200:
+ *         description: The updated book
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Book'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book or genre not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *   delete:
+ *     summary: Remove a genre from a book
+ *     tags: [Books]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: genreId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     responses:
+ *       204:
+ *         description: Genre removed from the book
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book not found, or the book does not list the genre
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The genre is the book's only genre
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.post('/:id/genres/:genreId', requireRole('librarian'), ifMatch(findBookById, 'book'), attachGenreToBook);
+router.delete('/:id/genres/:genreId', requireRole('librarian'), ifMatch(findBookById, 'book'), detachGenreFromBook);
+
+/**
+ * @swagger
+ * /books/{id}/holds:
+ *   get:
+ *     summary: Get the hold queue of a book
+ *     description: Returns holds that are waiting, on their way to their pickup branch, or ready for pickup, in queue order.
+ *     tags: [Holds]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: patronId
+ *         schema:
+ *           type: string
+ *         description: Only return the holds of this patron
+ *     responses:
+ *       200:
+ *         description: List of holds
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Hold'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book not found
+ */
+router.get('/:id/holds', requireOwnerOrRole(req => req.query.patronId), getHoldsForBook);
+
+/**
+ * @swagger
+ * /books/{id}/holds:
+ *   post:
+ *     summary: Place a hold on a book
+ *     description: >
+ *       Joins the end of the book's hold queue. Only allowed while no copy of the book is available at the pickup branch,
+ *       or at any branch if no pickup branch is given. A copy that comes free at another branch is sent to the pickup branch,
+ *       and the hold is in-transit until it arrives.
+ *     tags: [Holds]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/HoldRequest'
+ *     responses:
+ *       201:
+ *         description: Hold placed
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Hold'
+ *       400:
+ *         description: Invalid input
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book not found
+ *       409:
+ *         description: A copy is available or the patron already has a hold on the book
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         $ref: '#/components/responses/IdempotencyKeyReused'
+ */
+router.post('/:id/holds', requireOwnerOrRole(req => req.body?.patronId), validateBody(holdRequestSchema), createHold);
+
+/**
+ * @swagger
+ * /books/{id}/holds/{holdId}:
+ *   get:
+ *     summary: Get a hold and its position in the queue
+ *     tags: [Holds]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: holdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Hold found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Hold'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book or hold not found
+ */
+router.get('/:id/holds/:holdId', requireOwnerOrRole(holdOwner), getHoldById);
+
+/**
+ * @swagger
+ * /books/{id}/holds/{holdId}:
+ *   delete:
+ *     summary: Cancel a hold
+ *     description: If a copy was reserved for the hold, it passes to the next patron in line.
+ *     tags: [Holds]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: holdId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       204:
+ *         description: Hold cancelled
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Book or hold not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Hold is no longer active
+ *         content:
+ *           application/problem+json:
+ *             schema:
  *               $ref: '#/components/schemas/Error'
  */
-router.delete('/:id', deleteBookById);
+router.delete('/:id/holds/:holdId', requireOwnerOrRole(holdOwner), cancelHold);
 
 export default router;
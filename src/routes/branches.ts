@@ -0,0 +1,278 @@
+import { Router } from 'express';
+import {
+  getAllBranches,
+  getBranchById,
+  createBranch,
+  updateBranchById,
+  deleteBranchById
+} from '../controllers/branchesControllers';
+import { validateBody } from '../middleware/validate';
+import { mergePatch } from '../middleware/mergePatch';
+import { ifMatch } from '../middleware/conditional';
+import { requireRole } from '../middleware/auth';
+import { findBranchById } from '../data/storage';
+import { parseListQuery } from '../middleware/listQuery';
+import { branchSchema } from '../models/schemas';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /branches:
+ *   get:
+ *     summary: Get all branches
+ *     tags: [Branches]
+ *     parameters:
+ *       - $ref: '#/components/parameters/ListLimit'
+ *       - $ref: '#/components/parameters/ListPage'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/ListFields'
+ *     responses:
+ *       200:
+ *         description: List of branches
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           Link:
+ *             $ref: '#/components/headers/Link'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Branch'
+ *       400:
+ *         description: Invalid paging, sort or field selection
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', parseListQuery(branchSchema), getAllBranches);
+
+/**
+ * @swagger
+ * /branches/{id}:
+ *   get:
+ *     summary: Get branch by ID
+ *     tags: [Branches]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfNoneMatch'
+ *     responses:
+ *       200:
+ *         description: Branch found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Branch'
+ *       404:
+ *         description: Branch not found
+ *       304:
+ *         $ref: '#/components/responses/NotModified'
+ */
+router.get('/:id', getBranchById);
+
+/**
+ * @swagger
+ * /branches:
+ *   post:
+ *     summary: Create a new branch
+ *     tags: [Branches]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Branch'
+ *     responses:
+ *       201:
+ *         description: Branch created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Branch'
+ *       400:
+ *         description: Invalid input
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       409:
+ *         description: Another branch already has the code
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         $ref: '#/components/responses/IdempotencyKeyReused'
+ */
+router.post('/', requireRole('admin'), validateBody(branchSchema), createBranch);
+
+/**
+ * @swagger
+ * /branches/{id}:
+ *   put:
+ *     summary: Update a branch
+ *     tags: [Branches]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Branch'
+ *     responses:
+ *       200:
+ *         description: Branch updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Branch'
+ *       400:
+ *         description: Invalid input
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Branch not found
+ *       409:
+ *         description: Another branch already has the code
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.put('/:id', requireRole('admin'), ifMatch(findBranchById, 'branch'), validateBody(branchSchema), updateBranchById);
+
+/**
+ * @swagger
+ * /branches/{id}:
+ *   patch:
+ *     summary: Partially update a branch
+ *     description: >
+ *       Applies a JSON Merge Patch (RFC 7396): fields in the body replace the stored values,
+ *       a field set to null is removed, and fields left out are unchanged.
+ *       The patched record is validated like a full update.
+ *     tags: [Branches]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/merge-patch+json:
+ *           schema:
+ *             $ref: '#/components/schemas/Branch'
+ *     responses:
+ *       200:
+ *         description: Branch updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Branch'
+ *       400:
+ *         description: The patched record is invalid
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Branch not found
+ *       409:
+ *         description: Another branch already has the code
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       415:
+ *         description: The body is not JSON
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.patch('/:id', requireRole('admin'), ifMatch(findBranchById, 'branch'), mergePatch(findBranchById, 'Branch not found'), validateBody(branchSchema), updateBranchById);
+
+/**
+ * @swagger
+ * /branches/{id}:
+ *   delete:
+ *     summary: Delete branch by ID
+ *     description: >
+ *       Branches are deleted outright rather than moved to the trash, so a branch can only be deleted
+ *       once no copies belong to or are at it, no holds are to be picked up at it, and no copies are being sent to or from it.
+ *     tags: [Branches]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     responses:
+ *       204:
+ *         description: Branch deleted
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Branch not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Copies, holds or transfers still refer to the branch
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/DependencyConflict'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.delete('/:id', requireRole('admin'), ifMatch(findBranchById, 'branch'), deleteBranchById);
+
+export default router;
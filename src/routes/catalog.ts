@@ -0,0 +1,168 @@
+import { Router } from 'express';
+import { importCatalogFile, exportCatalogFile } from '../controllers/catalogControllers';
+import { importMarcFile } from '../controllers/marcControllers';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /import:
+ *   post:
+ *     summary: Import the catalog from CSV or JSON Lines
+ *     description: >
+ *       Each row has a type of author, genre, book or copy.
+ *       Authors and genres are matched by name, and books by ISBN, so importing them again updates them instead of duplicating them.
+ *       Books list their authors and genres by name, separated by semicolons in CSV, and copies name their book by ISBN.
+ *       Authors list their pseudonyms and variants the same way, and a pseudonym or variant names its author in canonicalAuthor.
+ *       Loans, holds and transfers are not part of the catalog, so a new copy imported as on-loan, overdue, reserved or in-transit comes in as lost.
+ *       Every row is validated like the matching create or update request, and rows that fail are reported without stopping the import.
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, ndjson]
+ *         description: Format of the upload; taken from the Content-Type if not given
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *         description: Check every row and report what would happen, without writing anything
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         text/csv:
+ *           schema:
+ *             type: string
+ *           example: |
+ *             type,firstName,lastName,birthDate,name,title,isbn,summary,authors,genres,imprint,branch
+ *             author,Ursula,Le Guin,1929-10-21,,,,,,,,
+ *             genre,,,,Fantasy,,,,,,,
+ *             book,,,,,A Wizard of Earthsea,978-0-553-38304-1,A young wizard's journey,Ursula Le Guin,Fantasy,,
+ *             copy,,,,,,978-0-553-38304-1,,,,Bantam 2004,CEN
+ *         application/x-ndjson:
+ *           schema:
+ *             type: string
+ *     responses:
+ *       200:
+ *         description: Report of the import
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/ImportReport'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       415:
+ *         description: The upload is not CSV or JSON Lines
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         $ref: '#/components/responses/IdempotencyKeyReused'
+ */
+router.post('/import', requireRole('librarian'), importCatalogFile);
+
+/**
+ * @swagger
+ * /import/marc:
+ *   post:
+ *     summary: Import books from MARC 21 records
+ *     description: >
+ *       Accepts a file of MARC 21 bibliographic records in the ISO 2709 exchange format or as MARCXML.
+ *       Each record creates or updates the book with its ISBN (020 $a), taking the title from 245 $a and $b,
+ *       the summary from 520 $a, the authors from 100 and 700, and the genres from the subject headings in 650 and 655 $a.
+ *       Genres that are not in the catalog are created; authors must already be in the catalog, since MARC records do not give full birth dates.
+ *       The whole record is kept with the book, so fields the catalog does not map are exported again unchanged.
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [marc, marcxml]
+ *         description: Format of the upload; taken from the Content-Type if not given
+ *       - in: query
+ *         name: dryRun
+ *         schema:
+ *           type: boolean
+ *         description: Check every record and report what would happen, without writing anything
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/marc:
+ *           schema:
+ *             type: string
+ *             format: binary
+ *         application/marcxml+xml:
+ *           schema:
+ *             type: string
+ *     responses:
+ *       200:
+ *         description: Report of the import; errors are numbered by record rather than by line
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/MarcImportReport'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       415:
+ *         description: The upload is not MARC or MARCXML
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         $ref: '#/components/responses/IdempotencyKeyReused'
+ */
+router.post('/import/marc', requireRole('librarian'), importMarcFile);
+
+/**
+ * @swagger
+ * /export:
+ *   get:
+ *     summary: Export the catalog as CSV or JSON Lines
+ *     description: Streams every author, genre, book and copy in the format accepted by POST /import.
+ *     tags: [Catalog]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: format
+ *         schema:
+ *           type: string
+ *           enum: [csv, ndjson]
+ *         description: Format of the export; taken from the Accept header if not given, and JSON Lines by default
+ *     responses:
+ *       200:
+ *         description: The catalog
+ *         content:
+ *           application/x-ndjson:
+ *             schema:
+ *               type: string
+ *           text/csv:
+ *             schema:
+ *               type: string
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/export', requireRole('librarian'), exportCatalogFile);
+
+export default router;
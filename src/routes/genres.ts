@@ -4,8 +4,19 @@ import {
   getGenreById,
   createGenre,
   updateGenreById,
-  deleteGenreById
+  deleteGenreById,
+  getBooksInGenre
 } from '../controllers/genresControllers';
+import { validateBody } from '../middleware/validate';
+import { mergePatch } from '../middleware/mergePatch';
+import { ifMatch } from '../middleware/conditional';
+import { requireRole } from '../middleware/auth';
+import { findGenreById } from '../data/storage';
+import { restoreGenreById } from '../controllers/trashControllers';
+import { parseListQuery } from '../middleware/listQuery';
+import { parseExpand } from '../middleware/expand';
+import { bookExpansions } from '../services/expansion';
+import { genreSchema, bookSchema } from '../models/schemas';
 
 const router = Router();
 
@@ -15,17 +26,33 @@ const router = Router();
  *   get:
  *     summary: Get all genres
  *     tags: [Genres]
+ *     parameters:
+ *       - $ref: '#/components/parameters/ListLimit'
+ *       - $ref: '#/components/parameters/ListPage'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/ListFields'
  *     responses:
  *       200:
  *         description: List of genres
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           Link:
+ *             $ref: '#/components/headers/Link'
  *         content:
  *           application/json:
  *             schema:
  *               type: array
  *               items:
  *                 $ref: '#/components/schemas/Genre'
+ *       400:
+ *         description: Invalid paging, sort or field selection
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
  */
-router.get('/', getAllGenres);
+router.get('/', parseListQuery(genreSchema), getAllGenres);
 
 /**
  * @swagger
@@ -39,6 +66,7 @@ router.get('/', getAllGenres);
  *         required: true
  *         schema:
  *           type: string
+ *       - $ref: '#/components/parameters/IfNoneMatch'
  *     responses:
  *       200:
  *         description: Genre found
@@ -48,6 +76,8 @@ router.get('/', getAllGenres);
  *               $ref: '#/components/schemas/Genre'
  *       404:
  *         description: Genre not found
+ *       304:
+ *         $ref: '#/components/responses/NotModified'
  */
 router.get('/:id', getGenreById);
 
@@ -57,16 +87,17 @@ router.get('/:id', getGenreById);
  *   post:
  *     summary: Create a new genre
  *     tags: [Genres]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required: [name]
- *             properties:
- *               name:
- *                 type: string
+ *             $ref: '#/components/schemas/Genre'
  *     responses:
  *       201:
  *         description: Genre created successfully
@@ -76,8 +107,18 @@ router.get('/:id', getGenreById);
  *               $ref: '#/components/schemas/Genre'
  *       400:
  *         description: Invalid input
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       422:
+ *         $ref: '#/components/responses/IdempotencyKeyReused'
  */
-router.post('/', createGenre);
+router.post('/', requireRole('librarian'), validateBody(genreSchema), createGenre);
 
 /**
  * @swagger
@@ -85,22 +126,22 @@ router.post('/', createGenre);
  *   put:
  *     summary: Update a genre
  *     tags: [Genres]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
  *     requestBody:
  *       required: true
  *       content:
  *         application/json:
  *           schema:
- *             type: object
- *             required: [name]
- *             properties:
- *               name:
- *                 type: string
+ *             $ref: '#/components/schemas/Genre'
  *     responses:
  *       200:
  *         description: Genre updated successfully
@@ -108,33 +149,197 @@ router.post('/', createGenre);
  *           application/json:
  *             schema:
  *               $ref: '#/components/schemas/Genre'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         description: Genre not found
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
  */
-router.put('/:id', updateGenreById);
+router.put('/:id', requireRole('librarian'), ifMatch(findGenreById, 'genre'), validateBody(genreSchema), updateGenreById);
+
+/**
+ * @swagger
+ * /genres/{id}:
+ *   patch:
+ *     summary: Partially update a genre
+ *     description: >
+ *       Applies a JSON Merge Patch (RFC 7396): fields in the body replace the stored values,
+ *       a field set to null is removed, and fields left out are unchanged.
+ *       The patched record is validated like a full update.
+ *     tags: [Genres]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/merge-patch+json:
+ *           schema:
+ *             $ref: '#/components/schemas/Genre'
+ *     responses:
+ *       200:
+ *         description: Genre updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Genre'
+ *       400:
+ *         description: The patched record is invalid
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Genre not found
+ *       415:
+ *         description: The body is not JSON
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.patch('/:id', requireRole('librarian'), ifMatch(findGenreById, 'genre'), mergePatch(findGenreById, 'Genre not found'), validateBody(genreSchema), updateGenreById);
 
 /** 
  * @swagger
  * /genres/{id}:
  *   delete:
  *     summary: Delete genre by ID
+ *     description: The genre goes to the trash, from which an admin can restore it until the trash is purged.
  *     tags: [Genres]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
  *     parameters:
  *       - in: path
  *         name: id
  *         required: true
  *         schema:
  *           type: string
+ *       - in: query
+ *         name: cascade
+ *         schema:
+ *           type: string
+ *           enum: [detach]
+ *         description: Set to detach to remove the genre from books that list it before deleting it. Refused if a book would be left with no genres.
+ *       - $ref: '#/components/parameters/IfMatch'
  *     responses:
  *       204:
  *         description: Genre deleted
+ *       400:
+ *         description: Unknown cascade mode
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
  *       404:
  *         description: Genre not found
  *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Books still list the genre, or detaching would leave a book with no genres
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/DependencyConflict'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.delete('/:id', requireRole('admin'), ifMatch(findGenreById, 'genre'), deleteGenreById);
+
+/**
+ * @swagger
+ * /genres/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted genre
+ *     description: Takes the genre out of the trash. Books the genre was detached from when it was deleted are not changed.
+ *     tags: [Genres]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The restored genre
+ *         headers:
+ *           ETag:
+ *             $ref: '#/components/headers/ETag'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Genre'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: No such genre in the trash
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/restore', requireRole('admin'), restoreGenreById);
+
+/**
+ * @swagger
+ * /genres/{id}/books:
+ *   get:
+ *     summary: Get the books in a genre
+ *     tags: [Genres]
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/ListLimit'
+ *       - $ref: '#/components/parameters/ListPage'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/ListFields'
+ *       - $ref: '#/components/parameters/BookExpand'
+ *     responses:
+ *       200:
+ *         description: List of books
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           Link:
+ *             $ref: '#/components/headers/Link'
+ *         content:
  *           application/json:
  *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/ExpandedBook'
+ *       400:
+ *         description: Invalid paging, sort, field selection or expansion
+ *         content:
+ *           application/problem+json:
+ *             schema:
  *               $ref: '#/components/schemas/Error'
+ *       404:
+ *         description: Genre not found
  */
-router.delete('/:id', deleteGenreById);
+router.get('/:id/books', parseListQuery(bookSchema), parseExpand(bookExpansions), getBooksInGenre);
 
 export default router;
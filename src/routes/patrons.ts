@@ -0,0 +1,502 @@
+import { Router } from 'express';
+import {
+  getAllPatrons,
+  getPatronById,
+  createPatron,
+  updatePatronById,
+  deletePatronById
+} from '../controllers/patronsControllers';
+import { getLoansForPatron } from '../controllers/loansControllers';
+import { getFinesForPatron, payFine, waiveFine } from '../controllers/finesControllers';
+import { validateBody } from '../middleware/validate';
+import { mergePatch } from '../middleware/mergePatch';
+import { ifMatch } from '../middleware/conditional';
+import { requireRole, requireOwnerOrRole } from '../middleware/auth';
+import { findPatronById } from '../data/storage';
+import { restorePatronById } from '../controllers/trashControllers';
+import { patronSchema, finePaymentSchema, fineWaiverSchema } from '../models/schemas';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /patrons:
+ *   get:
+ *     summary: Get all patrons
+ *     tags: [Patrons]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     responses:
+ *       200:
+ *         description: List of patrons
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Patron'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/', requireRole('librarian'), getAllPatrons);
+
+/**
+ * @swagger
+ * /patrons/{id}:
+ *   get:
+ *     summary: Get patron by ID
+ *     tags: [Patrons]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfNoneMatch'
+ *     responses:
+ *       200:
+ *         description: Patron found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Patron'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Patron not found
+ *       304:
+ *         $ref: '#/components/responses/NotModified'
+ */
+router.get('/:id', requireOwnerOrRole(req => req.params.id), getPatronById);
+
+/**
+ * @swagger
+ * /patrons:
+ *   post:
+ *     summary: Create a new patron
+ *     tags: [Patrons]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Patron'
+ *     responses:
+ *       201:
+ *         description: Patron created successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Patron'
+ *       400:
+ *         description: Invalid input
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       422:
+ *         $ref: '#/components/responses/IdempotencyKeyReused'
+ */
+router.post('/', requireRole('librarian'), validateBody(patronSchema), createPatron);
+
+/**
+ * @swagger
+ * /patrons/{id}:
+ *   put:
+ *     summary: Update a patron
+ *     tags: [Patrons]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/Patron'
+ *     responses:
+ *       200:
+ *         description: Patron updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Patron'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Patron not found
+ *       400:
+ *         description: Invalid input
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.put('/:id', requireRole('librarian'), ifMatch(findPatronById, 'patron'), validateBody(patronSchema), updatePatronById);
+
+/**
+ * @swagger
+ * /patrons/{id}:
+ *   patch:
+ *     summary: Partially update a patron
+ *     description: >
+ *       Applies a JSON Merge Patch (RFC 7396): fields in the body replace the stored values,
+ *       a field set to null is removed, and fields left out are unchanged.
+ *       The patched record is validated like a full update.
+ *     tags: [Patrons]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/merge-patch+json:
+ *           schema:
+ *             $ref: '#/components/schemas/Patron'
+ *     responses:
+ *       200:
+ *         description: Patron updated successfully
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Patron'
+ *       400:
+ *         description: The patched record is invalid
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Patron not found
+ *       415:
+ *         description: The body is not JSON
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.patch('/:id', requireRole('librarian'), ifMatch(findPatronById, 'patron'), mergePatch(findPatronById, 'Patron not found'), validateBody(patronSchema), updatePatronById);
+
+/** 
+ * @swagger
+ * /patrons/{id}:
+ *   delete:
+ *     summary: Delete patron by ID
+ *     description: The patron goes to the trash, from which an admin can restore them until the trash is purged.
+ *     tags: [Patrons]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IfMatch'
+ *     responses:
+ *       204:
+ *         description: Patron deleted
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Patron not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: Patron still has book copies checked out
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       412:
+ *         $ref: '#/components/responses/PreconditionFailed'
+ */
+router.delete('/:id', requireRole('admin'), ifMatch(findPatronById, 'patron'), deletePatronById);
+
+/**
+ * @swagger
+ * /patrons/{id}/restore:
+ *   post:
+ *     summary: Restore a deleted patron
+ *     description: Takes the patron out of the trash.
+ *     tags: [Patrons]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The restored patron
+ *         headers:
+ *           ETag:
+ *             $ref: '#/components/headers/ETag'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Patron'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: No such patron in the trash
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/restore', requireRole('admin'), restorePatronById);
+
+/**
+ * @swagger
+ * /patrons/{id}/loans:
+ *   get:
+ *     summary: Get the loan history of a patron
+ *     tags: [Patrons]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: from
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only loans that were open on or after this date
+ *       - in: query
+ *         name: to
+ *         schema:
+ *           type: string
+ *           format: date
+ *         description: Only loans that were open on or before this date
+ *       - in: query
+ *         name: state
+ *         schema:
+ *           type: string
+ *           enum: [open, closed]
+ *         description: Only loans that are still open or that have been returned
+ *     responses:
+ *       200:
+ *         description: List of loans, oldest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Loan'
+ *       400:
+ *         description: Invalid query parameters
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Patron not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id/loans', requireOwnerOrRole(req => req.params.id), getLoansForPatron);
+
+/**
+ * @swagger
+ * /patrons/{id}/fines:
+ *   get:
+ *     summary: Get the fines and outstanding balance of a patron
+ *     tags: [Fines]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           type: string
+ *           enum: [open, paid, waived]
+ *         description: Only list fines with this status
+ *     responses:
+ *       200:
+ *         description: The patron's balance and fines
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: object
+ *               properties:
+ *                 balanceCents:
+ *                   type: integer
+ *                 fines:
+ *                   type: array
+ *                   items:
+ *                     $ref: '#/components/schemas/Fine'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Patron not found
+ */
+router.get('/:id/fines', requireOwnerOrRole(req => req.params.id), getFinesForPatron);
+
+/**
+ * @swagger
+ * /patrons/{id}/fines/{fineId}/payments:
+ *   post:
+ *     summary: Record a payment towards a fine
+ *     tags: [Fines]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: fineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - $ref: '#/components/parameters/IdempotencyKey'
+ *     requestBody:
+ *       required: true
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/FinePayment'
+ *     responses:
+ *       200:
+ *         description: Payment recorded
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Fine'
+ *       400:
+ *         description: Invalid amount
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Patron or fine not found
+ *       409:
+ *         description: Fine is not open
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       422:
+ *         $ref: '#/components/responses/IdempotencyKeyReused'
+ */
+router.post('/:id/fines/:fineId/payments', requireRole('librarian'), validateBody(finePaymentSchema), payFine);
+
+/**
+ * @swagger
+ * /patrons/{id}/fines/{fineId}/waiver:
+ *   post:
+ *     summary: Waive the outstanding amount of a fine
+ *     tags: [Fines]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *       - in: path
+ *         name: fineId
+ *         required: true
+ *         schema:
+ *           type: string
+ *     requestBody:
+ *       content:
+ *         application/json:
+ *           schema:
+ *             $ref: '#/components/schemas/FineWaiver'
+ *     responses:
+ *       200:
+ *         description: Fine waived
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Fine'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Patron or fine not found
+ *       409:
+ *         description: Fine is not open
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/fines/:fineId/waiver', requireRole('librarian'), validateBody(fineWaiverSchema), waiveFine);
+
+export default router;
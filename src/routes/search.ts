@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { searchCatalog } from '../controllers/searchControllers';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /search:
+ *   get:
+ *     summary: Search the catalog
+ *     description: >
+ *       Finds books matching every word of the query in their title, summary, ISBN, or the names of their authors and genres.
+ *       Matching ignores case and diacritics, and a word also matches longer words that start with it.
+ *       Results are ranked by relevance, with title and ISBN matches counting most.
+ *     tags: [Search]
+ *     parameters:
+ *       - in: query
+ *         name: q
+ *         required: true
+ *         schema:
+ *           type: string
+ *         description: The words to search for
+ *       - in: query
+ *         name: authorId
+ *         schema:
+ *           type: string
+ *         description: Only return books by this author
+ *       - in: query
+ *         name: genreId
+ *         schema:
+ *           type: string
+ *         description: Only return books in this genre
+ *       - in: query
+ *         name: limit
+ *         schema:
+ *           type: integer
+ *           minimum: 1
+ *           default: 20
+ *         description: Number of results per page
+ *       - $ref: '#/components/parameters/ListPage'
+ *     responses:
+ *       200:
+ *         description: A page of matching books, most relevant first, with facet counts over every match
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/SearchResult'
+ *       400:
+ *         description: Missing query or invalid paging
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/', searchCatalog);
+
+export default router;
@@ -0,0 +1,216 @@
+import { Router } from 'express';
+import {
+  getAllTransfers,
+  getTransferById,
+  shipTransferById,
+  receiveTransferById,
+  cancelTransferById
+} from '../controllers/transfersControllers';
+import { requireRole } from '../middleware/auth';
+
+const router = Router();
+
+router.use(requireRole('librarian'));
+
+/**
+ * @swagger
+ * /transfers:
+ *   get:
+ *     summary: Get the transfers of book copies between branches
+ *     description: Newest first. Request a transfer with POST /book-copies/{id}/transfers.
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: status
+ *         schema:
+ *           $ref: '#/components/schemas/Transfer/properties/status'
+ *         description: Filter by status, e.g. requested for the copies a branch has to send
+ *       - in: query
+ *         name: branchId
+ *         schema:
+ *           type: string
+ *         description: Filter by the branch the copies leave or go to
+ *     responses:
+ *       200:
+ *         description: List of transfers, newest first
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/Transfer'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/', getAllTransfers);
+
+/**
+ * @swagger
+ * /transfers/{id}:
+ *   get:
+ *     summary: Get transfer by ID
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: Transfer found
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Transfer'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Transfer not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.get('/:id', getTransferById);
+
+/**
+ * @swagger
+ * /transfers/{id}/ship:
+ *   post:
+ *     summary: Record that a transfer has left its branch
+ *     description: The copy goes in transit and is at no branch until the transfer is received.
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The shipped transfer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Transfer'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Transfer not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The transfer is not requested, or the copy can no longer be shipped
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/ship', shipTransferById);
+
+/**
+ * @swagger
+ * /transfers/{id}/receive:
+ *   post:
+ *     summary: Record that a transfer has arrived
+ *     description: >
+ *       The copy is now at the branch it was sent to, which becomes its home branch too if the transfer is permanent.
+ *       A copy sent for a hold is reserved for the patron who placed it;
+ *       any other copy goes to the next patron waiting for its book, or becomes available.
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The received transfer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Transfer'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Transfer not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The transfer has not been shipped, or has already been received or cancelled
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/receive', receiveTransferById);
+
+/**
+ * @swagger
+ * /transfers/{id}/cancel:
+ *   post:
+ *     summary: Cancel a transfer that has not been shipped
+ *     description: The copy stays where it is. Transfers for holds are cancelled by cancelling the hold.
+ *     tags: [Transfers]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: path
+ *         name: id
+ *         required: true
+ *         schema:
+ *           type: string
+ *     responses:
+ *       200:
+ *         description: The cancelled transfer
+ *         content:
+ *           application/json:
+ *             schema:
+ *               $ref: '#/components/schemas/Transfer'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ *       404:
+ *         description: Transfer not found
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       409:
+ *         description: The transfer has been shipped, received or cancelled, or is for a hold
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ */
+router.post('/:id/cancel', cancelTransferById);
+
+export default router;
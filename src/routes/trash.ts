@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { getTrash } from '../controllers/trashControllers';
+import { requireRole } from '../middleware/auth';
+import { parseListQuery } from '../middleware/listQuery';
+import { trashItemSchema } from '../models/schemas';
+
+const router = Router();
+
+/**
+ * @swagger
+ * /trash:
+ *   get:
+ *     summary: List deleted records
+ *     description: >
+ *       The books, authors, genres, copies and patrons that have been deleted but not purged yet, most recently deleted first.
+ *       Each can be brought back with POST /{resource}/{id}/restore.
+ *     tags: [Trash]
+ *     security:
+ *       - bearerAuth: []
+ *       - apiKeyAuth: []
+ *     parameters:
+ *       - in: query
+ *         name: type
+ *         schema:
+ *           type: string
+ *           enum: [books, authors, genres, bookCopies, patrons]
+ *         description: Only deleted records of this kind
+ *       - $ref: '#/components/parameters/ListLimit'
+ *       - $ref: '#/components/parameters/ListPage'
+ *       - $ref: '#/components/parameters/ListSort'
+ *       - $ref: '#/components/parameters/ListFields'
+ *     responses:
+ *       200:
+ *         description: The deleted records
+ *         headers:
+ *           X-Total-Count:
+ *             $ref: '#/components/headers/X-Total-Count'
+ *           Link:
+ *             $ref: '#/components/headers/Link'
+ *         content:
+ *           application/json:
+ *             schema:
+ *               type: array
+ *               items:
+ *                 $ref: '#/components/schemas/TrashItem'
+ *       400:
+ *         description: Invalid type, paging, sort or field selection
+ *         content:
+ *           application/problem+json:
+ *             schema:
+ *               $ref: '#/components/schemas/Error'
+ *       401:
+ *         $ref: '#/components/responses/Unauthorized'
+ *       403:
+ *         $ref: '#/components/responses/Forbidden'
+ */
+router.get('/', requireRole('librarian'), parseListQuery(trashItemSchema), getTrash);
+
+export default router;
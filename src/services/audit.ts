@@ -0,0 +1,85 @@
+import { addAuditEntry, generateId, onStorageChange, Collection, StorageChange } from '../data/storage';
+import { Entity } from '../data/repository';
+import { AuditChange, AuditEntry, Deletable } from '../models';
+import { now } from './clock';
+import { currentRequestContext } from './requestContext';
+
+/**
+ * The collections whose changes are audited: the catalog and circulation records.
+ */
+export const auditedResources: Collection[] = [
+  'books',
+  'authors',
+  'genres',
+  'bookCopies',
+  'patrons',
+  'loans',
+  'holds',
+  'fines',
+  'branches',
+  'transfers',
+];
+
+/**
+ * Fields storage keeps up to date on every write, which are not worth recording as changes.
+ */
+const bookkeepingFields = ['version', 'updatedAt'];
+
+/**
+ * Lists the fields that differ between two versions of a record.
+ *
+ * @param before the record before the change, or undefined if it was created
+ * @param after the record after the change, or undefined if it was deleted
+ * @returns each field that differs, with its value before and after
+ */
+export const diffRecords = (before?: Entity, after?: Entity): AuditChange[] => {
+  const oldValues = (before ?? {}) as Record<string, unknown>;
+  const newValues = (after ?? {}) as Record<string, unknown>;
+  return Array.from(new Set([...Object.keys(oldValues), ...Object.keys(newValues)]))
+    .filter(field => !bookkeepingFields.includes(field))
+    .filter(field => JSON.stringify(oldValues[field]) !== JSON.stringify(newValues[field]))
+    .map(field => ({ field, before: oldValues[field], after: newValues[field] }));
+};
+
+/**
+ * Works out what kind of change storage reported.
+ * Moving a record to the trash counts as deleting it, taking it out again as restoring it,
+ * and removing a record that was in the trash as purging it.
+ *
+ * @param change the change
+ * @returns the action to record
+ */
+const actionOf = ({ before, after }: StorageChange): AuditEntry['action'] => {
+  const wasDeleted = Boolean((before as Deletable | undefined)?.deletedAt);
+  const isDeleted = Boolean((after as Deletable | undefined)?.deletedAt);
+  if (!before) return 'create';
+  if (!after) return wasDeleted ? 'purge' : 'delete';
+  if (wasDeleted !== isDeleted) return isDeleted ? 'delete' : 'restore';
+  return 'update';
+};
+
+/**
+ * Records every change to an audited collection in the audit log, as storage reports it,
+ * so that no controller has to remember to.
+ * The user and request are taken from the context of the request that made the change, if any.
+ */
+onStorageChange(change => {
+  if (!auditedResources.includes(change.collection)) return;
+
+  const changes = diffRecords(change.before, change.after);
+  if (change.before && change.after && changes.length === 0) return;
+
+  const context = currentRequestContext();
+  const entry: AuditEntry = {
+    id: generateId('auditLog'),
+    at: now().toISOString(),
+    action: actionOf(change),
+    resource: change.collection,
+    resourceId: change.id,
+    actorId: context?.user?.id,
+    actorName: context?.user?.username,
+    requestId: context?.requestId,
+    changes,
+  };
+  addAuditEntry(entry);
+});
@@ -0,0 +1,221 @@
+import { createHash, createHmac, randomBytes, scrypt, timingSafeEqual } from 'crypto';
+import { promisify } from 'util';
+import {
+  addUser,
+  findApiKeyByHash,
+  findUserById,
+  findUserByUsername,
+  generateId,
+  listUsers,
+  updateApiKey
+} from '../data/storage';
+import { ApiKey, User } from '../models';
+import { authPolicy } from '../config';
+import { now } from './clock';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keyLength: number) => Promise<Buffer>;
+
+const PASSWORD_KEY_LENGTH = 64;
+
+/**
+ * The prefix of every API key, so that leaked keys are easy to recognise.
+ */
+const API_KEY_PREFIX = 'lib_';
+
+/**
+ * How often, at most, the last use of an API key is written back to storage.
+ */
+const API_KEY_USE_RESOLUTION_MS = 60 * 1000;
+
+/**
+ * The secret bearer tokens are signed with. Without a configured secret, one is made up for this process.
+ */
+const tokenSecret = authPolicy.tokenSecret || randomBytes(32).toString('hex');
+
+/**
+ * A user as the API shows them, without their password hash.
+ */
+export type PublicUser = Omit<User, 'passwordHash'>;
+
+/**
+ * A bearer token issued at login, with when it expires.
+ */
+export interface IssuedToken {
+  token: string;
+  expiresAt: string;
+}
+
+/**
+ * Removes the password hash from a user before it is sent to a client.
+ *
+ * @param user the user
+ * @returns the user without their password hash
+ */
+export const toPublicUser = ({ passwordHash, ...user }: User): PublicUser => user;
+
+/**
+ * Hashes a password with scrypt and a random salt.
+ *
+ * @param password the password
+ * @returns the hash, in the form scrypt$<salt>$<key>
+ */
+export const hashPassword = async (password: string): Promise<string> => {
+  const salt = randomBytes(16);
+  const key = await scryptAsync(password, salt, PASSWORD_KEY_LENGTH);
+  return `scrypt$${salt.toString('base64')}$${key.toString('base64')}`;
+};
+
+/**
+ * Checks a password against a hash made by hashPassword, in constant time.
+ *
+ * @param password the password to check
+ * @param passwordHash the stored hash
+ * @returns true if the password matches
+ */
+export const verifyPassword = async (password: string, passwordHash: string): Promise<boolean> => {
+  const [scheme, salt, key] = passwordHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !key) return false;
+  const expected = Buffer.from(key, 'base64');
+  const actual = await scryptAsync(password, Buffer.from(salt, 'base64'), expected.length);
+  return timingSafeEqual(actual, expected);
+};
+
+/**
+ * A hash to check passwords against when the username is unknown,
+ * so that a failed login takes as long whether or not the user exists.
+ */
+const decoyPasswordHash = hashPassword(randomBytes(16).toString('hex'));
+
+/**
+ * Checks a username and password.
+ *
+ * @param username the username
+ * @param password the password
+ * @returns the user if the password is theirs, otherwise undefined
+ */
+export const authenticateUser = async (username: string, password: string): Promise<User | undefined> => {
+  const user = findUserByUsername(username);
+  const matches = await verifyPassword(password, user?.passwordHash ?? await decoyPasswordHash);
+  return user && matches ? user : undefined;
+};
+
+/**
+ * Signs the header and payload of a token.
+ *
+ * @param signingInput the encoded header and payload, joined by a dot
+ * @returns the HMAC-SHA256 signature
+ */
+const sign = (signingInput: string): Buffer => createHmac('sha256', tokenSecret).update(signingInput).digest();
+
+/**
+ * Issues a signed bearer token (a JSON Web Token using HS256) for a user.
+ *
+ * @param user the user who signed in
+ * @returns the token and when it expires
+ */
+export const issueToken = (user: User): IssuedToken => {
+  const issuedAt = Math.floor(now().getTime() / 1000);
+  const expiresAt = issuedAt + authPolicy.tokenTtlSeconds;
+  const header = Buffer.from(JSON.stringify({ alg: 'HS256', typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify({ sub: user.id, role: user.role, iat: issuedAt, exp: expiresAt }))
+    .toString('base64url');
+  const signingInput = `${header}.${payload}`;
+  return {
+    token: `${signingInput}.${sign(signingInput).toString('base64url')}`,
+    expiresAt: new Date(expiresAt * 1000).toISOString(),
+  };
+};
+
+/**
+ * Checks the signature and expiry of a bearer token and finds the user it was issued to.
+ * The user is looked up again rather than trusted from the token, so deleted users and role changes take effect at once.
+ *
+ * @param token the token
+ * @returns the user the token was issued to, or undefined if the token is invalid, expired, or their user is gone
+ */
+export const verifyToken = (token: string): User | undefined => {
+  const [header, payload, signature, ...rest] = token.split('.');
+  if (!header || !payload || !signature || rest.length > 0) return undefined;
+
+  const expected = sign(`${header}.${payload}`);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) return undefined;
+
+  try {
+    const { alg } = JSON.parse(Buffer.from(header, 'base64url').toString());
+    const { sub, exp } = JSON.parse(Buffer.from(payload, 'base64url').toString());
+    if (alg !== 'HS256' || typeof sub !== 'string' || typeof exp !== 'number') return undefined;
+    if (exp <= now().getTime() / 1000) return undefined;
+    return findUserById(sub);
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Hashes an API key for storage and lookup.
+ * API keys are long and random, so a fast hash is enough.
+ *
+ * @param key the API key
+ * @returns the SHA-256 hash of the key
+ */
+const hashApiKey = (key: string): string => createHash('sha256').update(key).digest('hex');
+
+/**
+ * Makes up a new API key for a user.
+ *
+ * @param userId the id of the user the key acts as
+ * @param name what the key is for
+ * @returns the key, to show once, and the record to store, which holds only its hash
+ */
+export const generateApiKey = (userId: string, name: string): { key: string; apiKey: ApiKey } => {
+  const key = `${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`;
+  return {
+    key,
+    apiKey: {
+      id: generateId('apiKeys'),
+      userId,
+      name,
+      prefix: key.slice(0, API_KEY_PREFIX.length + 5),
+      keyHash: hashApiKey(key),
+      createdAt: now().toISOString(),
+    },
+  };
+};
+
+/**
+ * Finds the user an API key acts as, and records that the key was used.
+ *
+ * @param key the API key
+ * @returns the user who created the key, or undefined if the key is unknown or their user is gone
+ */
+export const verifyApiKey = (key: string): User | undefined => {
+  const apiKey = findApiKeyByHash(hashApiKey(key));
+  if (!apiKey) return undefined;
+
+  const usedAt = now();
+  if (!apiKey.lastUsedAt || usedAt.getTime() - Date.parse(apiKey.lastUsedAt) >= API_KEY_USE_RESOLUTION_MS) {
+    updateApiKey(apiKey.id, { lastUsedAt: usedAt.toISOString() });
+  }
+  return findUserById(apiKey.userId);
+};
+
+/**
+ * Creates the first admin user when there are no users yet, so that the API can be administered at all.
+ * Without a configured password, a random one is made up and printed once.
+ */
+export const ensureAdminUser = async (): Promise<void> => {
+  if (listUsers().length > 0) return;
+
+  const password = authPolicy.adminPassword || randomBytes(12).toString('base64url');
+  addUser({
+    id: generateId('users'),
+    username: authPolicy.adminUsername,
+    passwordHash: await hashPassword(password),
+    role: 'admin',
+    createdAt: now().toISOString(),
+  });
+  if (!authPolicy.adminPassword) {
+    console.log(`Created admin user '${authPolicy.adminUsername}' with password: ${password}`);
+  }
+};
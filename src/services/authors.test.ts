@@ -0,0 +1,32 @@
+import { authorErrors } from './authors';
+import { resetClock, setClock } from './clock';
+
+beforeEach(() => setClock(() => new Date('2030-06-15T12:00:00Z')));
+afterEach(resetClock);
+
+const fields = (birthDate: string, deathDate?: string) =>
+  authorErrors({ birthDate, deathDate }).map(error => error.field);
+
+describe('authorErrors', () => {
+  it('accepts life dates in order, however precisely they are known', () => {
+    expect(fields('1564-04-23', '1616-04-23')).toEqual([]);
+    expect(fields('1564', '1616~')).toEqual([]);
+  });
+
+  it('refuses a death before the birth', () => {
+    expect(fields('1616-04-23', '1564-04-23')).toEqual(['deathDate']);
+    expect(fields('1616', '1564')).toEqual(['deathDate']);
+  });
+
+  it('gives partial and approximate dates the benefit of the doubt', () => {
+    expect(fields('1564-04-23', '1564-04')).toEqual([]);
+    expect(fields('1565', '1564~')).toEqual([]);
+    expect(fields('1566', '1564~')).toEqual(['deathDate']);
+  });
+
+  it('refuses dates in the future of the clock', () => {
+    expect(fields('2030-06-16')).toEqual(['birthDate']);
+    expect(fields('1950', '2031')).toEqual(['deathDate']);
+    expect(fields('2030')).toEqual([]);
+  });
+});
@@ -0,0 +1,114 @@
+import { findAuthorById, findAuthorsByCanonicalAuthorId, listAuthors, updateAuthor } from '../data/storage';
+import { Author } from '../models';
+import { parsePartialDate, partialDateRange } from '../models/partialDate';
+import { FieldError } from '../models/schema';
+import { now } from './clock';
+import { authorName, tokenize } from './search';
+
+/**
+ * Builds the name an author is filed under when none is given: "lastName, firstName", or the first name alone.
+ *
+ * @param firstName the author's first name
+ * @param lastName the author's last name, if any
+ * @returns the sort name
+ */
+export const defaultSortName = (firstName: string, lastName?: string): string =>
+  (lastName ? `${lastName}, ${firstName}` : firstName);
+
+/**
+ * Checks that an author record can be linked to another author as one of their pseudonyms or variants.
+ *
+ * @param canonicalAuthorId the id of the author to link to
+ * @param id the id of the author record, if it already exists
+ * @returns what is wrong with the link, or undefined if it can be made
+ */
+const canonicalAuthorProblem = (canonicalAuthorId: string, id?: string): string | undefined => {
+  if (canonicalAuthorId === id) {
+    return 'An author cannot be a pseudonym or variant of itself';
+  }
+  const canonical = findAuthorById(canonicalAuthorId);
+  if (!canonical) {
+    return `Author ${canonicalAuthorId} does not exist`;
+  }
+  if (canonical.canonicalAuthorId) {
+    return `Author ${canonicalAuthorId} is a pseudonym or variant of author ${canonical.canonicalAuthorId}; link to that author instead`;
+  }
+  if (id && findAuthorsByCanonicalAuthorId(id).length > 0) {
+    return 'The author has pseudonyms or variants of its own, so it cannot be one itself';
+  }
+  return undefined;
+};
+
+/**
+ * Checks the fields of an author that depend on each other or on other records, once each field is known to be valid:
+ * the life dates must not be in the future and the author cannot die before they were born,
+ * allowing for how precisely each date is known; and the canonical author of a pseudonym or variant
+ * must be another author that is not itself a pseudonym or variant, so that every name leads straight to its author.
+ *
+ * @param author the life dates and canonical author of the author, and its id if it already exists
+ * @returns the problems found, one per offending field; empty if the fields are consistent
+ */
+export const authorErrors = (
+  author: Pick<Author, 'birthDate' | 'deathDate' | 'canonicalAuthorId'> & { id?: string }
+): FieldError[] => {
+  const errors: FieldError[] = [];
+  const today = now().toISOString().slice(0, 10);
+  const birth = parsePartialDate(author.birthDate);
+  const death = author.deathDate ? parsePartialDate(author.deathDate) : undefined;
+
+  if (birth && partialDateRange(birth).earliest > today) {
+    errors.push({ field: 'birthDate', message: 'birthDate must not be in the future' });
+  }
+  if (death && partialDateRange(death).earliest > today) {
+    errors.push({ field: 'deathDate', message: 'deathDate must not be in the future' });
+  } else if (birth && death && partialDateRange(death).latest < partialDateRange(birth).earliest) {
+    errors.push({ field: 'deathDate', message: 'deathDate must not be before birthDate' });
+  }
+
+  const problem = author.canonicalAuthorId ? canonicalAuthorProblem(author.canonicalAuthorId, author.id) : undefined;
+  if (problem) errors.push({ field: 'canonicalAuthorId', message: problem });
+  return errors;
+};
+
+/**
+ * Lists the author records of one person: their own record and the records of their pseudonyms and variants.
+ *
+ * @param author any of the records
+ * @returns the canonical record first, then the records linked to it
+ */
+const identityOf = (author: Author): Author[] => {
+  const canonical = (author.canonicalAuthorId && findAuthorById(author.canonicalAuthorId)) || author;
+  return [canonical, ...findAuthorsByCanonicalAuthorId(canonical.id)];
+};
+
+/**
+ * Checks whether an author goes by a name: their full name, sort name or alternate names,
+ * or those of their pseudonyms and variants or of the author they are a pseudonym or variant of.
+ * Every word of the name must start a word of one of those names, ignoring case, diacritics and word order,
+ * so "le guin", "Guin, Ursula" and "urs" all find Ursula K. Le Guin.
+ *
+ * @param author the author
+ * @param name the name to look for
+ * @returns true if the author goes by the name
+ */
+export const matchesAuthorName = (author: Author, name: string): boolean => {
+  const terms = tokenize(name);
+  return identityOf(author)
+    .flatMap(record => [authorName(record), record.sortName, ...(record.alternateNames ?? []).map(alternate => alternate.name)])
+    .some(variant => {
+      const words = tokenize(variant ?? '');
+      return terms.every(term => words.some(word => word.startsWith(term)));
+    });
+};
+
+/**
+ * Gives a sort name to every author that has none, e.g. authors stored before authors had sort names.
+ * Run at startup, and when authors come back from the trash.
+ *
+ * @returns the number of authors given a sort name
+ */
+export const assignMissingSortNames = (): number => {
+  const unsorted = listAuthors().filter(author => !author.sortName);
+  unsorted.forEach(author => updateAuthor(author.id, { sortName: defaultSortName(author.firstName, author.lastName) }));
+  return unsorted.length;
+};
@@ -0,0 +1,74 @@
+import {
+  findBookCopyByBarcode,
+  findBookCopyByRfidTag,
+  listBookCopies,
+  nextSequenceValue,
+  updateBookCopy
+} from '../data/storage';
+import { BookCopy } from '../models';
+import { barcodeCheckDigit, normalizeBarcode, normalizeRfidTag } from '../models/barcode';
+import { barcodePolicy } from '../config';
+
+/**
+ * The sequence barcodes are allocated from.
+ */
+const BARCODE_SEQUENCE = 'barcode';
+
+/**
+ * Allocates the next barcode of the library: the configured prefix, the next number of the barcode sequence,
+ * and a check digit. Numbers whose barcode a copy already has, e.g. because it was entered by hand, are skipped,
+ * so allocated barcodes never collide.
+ *
+ * @returns the new barcode
+ */
+export const allocateBarcode = (): string => {
+  let barcode: string;
+  do {
+    const number = String(nextSequenceValue(BARCODE_SEQUENCE)).padStart(barcodePolicy.sequenceDigits, '0');
+    const payload = `${barcodePolicy.prefix}${number}`;
+    barcode = payload + barcodeCheckDigit(payload);
+  } while (findBookCopyByBarcode(barcode));
+  return barcode;
+};
+
+/**
+ * Gives a barcode to every copy that has none, e.g. copies stored before copies had barcodes.
+ * Run at startup, and when copies come back from the trash.
+ *
+ * @returns the number of copies given a barcode
+ */
+export const assignMissingBarcodes = (): number => {
+  const unlabelled = listBookCopies().filter(copy => !copy.barcode);
+  unlabelled.forEach(copy => updateBookCopy(copy.id, { barcode: allocateBarcode() }));
+  return unlabelled.length;
+};
+
+/**
+ * Finds the copy a scanner read, by its barcode or by the ID of its RFID tag.
+ * Copies in the trash are not found.
+ *
+ * @param code the barcode or tag ID as scanned
+ * @returns the book copy, or undefined if no copy has the code
+ */
+export const findCopyByScan = (code: string): BookCopy | undefined => {
+  const barcode = normalizeBarcode(code);
+  const rfidTag = normalizeRfidTag(code);
+  const copy = (barcode ? findBookCopyByBarcode(barcode) : undefined)
+    ?? (rfidTag ? findBookCopyByRfidTag(rfidTag) : undefined);
+  return copy && !copy.deletedAt ? copy : undefined;
+};
+
+/**
+ * Checks that the barcode and RFID tag of a copy are not another copy's, including copies in the trash.
+ *
+ * @param copy the id of the copy, if it exists, and its normalized barcode and tag ID
+ * @returns a description of each clash, or an empty list if the identifiers are free
+ */
+export const identifierConflicts = (copy: Pick<BookCopy, 'barcode' | 'rfidTag'> & { id?: string }): string[] => {
+  const sameBarcode = copy.barcode ? findBookCopyByBarcode(copy.barcode) : undefined;
+  const sameTag = copy.rfidTag ? findBookCopyByRfidTag(copy.rfidTag) : undefined;
+  return [
+    ...(sameBarcode && sameBarcode.id !== copy.id ? [`Book copy ${sameBarcode.id} already has barcode ${copy.barcode}`] : []),
+    ...(sameTag && sameTag.id !== copy.id ? [`Book copy ${sameTag.id} already has RFID tag ${copy.rfidTag}`] : []),
+  ];
+};
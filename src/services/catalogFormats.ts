@@ -0,0 +1,139 @@
+import readline from 'readline';
+import { Readable } from 'stream';
+
+/**
+ * Reading and writing the line-based formats the catalog can be imported from and exported to:
+ * CSV (RFC 4180, with a header row) and JSON Lines (one JSON object per line).
+ */
+
+export type CatalogFormat = 'csv' | 'ndjson';
+
+/**
+ * The media type of each catalog format.
+ */
+export const catalogMediaTypes: Record<CatalogFormat, string> = {
+  csv: 'text/csv',
+  ndjson: 'application/x-ndjson',
+};
+
+/**
+ * One record read from an import, with the line of the file it starts on.
+ */
+export interface SourceRecord {
+  line: number;
+  values?: Record<string, unknown>;
+  error?: string;
+}
+
+/**
+ * Checks whether CSV text holds a whole record, i.e. it does not end inside a quoted field.
+ *
+ * @param text the text of the record so far
+ * @returns true if every quoted field has been closed
+ */
+const isCompleteCsvRecord = (text: string): boolean => (text.match(/"/g)?.length ?? 0) % 2 === 0;
+
+/**
+ * Splits one CSV record into its fields.
+ * Fields may be quoted with double quotes, in which case they may contain commas, line breaks and doubled quotes.
+ *
+ * @param text the text of the record
+ * @returns the values of the fields, unquoted
+ */
+export const parseCsvRecord = (text: string): string[] => {
+  const fields: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      fields.push(field);
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  fields.push(field);
+  return fields;
+};
+
+/**
+ * Formats values as one CSV record, quoting the fields that need it.
+ *
+ * @param values the values of the fields; missing values become empty fields
+ * @returns the CSV record, without a line break
+ */
+export const toCsvRecord = (values: (string | number | undefined)[]): string =>
+  values.map(value => {
+    const text = value === undefined ? '' : String(value);
+    return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+  }).join(',');
+
+/**
+ * Reads the records of an import as they arrive, without buffering the whole upload.
+ * For CSV the first record is the header, naming the field of each column; empty fields are left out.
+ * Lines that cannot be parsed are returned with an error instead of values, so the rest of the import can carry on.
+ *
+ * @param input the stream of the uploaded file
+ * @param format the format of the file
+ * @returns the records of the file, in order
+ */
+export async function* readCatalogRecords(input: Readable, format: CatalogFormat): AsyncGenerator<SourceRecord> {
+  const lines = readline.createInterface({ input, crlfDelay: Infinity });
+  let header: string[] | undefined;
+  let pending = '';
+  let startLine = 0;
+  let lineNumber = 0;
+
+  for await (const line of lines) {
+    lineNumber++;
+    if (format === 'ndjson') {
+      if (!line.trim()) continue;
+      try {
+        const values = JSON.parse(line);
+        if (typeof values !== 'object' || values === null || Array.isArray(values)) {
+          yield { line: lineNumber, error: 'Each line must be a JSON object' };
+        } else {
+          yield { line: lineNumber, values };
+        }
+      } catch (err) {
+        yield { line: lineNumber, error: 'Malformed JSON' };
+      }
+      continue;
+    }
+
+    if (!pending) startLine = lineNumber;
+    pending = pending ? `${pending}\n${line}` : line;
+    if (!isCompleteCsvRecord(pending)) continue;
+
+    const text = pending;
+    pending = '';
+    if (!text.trim()) continue;
+
+    const fields = parseCsvRecord(text);
+    if (!header) {
+      header = fields.map(name => name.trim());
+      continue;
+    }
+    const columns = header;
+    const values = Object.fromEntries(fields
+      .map((value, index) => [columns[index], value] as const)
+      .filter(([name, value]) => name && value !== ''));
+    yield { line: startLine, values };
+  }
+
+  if (pending) {
+    yield { line: startLine, error: 'Unterminated quoted field' };
+  }
+}
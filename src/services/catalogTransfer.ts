@@ -0,0 +1,493 @@
+import {
+  listAuthors,
+  listGenres,
+  listBooks,
+  listBookCopies,
+  findAuthorById,
+  findGenreById,
+  findBookById,
+  findBookCopyById,
+  findBookCopyByBarcode,
+  findBranchByCode,
+  findBranchById,
+  addAuthor,
+  addGenre,
+  addBook,
+  addBookCopy,
+  updateAuthor,
+  updateBook,
+  updateBookCopy,
+  generateId,
+  Collection
+} from '../data/storage';
+import { AlternateName, Author, Book, BookCopy, BookCopyStatus, Genre } from '../models';
+import { normalizeIsbn } from '../models/isbn';
+import { normalizeBarcode, normalizeRfidTag } from '../models/barcode';
+import { FieldError, validate } from '../models/schema';
+import { authorSchema, bookCopySchema, bookCopyStatuses, bookSchema, genreSchema } from '../models/schemas';
+import { SourceRecord } from './catalogFormats';
+import { authorName, foldText } from './search';
+import {
+  canTransition,
+  circulationStatuses,
+  isCirculationTransition,
+  migrateLegacyStatus,
+  transitStatuses,
+  transitionCopy
+} from './copyLifecycle';
+import { releaseCopy } from './holds';
+import { allocateBarcode, identifierConflicts } from './barcodes';
+import { authorErrors, defaultSortName } from './authors';
+
+/**
+ * The kinds of record a catalog import or export holds, one per row, named by the row's `type` field.
+ */
+export const catalogRowTypes = ['author', 'genre', 'book', 'copy'] as const;
+
+/**
+ * Every field a catalog row can have, in the column order of a CSV export.
+ * Authors and genres are matched by name and books by ISBN, so rows can refer to each other without IDs;
+ * copies are matched by id, or else by barcode, and refer to their branch by its code.
+ * An author lists their pseudonyms and variants by name, and a pseudonym or variant names the author it belongs to.
+ * Who has borrowed or reserved a copy is not part of the catalog.
+ */
+export const catalogColumns = [
+  'type',
+  'id',
+  'firstName',
+  'lastName',
+  'sortName',
+  'birthDate',
+  'deathDate',
+  'pseudonyms',
+  'variants',
+  'canonicalAuthor',
+  'name',
+  'title',
+  'isbn',
+  'summary',
+  'authors',
+  'genres',
+  'imprint',
+  'branch',
+  'shelfLocation',
+  'barcode',
+  'rfidTag',
+  'status',
+] as const;
+
+/**
+ * One row of a catalog export. Books list their authors and genres by name.
+ */
+export type CatalogRow = Partial<Record<typeof catalogColumns[number], string | string[]>>;
+
+/**
+ * The statuses a new copy can be imported in: every status but those of circulation and transfers,
+ * which come with a loan, hold, or transfer that a catalog does not hold.
+ */
+const importableCopyStatuses = bookCopyStatuses.filter(status =>
+  !circulationStatuses.includes(status) && !transitStatuses.includes(status));
+
+/**
+ * The number of rows imported between yields to the event loop, so a large import does not stall other requests.
+ */
+const IMPORT_CHUNK_SIZE = 500;
+
+/**
+ * The number of records of each kind that an import created, updated, or found already up to date.
+ */
+type RowCounts = Record<typeof catalogRowTypes[number], number>;
+
+/**
+ * A row that could not be imported, by the line of the file it starts on.
+ */
+export interface ImportRowError {
+  line: number;
+  type?: string;
+  message: string;
+  errors?: FieldError[];
+}
+
+/**
+ * The outcome of an import. In a dry run nothing is written, but the counts and errors are the same
+ * as they would have been.
+ */
+export interface ImportReport {
+  dryRun: boolean;
+  rows: number;
+  created: RowCounts;
+  updated: RowCounts;
+  unchanged: RowCounts;
+  errors: ImportRowError[];
+}
+
+/**
+ * Builds the key authors are matched on: their full name, ignoring case, diacritics and extra spaces.
+ *
+ * @param firstName the author's first name
+ * @param lastName the author's last name, if any
+ * @returns the match key
+ */
+const authorKey = (firstName: string, lastName?: string): string =>
+  foldText(`${firstName} ${lastName ?? ''}`).replace(/\s+/g, ' ').trim();
+
+/**
+ * Builds the key genres and author references are matched on, ignoring case, diacritics and extra spaces.
+ *
+ * @param name the name
+ * @returns the match key
+ */
+const nameKey = (name: string): string => foldText(name).replace(/\s+/g, ' ').trim();
+
+/**
+ * Reads a text field of a row.
+ *
+ * @param values the fields of the row
+ * @param name the field to read
+ * @returns the trimmed text of the field, or undefined if it is missing or empty
+ */
+const textField = (values: Record<string, unknown>, name: string): string | undefined => {
+  const value = values[name];
+  if (typeof value === 'number') return String(value);
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  return value.trim();
+};
+
+/**
+ * Reads a list field of a row, given either as an array or as text separated by semicolons.
+ *
+ * @param values the fields of the row
+ * @param name the field to read
+ * @returns the items of the list; empty if the field is missing
+ */
+const listField = (values: Record<string, unknown>, name: string): string[] => {
+  const value = values[name];
+  const items = Array.isArray(value) ? value.map(String) : typeof value === 'string' ? value.split(';') : [];
+  return items.map(item => item.trim()).filter(item => item.length > 0);
+};
+
+/**
+ * Checks whether applying changes to a record would change it.
+ *
+ * @param record the stored record
+ * @param changes the fields to write
+ * @returns true if any field would change
+ */
+const changesRecord = (record: object, changes: object): boolean =>
+  Object.entries(changes).some(([name, value]) =>
+    JSON.stringify((record as Record<string, unknown>)[name]) !== JSON.stringify(value));
+
+/**
+ * Imports catalog rows, creating or updating authors and genres by name, books by ISBN, and copies by id or barcode.
+ * Each row is validated like the corresponding create or update request and imported on its own,
+ * so a bad row is reported without stopping the rest of the import.
+ * New copies without a barcode are given the next one, as when they are created through the API.
+ * A new copy that was on loan, reserved, or in transit when it was exported comes in as lost,
+ * since its loan, hold, or transfer is not part of the catalog; a librarian puts it back on the shelf once it turns up.
+ * Rows may refer to authors, genres and books defined earlier in the same import.
+ *
+ * @param records the rows to import, as read from the uploaded file
+ * @param dryRun whether to only validate the rows, without writing anything
+ * @returns the report of the import
+ */
+export const importCatalog = async (records: AsyncIterable<SourceRecord>, dryRun: boolean): Promise<ImportReport> => {
+  const emptyCounts = (): RowCounts => ({ author: 0, genre: 0, book: 0, copy: 0 });
+  const report: ImportReport = {
+    dryRun,
+    rows: 0,
+    created: emptyCounts(),
+    updated: emptyCounts(),
+    unchanged: emptyCounts(),
+    errors: [],
+  };
+
+  // The catalog as the import sees it; in a dry run, records the import would have written are kept only here.
+  const authorsByName = new Map(listAuthors().map(author => [authorKey(author.firstName, author.lastName), author]));
+  const genresByName = new Map(listGenres().map(genre => [nameKey(genre.name), genre]));
+  const booksByIsbn = new Map(listBooks().map(book => [normalizeIsbn(book.isbn) ?? book.isbn, book]));
+  const newId = (collection: Collection): string =>
+    (dryRun ? `dry-run-${generateId(collection)}` : generateId(collection));
+
+  type RowOutcome = 'created' | 'updated' | 'unchanged';
+  type RowResult = RowOutcome | Omit<ImportRowError, 'line' | 'type'>;
+
+  const invalid = (errors: FieldError[]): RowResult => ({
+    message: errors.map(error => error.message).join('; '),
+    errors,
+  });
+
+  const importAuthor = (values: Record<string, unknown>): RowResult => {
+    const firstName = textField(values, 'firstName');
+    const lastName = textField(values, 'lastName');
+    const existing = firstName ? authorsByName.get(authorKey(firstName, lastName)) : undefined;
+
+    const alternateNames: AlternateName[] = [
+      ...listField(values, 'pseudonyms').map(name => ({ name, kind: 'pseudonym' as const })),
+      ...listField(values, 'variants').map(name => ({ name, kind: 'variant' as const })),
+    ];
+    const canonicalName = textField(values, 'canonicalAuthor');
+    const canonical = canonicalName ? authorsByName.get(nameKey(canonicalName)) : undefined;
+    if (canonicalName && !canonical) {
+      return invalid([{ field: 'canonicalAuthor', message: `Unknown author: ${canonicalName}` }]);
+    }
+
+    const fields = {
+      firstName,
+      lastName,
+      sortName: textField(values, 'sortName') ?? existing?.sortName ?? (firstName && defaultSortName(firstName, lastName)),
+      birthDate: textField(values, 'birthDate') ?? existing?.birthDate,
+      deathDate: textField(values, 'deathDate') ?? existing?.deathDate,
+      alternateNames: alternateNames.length > 0 ? alternateNames : existing?.alternateNames,
+      canonicalAuthorId: canonical?.id ?? existing?.canonicalAuthorId,
+    };
+    const errors = validate(authorSchema, fields);
+    if (errors.length > 0) return invalid(errors);
+
+    // In a dry run, an author created earlier in the import is only known to the import, so it is checked here.
+    const isImportedOnly = dryRun && canonical !== undefined && !findAuthorById(canonical.id);
+    const fieldErrors = [
+      ...authorErrors({
+        id: existing?.id,
+        birthDate: fields.birthDate as string,
+        deathDate: fields.deathDate,
+        canonicalAuthorId: isImportedOnly ? undefined : fields.canonicalAuthorId,
+      }),
+      ...(isImportedOnly && canonical?.canonicalAuthorId
+        ? [{ field: 'canonicalAuthor', message: `${canonicalName} is a pseudonym or variant of another author` }]
+        : []),
+    ];
+    if (fieldErrors.length > 0) return invalid(fieldErrors);
+
+    if (existing) {
+      if (!changesRecord(existing, fields)) return 'unchanged';
+      const updated = dryRun ? { ...existing, ...fields } as Author : updateAuthor(existing.id, fields) as Author;
+      authorsByName.set(authorKey(updated.firstName, updated.lastName), updated);
+      return 'updated';
+    }
+
+    const author = { id: newId('authors'), ...fields } as Author;
+    authorsByName.set(authorKey(author.firstName, author.lastName), dryRun ? author : addAuthor(author));
+    return 'created';
+  };
+
+  const importGenre = (values: Record<string, unknown>): RowResult => {
+    const name = textField(values, 'name');
+    const errors = validate(genreSchema, { name });
+    if (errors.length > 0) return invalid(errors);
+
+    if (genresByName.has(nameKey(name as string))) return 'unchanged';
+    const genre: Genre = { id: newId('genres'), name: name as string };
+    genresByName.set(nameKey(genre.name), dryRun ? genre : addGenre(genre));
+    return 'created';
+  };
+
+  const importBook = (values: Record<string, unknown>): RowResult => {
+    const isbn = textField(values, 'isbn');
+    const canonicalIsbn = isbn ? normalizeIsbn(isbn) : undefined;
+    const existing = canonicalIsbn ? booksByIsbn.get(canonicalIsbn) : undefined;
+
+    const authorNames = listField(values, 'authors');
+    const genreNames = listField(values, 'genres');
+    const unknownAuthors = authorNames.filter(name => !authorsByName.has(nameKey(name)));
+    const unknownGenres = genreNames.filter(name => !genresByName.has(nameKey(name)));
+
+    const fields = {
+      title: textField(values, 'title') ?? existing?.title,
+      authorIds: authorNames.length > 0
+        ? authorNames.flatMap(name => authorsByName.get(nameKey(name))?.id ?? [])
+        : existing?.authorIds,
+      genreIds: genreNames.length > 0
+        ? genreNames.flatMap(name => genresByName.get(nameKey(name))?.id ?? [])
+        : existing?.genreIds,
+      isbn: canonicalIsbn ?? isbn,
+      summary: textField(values, 'summary') ?? existing?.summary,
+    };
+
+    const errors = validate(bookSchema, fields);
+    if (unknownAuthors.length > 0) {
+      errors.push({ field: 'authors', message: `Unknown authors: ${unknownAuthors.join(', ')}` });
+    }
+    if (unknownGenres.length > 0) {
+      errors.push({ field: 'genres', message: `Unknown genres: ${unknownGenres.join(', ')}` });
+    }
+    if (errors.length > 0) return invalid(errors);
+
+    const changes = {
+      ...fields,
+      isbnDisplay: existing && existing.isbn === canonicalIsbn ? existing.isbnDisplay : isbn,
+    } as Omit<Book, 'id'>;
+    if (existing) {
+      if (!changesRecord(existing, fields)) return 'unchanged';
+      const updated = dryRun ? { ...existing, ...changes } : updateBook(existing.id, changes) as Book;
+      booksByIsbn.set(canonicalIsbn as string, updated);
+      return 'updated';
+    }
+
+    const book: Book = { id: newId('books'), ...changes };
+    booksByIsbn.set(canonicalIsbn as string, dryRun ? book : addBook(book));
+    return 'created';
+  };
+
+  const importCopy = (values: Record<string, unknown>): RowResult => {
+    const isbn = textField(values, 'isbn');
+    const canonicalIsbn = isbn ? normalizeIsbn(isbn) : undefined;
+    const book = canonicalIsbn ? booksByIsbn.get(canonicalIsbn) : undefined;
+    if (!book) {
+      return invalid([{ field: 'isbn', message: `No book has ISBN ${isbn ?? '(missing)'}` }]);
+    }
+
+    const branchCode = textField(values, 'branch');
+    const branch = branchCode ? findBranchByCode(branchCode) : undefined;
+    if (branchCode && !branch) {
+      return invalid([{ field: 'branch', message: `No branch has code ${branchCode}` }]);
+    }
+
+    const id = textField(values, 'id');
+    const barcodeText = textField(values, 'barcode');
+    const rfidTagText = textField(values, 'rfidTag');
+    const scanned = barcodeText ? findBookCopyByBarcode(normalizeBarcode(barcodeText) ?? barcodeText) : undefined;
+    const existing = id ? findBookCopyById(id) : scanned && !scanned.deletedAt ? scanned : undefined;
+    const fields = {
+      bookId: book.id,
+      imprint: textField(values, 'imprint') ?? existing?.imprint,
+      branchId: branch?.id ?? existing?.branchId,
+      shelfLocation: textField(values, 'shelfLocation') ?? existing?.shelfLocation,
+      barcode: barcodeText ?? existing?.barcode,
+      rfidTag: rfidTagText ?? existing?.rfidTag,
+      status: migrateLegacyStatus(textField(values, 'status') ?? existing?.status ?? 'available') as BookCopyStatus,
+    };
+    if (!fields.branchId) {
+      return invalid([{ field: 'branch', message: 'branch is required' }]);
+    }
+    const errors = validate(bookCopySchema, fields);
+    if (errors.length > 0) return invalid(errors);
+
+    fields.barcode = fields.barcode && normalizeBarcode(fields.barcode);
+    fields.rfidTag = fields.rfidTag && normalizeRfidTag(fields.rfidTag);
+    const conflicts = identifierConflicts({ id: existing?.id, barcode: fields.barcode, rfidTag: fields.rfidTag });
+    if (conflicts.length > 0) return { message: conflicts.join('; ') };
+
+    if (existing) {
+      if (!changesRecord(existing, fields)) return 'unchanged';
+      const { status, ...details } = fields;
+      if (existing.status !== status) {
+        if (isCirculationTransition(existing.status, status)) {
+          return { message: 'Use the circulation endpoints to lend, return, or reserve a book copy' };
+        }
+        if (!canTransition(existing.status, status)) {
+          return invalid([{ field: 'status', message: `A book copy that is ${existing.status} cannot become ${status}` }]);
+        }
+      }
+      if (!dryRun) {
+        const isPlaced = existing.currentBranchId || transitStatuses.includes(existing.status);
+        const location = isPlaced ? {} : { currentBranchId: details.branchId };
+        const updated = changesRecord(existing, details)
+          ? updateBookCopy(existing.id, { ...details, ...location } as Partial<BookCopy>) as BookCopy
+          : existing;
+        if (existing.status !== status) {
+          if (status === 'available') releaseCopy(updated);
+          else transitionCopy(updated, status);
+        }
+      }
+      return 'updated';
+    }
+
+    // The loan, hold, or transfer of a copy that is out is not in the catalog, so it comes in as lost until it turns up.
+    const isOut = !importableCopyStatuses.includes(fields.status);
+    const copy = {
+      id: newId('bookCopies'),
+      ...fields,
+      status: isOut ? 'lost' : fields.status,
+      statusReason: isOut ? `Imported while ${fields.status}; its loan, hold, or transfer is not in the catalog` : undefined,
+      currentBranchId: fields.branchId,
+    } as BookCopy;
+    if (!dryRun) addBookCopy({ ...copy, barcode: copy.barcode ?? allocateBarcode() });
+    return 'created';
+  };
+
+  const importers: Record<typeof catalogRowTypes[number], (values: Record<string, unknown>) => RowResult> = {
+    author: importAuthor,
+    genre: importGenre,
+    book: importBook,
+    copy: importCopy,
+  };
+
+  for await (const record of records) {
+    report.rows++;
+    if (report.rows % IMPORT_CHUNK_SIZE === 0) {
+      await new Promise(resolve => setImmediate(resolve));
+    }
+
+    if (!record.values) {
+      report.errors.push({ line: record.line, message: record.error ?? 'Unreadable row' });
+      continue;
+    }
+
+    const type = textField(record.values, 'type');
+    const rowType = catalogRowTypes.find(known => known === type);
+    if (!rowType) {
+      report.errors.push({ line: record.line, type, message: `type must be one of: ${catalogRowTypes.join(', ')}` });
+      continue;
+    }
+
+    const result = importers[rowType](record.values);
+    if (typeof result === 'string') {
+      report[result][rowType]++;
+    } else {
+      report.errors.push({ line: record.line, type, ...result });
+    }
+  }
+
+  return report;
+};
+
+/**
+ * Lists the whole catalog as rows that can be imported again:
+ * every author, then every genre, then every book, then every copy.
+ * Books refer to their authors and genres by name, pseudonyms and variants to their author by name,
+ * and copies to their book by ISBN.
+ *
+ * @returns the rows of the catalog, produced one at a time
+ */
+export function* exportCatalog(): Generator<CatalogRow> {
+  // Authors come before their pseudonyms and variants, which name them.
+  const authors = listAuthors();
+  for (const author of [...authors.filter(record => !record.canonicalAuthorId), ...authors.filter(record => record.canonicalAuthorId)]) {
+    const { id, firstName, lastName, sortName, birthDate, deathDate, alternateNames = [], canonicalAuthorId } = author;
+    const canonical = canonicalAuthorId ? findAuthorById(canonicalAuthorId) : undefined;
+    yield {
+      type: 'author',
+      id,
+      firstName,
+      lastName,
+      sortName,
+      birthDate,
+      deathDate,
+      pseudonyms: alternateNames.filter(alternate => alternate.kind === 'pseudonym').map(alternate => alternate.name),
+      variants: alternateNames.filter(alternate => alternate.kind === 'variant').map(alternate => alternate.name),
+      canonicalAuthor: canonical && authorName(canonical),
+    };
+  }
+  for (const genre of listGenres()) {
+    yield { type: 'genre', id: genre.id, name: genre.name };
+  }
+  for (const book of listBooks()) {
+    yield {
+      type: 'book',
+      id: book.id,
+      title: book.title,
+      isbn: book.isbnDisplay ?? book.isbn,
+      summary: book.summary,
+      authors: book.authorIds.flatMap(id => {
+        const author = findAuthorById(id);
+        return author ? [authorName(author)] : [];
+      }),
+      genres: book.genreIds.flatMap(id => findGenreById(id)?.name ?? []),
+    };
+  }
+  for (const copy of listBookCopies()) {
+    const { id, imprint, shelfLocation, barcode, rfidTag, status } = copy;
+    const branch = copy.branchId ? findBranchById(copy.branchId)?.code : undefined;
+    yield { type: 'copy', id, isbn: findBookById(copy.bookId)?.isbn, imprint, branch, shelfLocation, barcode, rfidTag, status };
+  }
+}
@@ -0,0 +1,38 @@
+import { daysFromNow, now, resetClock, setClock } from './clock';
+
+afterEach(resetClock);
+
+describe('clock', () => {
+  it('follows the system clock by default', () => {
+    const before = Date.now();
+    const time = now().getTime();
+    expect(time).toBeGreaterThanOrEqual(before);
+    expect(time).toBeLessThanOrEqual(Date.now());
+  });
+
+  it('can be replaced and reset', () => {
+    setClock(() => new Date('2030-06-15T12:00:00Z'));
+    expect(now().toISOString()).toBe('2030-06-15T12:00:00.000Z');
+
+    resetClock();
+    expect(now().getUTCFullYear()).not.toBe(2030);
+  });
+});
+
+describe('daysFromNow', () => {
+  it('counts days from the current time of the clock', () => {
+    setClock(() => new Date('2030-02-27T08:30:00Z'));
+    expect(daysFromNow(3).toISOString()).toBe('2030-03-02T08:30:00.000Z');
+    expect(daysFromNow(-30).toISOString()).toBe('2030-01-28T08:30:00.000Z');
+  });
+
+  it('leaves the date the clock returns alone', () => {
+    const fixed = new Date('2030-02-27T08:30:00Z');
+    setClock(() => fixed);
+
+    daysFromNow(14);
+
+    expect(fixed.toISOString()).toBe('2030-02-27T08:30:00.000Z');
+    expect(now().toISOString()).toBe('2030-02-27T08:30:00.000Z');
+  });
+});
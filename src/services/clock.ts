@@ -0,0 +1,37 @@
+/**
+ * The source of the current time for circulation rules such as due dates, hold pickup windows and fines.
+ * It defaults to the system clock and can be replaced, e.g. so tests can travel forward in time.
+ */
+let currentClock: () => Date = () => new Date();
+
+/**
+ * Returns the current time according to the active clock.
+ * @returns the current date and time
+ */
+export const now = (): Date => currentClock();
+
+/**
+ * Replaces the clock used by the circulation rules.
+ * @param clock a function returning the current date and time
+ */
+export const setClock = (clock: () => Date): void => {
+  currentClock = clock;
+};
+
+/**
+ * Restores the system clock.
+ */
+export const resetClock = (): void => {
+  currentClock = () => new Date();
+};
+
+/**
+ * Returns the date the given number of days after the current time.
+ * @param days the number of days to add
+ * @returns the resulting date and time
+ */
+export const daysFromNow = (days: number): Date => {
+  const date = new Date(now().getTime());
+  date.setUTCDate(date.getUTCDate() + days);
+  return date;
+};
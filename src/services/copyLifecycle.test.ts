@@ -0,0 +1,115 @@
+import { addBookCopy, findBookCopyById, findTransitionsByCopyId, generateId } from '../data/storage';
+import { BookCopy, BookCopyStatus } from '../models';
+import { ConflictError, ValidationError } from '../errors';
+import {
+  canTransition,
+  manualTransitionsFrom,
+  migrateLegacyCopyStatuses,
+  migrateLegacyStatus,
+  transitionCopy
+} from './copyLifecycle';
+
+const newCopy = (status: BookCopyStatus, fields: Partial<BookCopy> = {}): BookCopy => addBookCopy({
+  id: generateId('bookCopies'),
+  bookId: 'book1',
+  imprint: 'Test Press',
+  status,
+  branchId: 'branch1',
+  currentBranchId: 'branch1',
+  ...fields,
+});
+
+describe('canTransition', () => {
+  it('follows the lifecycle from order to the shelf', () => {
+    expect(canTransition('on-order', 'processing')).toBe(true);
+    expect(canTransition('processing', 'available')).toBe(true);
+    expect(canTransition('available', 'on-loan')).toBe(true);
+  });
+
+  it('refuses to skip steps or leave a withdrawn copy', () => {
+    expect(canTransition('on-order', 'available')).toBe(false);
+    expect(canTransition('damaged', 'available')).toBe(false);
+    expect(canTransition('withdrawn', 'processing')).toBe(false);
+  });
+});
+
+describe('manualTransitionsFrom', () => {
+  it('leaves circulation and transfers to their own endpoints', () => {
+    expect(manualTransitionsFrom('available')).toEqual(['processing', 'lost', 'damaged', 'withdrawn']);
+    expect(manualTransitionsFrom('in-transit')).toEqual(['lost', 'damaged']);
+  });
+});
+
+describe('transitionCopy', () => {
+  it('moves the copy and records the transition with its reason', () => {
+    const copy = newCopy('available');
+
+    const damaged = transitionCopy(copy, 'damaged', { reason: 'Water damage' });
+
+    expect(damaged.status).toBe('damaged');
+    expect(findTransitionsByCopyId(copy.id).map(({ from, to, reason }) => ({ from, to, reason }))).toEqual([
+      { from: undefined, to: 'available', reason: undefined },
+      { from: 'available', to: 'damaged', reason: 'Water damage' },
+    ]);
+  });
+
+  it('throws a ConflictError for a transition the lifecycle does not allow', () => {
+    const copy = newCopy('withdrawn');
+
+    expect(() => transitionCopy(copy, 'available')).toThrow(ConflictError);
+    expect(findBookCopyById(copy.id)?.status).toBe('withdrawn');
+  });
+
+  it('throws a ValidationError naming the fields the new status needs', () => {
+    const copy = newCopy('available');
+
+    const thrown = (() => {
+      try {
+        transitionCopy(copy, 'on-loan');
+        return undefined;
+      } catch (err) {
+        return err;
+      }
+    })();
+
+    expect(thrown).toBeInstanceOf(ValidationError);
+    expect((thrown as ValidationError).errors.map(error => error.field)).toEqual(['patronId', 'dueBackDate']);
+    expect(() => transitionCopy(copy, 'on-loan', { patronId: 'patron1' })).toThrow(ValidationError);
+    expect(findBookCopyById(copy.id)?.status).toBe('available');
+  });
+
+  it('clears the fields the new status does not have', () => {
+    const copy = newCopy('on-loan', { patronId: 'patron1', dueBackDate: '2030-01-15' });
+
+    const returned = transitionCopy(copy, 'available');
+
+    expect(returned.patronId).toBeUndefined();
+    expect(returned.dueBackDate).toBeUndefined();
+  });
+
+  it('takes a copy in transit off every branch', () => {
+    const copy = newCopy('available');
+
+    expect(transitionCopy(copy, 'in-transit').currentBranchId).toBeUndefined();
+  });
+});
+
+describe('legacy statuses', () => {
+  it('maps each legacy status to its replacement', () => {
+    expect(migrateLegacyStatus('can be checkout')).toBe('available');
+    expect(migrateLegacyStatus('unavailable')).toBe('processing');
+    expect(migrateLegacyStatus('checked out')).toBe('lost');
+    expect(migrateLegacyStatus('damaged')).toBe('damaged');
+  });
+
+  it('migrates checked out copies, whose borrower was never recorded, to lost', () => {
+    const copy = newCopy('checked out' as BookCopyStatus, { dueBackDate: '2020-01-01' });
+
+    migrateLegacyCopyStatuses();
+
+    const migrated = findBookCopyById(copy.id);
+    expect(migrated).toMatchObject({ status: 'lost', statusReason: expect.any(String) });
+    expect(migrated?.dueBackDate).toBeUndefined();
+    expect(migrated?.patronId).toBeUndefined();
+  });
+});
@@ -0,0 +1,218 @@
+import {
+  addCopyTransition,
+  generateId,
+  listBookCopies,
+  onStorageChange,
+  updateBookCopy
+} from '../data/storage';
+import { BookCopy, BookCopyStatus } from '../models';
+import { bookCopyStatuses } from '../models/schemas';
+import { ConflictError, ValidationError } from '../errors';
+import { now } from './clock';
+import { currentRequestContext } from './requestContext';
+
+/**
+ * The lifecycle of a book copy: the statuses a copy can move to from each status.
+ * A copy is ordered, processed, and put on the shelf; it is then lent, reserved for holds, and sent between branches,
+ * until it is lost, damaged, or withdrawn. A reserved copy can be reserved again when it rolls over to the next hold.
+ */
+export const copyTransitions: Record<BookCopyStatus, readonly BookCopyStatus[]> = {
+  'on-order': ['processing', 'withdrawn'],
+  processing: ['available', 'reserved', 'damaged', 'withdrawn'],
+  available: ['on-loan', 'reserved', 'in-transit', 'processing', 'lost', 'damaged', 'withdrawn'],
+  reserved: ['on-loan', 'reserved', 'available', 'in-transit'],
+  'on-loan': ['overdue', 'available', 'reserved'],
+  overdue: ['available', 'reserved'],
+  'in-transit': ['available', 'reserved', 'processing', 'lost', 'damaged'],
+  lost: ['processing', 'available', 'reserved', 'withdrawn'],
+  damaged: ['processing', 'withdrawn'],
+  withdrawn: [],
+};
+
+/**
+ * The statuses a new copy can be created in.
+ */
+export const initialCopyStatuses: readonly BookCopyStatus[] = ['on-order', 'processing', 'available'];
+
+/**
+ * Statuses that are only entered and left through the circulation endpoints, the hold queue and the overdue sweep.
+ */
+export const circulationStatuses: readonly BookCopyStatus[] = ['reserved', 'on-loan', 'overdue'];
+
+/**
+ * Statuses that are entered and left through transfers between branches.
+ * A copy in transit can still be found lost or damaged by hand, which ends its transfer.
+ */
+export const transitStatuses: readonly BookCopyStatus[] = ['in-transit'];
+
+/**
+ * The fields of a copy that only some statuses have.
+ */
+export type CopyStateFields = Pick<BookCopy, 'patronId' | 'dueBackDate'>;
+
+/**
+ * What can change along with the status of a copy: the fields of the new status, where the copy now is or belongs,
+ * and why it was moved.
+ */
+export type CopyTransitionFields = CopyStateFields & Pick<BookCopy, 'branchId' | 'currentBranchId'> & { reason?: string };
+
+/**
+ * The fields each status needs; in every other status they are cleared.
+ */
+const requiredFields: Record<BookCopyStatus, readonly (keyof CopyStateFields)[]> = {
+  'on-order': [],
+  processing: [],
+  available: [],
+  reserved: ['patronId'],
+  'on-loan': ['patronId', 'dueBackDate'],
+  overdue: ['patronId', 'dueBackDate'],
+  'in-transit': [],
+  lost: [],
+  damaged: [],
+  withdrawn: [],
+};
+
+/**
+ * The statuses copies had before their lifecycle was formalised, and the status each one becomes.
+ * 'unavailable' copies go back to processing, from where a librarian can shelve or withdraw them.
+ * Legacy copies never recorded who borrowed them, so 'checked out' copies cannot become loans;
+ * they are counted as lost until they are returned and a librarian puts them back on the shelf.
+ */
+const legacyStatuses: Record<string, BookCopyStatus> = {
+  'can be checkout': 'available',
+  unavailable: 'processing',
+  'checked out': 'lost',
+};
+
+/**
+ * Why copies in a legacy status end up where they do, where that is not obvious from the status alone.
+ */
+const legacyStatusReasons: Record<string, string> = {
+  'checked out': 'Checked out before loans were recorded, so the borrower is unknown',
+};
+
+/**
+ * Checks whether the lifecycle lets a copy move from one status to another.
+ *
+ * @param from the status of the copy
+ * @param to the status to move it to
+ * @returns true if the transition is allowed
+ */
+export const canTransition = (from: BookCopyStatus, to: BookCopyStatus): boolean =>
+  copyTransitions[from]?.includes(to) ?? false;
+
+/**
+ * Checks whether a transition enters or leaves a circulation status, which only circulation can do.
+ *
+ * @param from the status of the copy
+ * @param to the status to move it to
+ * @returns true if the transition belongs to circulation
+ */
+export const isCirculationTransition = (from: BookCopyStatus, to: BookCopyStatus): boolean =>
+  circulationStatuses.includes(from) || circulationStatuses.includes(to);
+
+/**
+ * Checks whether a transition is part of a transfer between branches, which only the transfer endpoints make.
+ *
+ * @param from the status of the copy
+ * @param to the status to move it to
+ * @returns true if the transition belongs to a transfer
+ */
+export const isTransferTransition = (from: BookCopyStatus, to: BookCopyStatus): boolean =>
+  transitStatuses.includes(to) || (transitStatuses.includes(from) && to !== 'lost' && to !== 'damaged');
+
+/**
+ * Lists the statuses a librarian can move a copy to by hand, leaving circulation and transfers aside.
+ *
+ * @param from the status of the copy
+ * @returns the statuses it can be moved to
+ */
+export const manualTransitionsFrom = (from: BookCopyStatus): BookCopyStatus[] =>
+  (copyTransitions[from] ?? []).filter(to => !isCirculationTransition(from, to) && !isTransferTransition(from, to));
+
+/**
+ * Maps a status from before the lifecycle was formalised to the status it became.
+ *
+ * @param status the status, which may be a legacy one
+ * @returns the current status, or the status unchanged if it is not a legacy one
+ */
+export const migrateLegacyStatus = (status: string): string => legacyStatuses[status] ?? status;
+
+/**
+ * Moves a copy to another status of its lifecycle.
+ * The fields the new status needs are taken from the given fields or kept from the copy,
+ * and those it does not have are cleared. A copy in transit is at no branch.
+ *
+ * @param copy the book copy
+ * @param to the status to move it to
+ * @param fields the patron and due date that come with the new status, the branches of the copy, and why it was moved
+ * @returns the updated book copy
+ * @throws ConflictError if the lifecycle does not allow the transition
+ * @throws ValidationError if a field the new status needs is missing
+ */
+export const transitionCopy = (copy: BookCopy, to: BookCopyStatus, fields: CopyTransitionFields = {}): BookCopy => {
+  if (!canTransition(copy.status, to)) {
+    throw new ConflictError(`Book copy ${copy.id} cannot go from ${copy.status} to ${to}`, {
+      allowed: copyTransitions[copy.status] ?? []
+    });
+  }
+
+  const values: CopyStateFields = {
+    patronId: fields.patronId ?? copy.patronId,
+    dueBackDate: fields.dueBackDate ?? copy.dueBackDate,
+  };
+  const missing = requiredFields[to].filter(field => !values[field]);
+  if (missing.length > 0) {
+    throw new ValidationError(missing.map(field => ({ field, message: `A book copy that is ${to} needs ${field}` })));
+  }
+
+  return updateBookCopy(copy.id, {
+    status: to,
+    patronId: requiredFields[to].includes('patronId') ? values.patronId : undefined,
+    dueBackDate: requiredFields[to].includes('dueBackDate') ? values.dueBackDate : undefined,
+    branchId: fields.branchId ?? copy.branchId,
+    currentBranchId: transitStatuses.includes(to) ? undefined : fields.currentBranchId ?? copy.currentBranchId,
+    statusReason: fields.reason,
+  }) as BookCopy;
+};
+
+/**
+ * Moves every copy still in a legacy status to the status it became.
+ * Run at startup, so copies stored before the lifecycle was formalised follow it from then on.
+ *
+ * @returns the number of copies migrated
+ */
+export const migrateLegacyCopyStatuses = (): number => {
+  const legacyCopies = listBookCopies().filter(copy => copy.status in legacyStatuses);
+  legacyCopies.forEach(copy => updateBookCopy(copy.id, {
+    status: legacyStatuses[copy.status],
+    dueBackDate: undefined,
+    statusReason: legacyStatusReasons[copy.status],
+  }));
+  return legacyCopies.length;
+};
+
+/**
+ * Records every change of status of a book copy in its lifecycle history, as storage reports it,
+ * including the status it was created in, whichever code path made the change.
+ * Migrations from legacy statuses are left to the audit log.
+ */
+onStorageChange(({ collection, id, before, after }) => {
+  if (collection !== 'bookCopies' || !after) return;
+
+  const from = (before as BookCopy | undefined)?.status;
+  const { status: to, statusReason } = after as BookCopy;
+  if (from === to || (from !== undefined && !bookCopyStatuses.includes(from))) return;
+
+  const context = currentRequestContext();
+  addCopyTransition({
+    id: generateId('copyTransitions'),
+    copyId: id,
+    from,
+    to,
+    at: now().toISOString(),
+    reason: statusReason,
+    actorId: context?.user?.id,
+    requestId: context?.requestId,
+  });
+});
@@ -0,0 +1,119 @@
+import {
+  findAuthorById,
+  findGenreById,
+  findBookById,
+  findCopiesByBookId
+} from '../data/storage';
+import { Author, Book, BookCopy, Genre } from '../models';
+
+/**
+ * The references of a book that can be inlined with `?expand=`.
+ */
+export const bookExpansions = ['authors', 'genres', 'copies'] as const;
+
+/**
+ * The references of a book copy that can be inlined with `?expand=`.
+ */
+export const bookCopyExpansions = ['book'] as const;
+
+/**
+ * How many copies of a book are at one branch, and how many of them can be borrowed there now.
+ */
+export interface BranchAvailability {
+  branchId: string;
+  totalCopies: number;
+  availableCopies: number;
+}
+
+/**
+ * How many copies of a book there are, how many can be borrowed now, and when the first one on loan is due back,
+ * in total and at each branch that has copies.
+ */
+export interface Availability {
+  totalCopies: number;
+  availableCopies: number;
+  earliestDueBackDate?: string;
+  branches: BranchAvailability[];
+}
+
+/**
+ * The extra properties of a book response for each expansion.
+ */
+export interface BookExpansion {
+  authors?: Author[];
+  genres?: Genre[];
+  availability?: Availability;
+}
+
+/**
+ * The extra properties of a book copy response for each expansion.
+ */
+export interface BookCopyExpansion {
+  book?: Book;
+}
+
+/**
+ * Summarizes the copies of a book for display next to it in the catalog.
+ * Copies that are on the shelf count as available;
+ * the earliest due-back date is taken from the copies that are on loan.
+ * Copies count towards the branch they are at or were lent from; copies in transit count towards none.
+ *
+ * @param bookId the id of the book
+ * @returns the availability summary of the book
+ */
+export const getAvailability = (bookId: string): Availability => {
+  const copies = findCopiesByBookId(bookId);
+  const dueBackDates = copies
+    .filter(copy => (copy.status === 'on-loan' || copy.status === 'overdue') && copy.dueBackDate)
+    .map(copy => copy.dueBackDate as string)
+    .sort();
+
+  const branches = new Map<string, BranchAvailability>();
+  copies.forEach(copy => {
+    if (!copy.currentBranchId) return;
+    const branch = branches.get(copy.currentBranchId)
+      ?? { branchId: copy.currentBranchId, totalCopies: 0, availableCopies: 0 };
+    branch.totalCopies++;
+    if (copy.status === 'available') branch.availableCopies++;
+    branches.set(copy.currentBranchId, branch);
+  });
+
+  return {
+    totalCopies: copies.length,
+    availableCopies: copies.filter(copy => copy.status === 'available').length,
+    earliestDueBackDate: dueBackDates[0],
+    branches: Array.from(branches.values()),
+  };
+};
+
+/**
+ * Looks up the records a book refers to, for the requested expansions.
+ * Referenced records that no longer exist are left out.
+ *
+ * @param book the book to expand
+ * @param expand the requested expansions
+ * @returns the properties to add to the book response
+ */
+export const expandBook = (book: Book, expand: readonly string[]): BookExpansion => {
+  const expansion: BookExpansion = {};
+  if (expand.includes('authors')) {
+    expansion.authors = book.authorIds.flatMap(id => findAuthorById(id) ?? []);
+  }
+  if (expand.includes('genres')) {
+    expansion.genres = book.genreIds.flatMap(id => findGenreById(id) ?? []);
+  }
+  if (expand.includes('copies')) {
+    expansion.availability = getAvailability(book.id);
+  }
+  return expansion;
+};
+
+/**
+ * Looks up the records a book copy refers to, for the requested expansions.
+ *
+ * @param copy the book copy to expand
+ * @param expand the requested expansions
+ * @returns the properties to add to the book copy response
+ */
+export const expandBookCopy = (copy: BookCopy, expand: readonly string[]): BookCopyExpansion =>
+  expand.includes('book') ? { book: findBookById(copy.bookId) } : {};
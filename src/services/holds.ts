@@ -0,0 +1,139 @@
+import {
+  findBookCopyById,
+  findHoldById,
+  findHoldsByBookId,
+  findReadyHolds,
+  updateHold
+} from '../data/storage';
+import { BookCopy, Hold, Transfer } from '../models';
+import { holdPolicy } from '../config';
+import { daysFromNow, now } from './clock';
+import { CopyTransitionFields, transitionCopy } from './copyLifecycle';
+import { requestTransfer } from './transfers';
+
+/**
+ * Where a copy is and why it came free, as passed on to the copy as it is released.
+ */
+type ReleaseFields = Pick<CopyTransitionFields, 'branchId' | 'currentBranchId' | 'reason'>;
+
+/**
+ * Returns the holds on a book that are still waiting for a copy, first in line first.
+ *
+ * @param bookId the id of the book
+ * @returns the waiting holds in queue order
+ */
+export const getHoldQueue = (bookId: string): Hold[] =>
+  findHoldsByBookId(bookId).filter(hold => hold.status === 'waiting');
+
+/**
+ * Returns the 1-based position of a hold in its book's queue.
+ *
+ * @param hold the hold to locate
+ * @returns the position of the hold, or undefined if it is no longer waiting
+ */
+export const getQueuePosition = (hold: Hold): number | undefined => {
+  const index = getHoldQueue(hold.bookId).findIndex(waiting => waiting.id === hold.id);
+  return index === -1 ? undefined : index + 1;
+};
+
+/**
+ * Reserves a copy at its pickup branch for a hold, and starts the pickup window.
+ *
+ * @param copy the book copy
+ * @param hold the hold the copy is for
+ * @param fields where the copy is and why it came free
+ * @returns the updated book copy
+ */
+const reserveForPickup = (copy: BookCopy, hold: Hold, fields: ReleaseFields): BookCopy => {
+  updateHold(hold.id, {
+    status: 'ready',
+    copyId: copy.id,
+    pickupExpiresAt: daysFromNow(holdPolicy.pickupWindowDays).toISOString()
+  });
+
+  return transitionCopy(copy, 'reserved', { ...fields, patronId: hold.patronId });
+};
+
+/**
+ * Hands a copy that has just come free to the next patron waiting for its book.
+ * If someone is waiting, the copy is reserved for them until the pickup window closes;
+ * if they are to pick it up at another branch, it is set aside for them and a transfer there is requested.
+ * Otherwise the copy becomes available to anyone.
+ *
+ * @param copy the book copy that has come free
+ * @param fields where the copy is, if it has just arrived there, and why it came free, if it was not returned or left uncollected
+ * @returns the updated book copy
+ */
+export const releaseCopy = (copy: BookCopy, fields: ReleaseFields = {}): BookCopy => {
+  const [nextHold] = getHoldQueue(copy.bookId);
+  if (!nextHold) {
+    return transitionCopy(copy, 'available', fields);
+  }
+
+  const currentBranchId = fields.currentBranchId ?? copy.currentBranchId;
+  if (!nextHold.pickupBranchId || !currentBranchId || nextHold.pickupBranchId === currentBranchId) {
+    return reserveForPickup(copy, nextHold, fields);
+  }
+
+  updateHold(nextHold.id, { status: 'in-transit', copyId: copy.id });
+  const reservedCopy = transitionCopy(copy, 'reserved', { ...fields, patronId: nextHold.patronId });
+  requestTransfer(reservedCopy, nextHold.pickupBranchId, 'temporary', nextHold.id);
+  return reservedCopy;
+};
+
+/**
+ * Shelves a copy that a transfer has brought to its branch.
+ * If it was sent for a hold that is still waiting for it, it is reserved for the hold's patron;
+ * otherwise it is handed to the hold queue like any copy that comes free.
+ *
+ * @param copy the book copy, in transit
+ * @param transfer the received transfer
+ * @param location the branches the copy belongs to and is at now
+ * @returns the updated book copy
+ */
+export const shelveArrivedCopy = (
+  copy: BookCopy,
+  transfer: Transfer,
+  location: Pick<BookCopy, 'branchId' | 'currentBranchId'>
+): BookCopy => {
+  const hold = transfer.holdId ? findHoldById(transfer.holdId) : undefined;
+  return hold && hold.status === 'in-transit' && hold.copyId === copy.id
+    ? reserveForPickup(copy, hold, location)
+    : releaseCopy(copy, location);
+};
+
+/**
+ * Puts a hold back in its book's queue when the transfer taking its copy to the pickup branch ends without the copy,
+ * e.g. because the copy was lost or damaged on the way. The hold keeps its place and gets the next copy that comes free.
+ *
+ * @param transfer the ended transfer, if there was one
+ * @returns the hold put back in the queue, or undefined if the transfer was not for a hold still waiting on the copy
+ */
+export const requeueHold = (transfer: Transfer | undefined): Hold | undefined => {
+  const hold = transfer?.holdId ? findHoldById(transfer.holdId) : undefined;
+  return hold && hold.status === 'in-transit' && hold.copyId === transfer?.copyId
+    ? updateHold(hold.id, { status: 'waiting', copyId: undefined }) as Hold
+    : undefined;
+};
+
+/**
+ * Expires every ready hold whose pickup window has closed and rolls its copy over
+ * to the next hold in line.
+ *
+ * @returns the holds that were expired
+ */
+export const expireUncollectedHolds = (): Hold[] => {
+  const currentTime = now().getTime();
+  const expired = findReadyHolds()
+    .filter(hold => hold.pickupExpiresAt && Date.parse(hold.pickupExpiresAt) <= currentTime);
+
+  expired.forEach(hold => {
+    updateHold(hold.id, { status: 'expired' });
+    const copy = hold.copyId ? findBookCopyById(hold.copyId) : undefined;
+    if (copy && copy.status === 'reserved') {
+      releaseCopy(copy);
+    }
+  });
+
+  return expired;
+};
@@ -0,0 +1,51 @@
+import {
+  addIdempotentResponse,
+  deleteIdempotentResponse,
+  findIdempotentResponse,
+  listIdempotentResponses
+} from '../data/storage';
+import { IdempotentResponse } from '../models';
+import { idempotencyPolicy } from '../config';
+import { now } from './clock';
+
+/**
+ * Checks whether a kept response is older than the idempotency policy keeps responses for.
+ *
+ * @param response the kept response
+ * @param currentTime the time now in milliseconds
+ * @returns true if the response has expired
+ */
+const isExpired = (response: IdempotentResponse, currentTime: number): boolean =>
+  Date.parse(response.createdAt) + idempotencyPolicy.ttlSeconds * 1000 <= currentTime;
+
+/**
+ * Finds the response kept for a POST request sent with an Idempotency-Key header, unless it has expired.
+ *
+ * @param id the digest of the key, the user and the URL of the request
+ * @returns the kept response, or undefined if there is none or it has expired
+ */
+export const findRememberedResponse = (id: string): IdempotentResponse | undefined => {
+  const response = findIdempotentResponse(id);
+  return response && !isExpired(response, now().getTime()) ? response : undefined;
+};
+
+/**
+ * Keeps the response to a POST request sent with an Idempotency-Key header, so that a retry gets it again.
+ *
+ * @param response what to send to a retry, without the time it was kept
+ * @returns the kept response
+ */
+export const rememberResponse = (response: Omit<IdempotentResponse, 'createdAt'>): IdempotentResponse =>
+  addIdempotentResponse({ ...response, createdAt: now().toISOString() });
+
+/**
+ * Forgets every kept response that has expired, so that kept responses do not pile up.
+ *
+ * @returns the number of responses forgotten
+ */
+export const forgetExpiredResponses = (): number => {
+  const currentTime = now().getTime();
+  const expired = listIdempotentResponses().filter(response => isExpired(response, currentTime));
+  expired.forEach(response => deleteIdempotentResponse(response.id));
+  return expired.length;
+};
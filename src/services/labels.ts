@@ -0,0 +1,248 @@
+/**
+ * Printable label sheets for book copies: each label has the copy's branch and call number, the title of its book,
+ * and its barcode as Code 39, which every library scanner reads, with the barcode in text below.
+ * Sheets are US Letter pages of 30 labels (3 columns of 10, 2 5/8" by 1", like Avery 5160),
+ * drawn once and rendered as SVG or PDF.
+ */
+
+export type LabelFormat = 'svg' | 'pdf';
+
+/**
+ * The media type of each label sheet format.
+ */
+export const labelMediaTypes: Record<LabelFormat, string> = {
+  svg: 'image/svg+xml',
+  pdf: 'application/pdf',
+};
+
+/**
+ * What is printed on the label of one copy.
+ */
+export interface CopyLabel {
+  barcode: string;
+  branchCode?: string;
+  callNumber?: string;
+  title?: string;
+}
+
+/**
+ * Something drawn on a page, in points from the top left corner of the page.
+ * Text is placed by the left end of its baseline.
+ */
+type Shape =
+  | { kind: 'bar'; x: number; y: number; width: number; height: number }
+  | { kind: 'text'; x: number; y: number; size: number; text: string };
+
+const PAGE_WIDTH = 612;
+const PAGE_HEIGHT = 792;
+
+/**
+ * The grid of labels on a sheet, in points.
+ */
+const sheet = {
+  columns: 3,
+  rows: 10,
+  marginLeft: 13.5,
+  marginTop: 36,
+  columnPitch: 198,
+  rowPitch: 72,
+  labelWidth: 189,
+  padding: 9,
+};
+
+/**
+ * The number of labels on one sheet.
+ */
+export const LABELS_PER_SHEET = sheet.columns * sheet.rows;
+
+/**
+ * The Code 39 pattern of each character: its five bars and four spaces in turn, 1 for wide and 0 for narrow.
+ */
+const code39Patterns: Record<string, string> = {
+  '0': '000110100', '1': '100100001', '2': '001100001', '3': '101100000', '4': '000110001',
+  '5': '100110000', '6': '001110000', '7': '000100101', '8': '100100100', '9': '001100100',
+  A: '100001001', B: '001001001', C: '101001000', D: '000011001', E: '100011000', F: '001011000',
+  G: '000001101', H: '100001100', I: '001001100', J: '000011100', K: '100000011', L: '001000011',
+  M: '101000010', N: '000010011', O: '100010010', P: '001010010', Q: '000000111', R: '100000110',
+  S: '001000110', T: '000010110', U: '110000001', V: '011000001', W: '111000000', X: '010010001',
+  Y: '110010000', Z: '011010000', '-': '010000101', '.': '110000100', ' ': '011000100', '*': '010010100',
+};
+
+/**
+ * How many narrow modules wide a wide bar or space is.
+ */
+const WIDE_RATIO = 2.5;
+
+/**
+ * Encodes text as Code 39, between the start and stop characters, with a narrow space between characters.
+ *
+ * @param text the upper-case letters, digits, hyphens, dots and spaces to encode
+ * @returns the bars, as their offset and width in narrow modules, and the total width in narrow modules
+ */
+const encodeCode39 = (text: string): { bars: { offset: number; width: number }[]; width: number } => {
+  const bars: { offset: number; width: number }[] = [];
+  let offset = 0;
+  `*${text}*`.split('').forEach((char, index) => {
+    if (index > 0) offset += 1;
+    code39Patterns[char].split('').forEach((element, position) => {
+      const width = element === '1' ? WIDE_RATIO : 1;
+      if (position % 2 === 0) bars.push({ offset, width });
+      offset += width;
+    });
+  });
+  return { bars, width: offset };
+};
+
+/**
+ * Shortens text to a number of characters, marking that it was cut.
+ *
+ * @param text the text
+ * @param length the most characters to keep
+ * @returns the text, shortened if it was longer
+ */
+const truncate = (text: string, length: number): string =>
+  text.length > length ? `${text.slice(0, length - 3).trimEnd()}...` : text;
+
+/**
+ * Draws the label of one copy.
+ *
+ * @param label what to print on the label
+ * @param left the left edge of the label on the page
+ * @param top the top edge of the label on the page
+ * @returns the shapes of the label
+ */
+const drawLabel = (label: CopyLabel, left: number, top: number): Shape[] => {
+  const x = left + sheet.padding;
+  const innerWidth = sheet.labelWidth - 2 * sheet.padding;
+  const { bars, width } = encodeCode39(label.barcode);
+  const module = Math.min(1, innerWidth / width);
+
+  const heading = [label.branchCode, label.callNumber].filter(Boolean).join('  ');
+  return [
+    { kind: 'text', x, y: top + 15, size: 9, text: truncate(heading, 36) },
+    { kind: 'text', x, y: top + 24, size: 6, text: truncate(label.title ?? '', 52) },
+    ...bars.map(bar => ({ kind: 'bar' as const, x: x + bar.offset * module, y: top + 28, width: bar.width * module, height: 28 })),
+    { kind: 'text', x, y: top + 64, size: 7, text: label.barcode },
+  ];
+};
+
+/**
+ * Lays the labels out on as many sheets as they need, filling each sheet row by row.
+ *
+ * @param labels the labels to print
+ * @returns the shapes on each page
+ */
+const layoutSheets = (labels: CopyLabel[]): Shape[][] => {
+  const pages: Shape[][] = [];
+  labels.forEach((label, index) => {
+    const slot = index % LABELS_PER_SHEET;
+    if (slot === 0) pages.push([]);
+    const left = sheet.marginLeft + (slot % sheet.columns) * sheet.columnPitch;
+    const top = sheet.marginTop + Math.floor(slot / sheet.columns) * sheet.rowPitch;
+    pages[pages.length - 1].push(...drawLabel(label, left, top));
+  });
+  return pages;
+};
+
+/**
+ * Formats a coordinate for SVG or PDF, with at most two decimals.
+ *
+ * @param value the coordinate in points
+ * @returns the coordinate as text
+ */
+const points = (value: number): string => String(Math.round(value * 100) / 100);
+
+/**
+ * Escapes text for an SVG document.
+ *
+ * @param text the text
+ * @returns the escaped text
+ */
+const escapeXml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/**
+ * Renders the sheets as one SVG document, with the pages one below the other.
+ *
+ * @param pages the shapes on each page
+ * @returns the SVG document
+ */
+const renderSvg = (pages: Shape[][]): string => {
+  const height = PAGE_HEIGHT * pages.length;
+  const body = pages.map((shapes, index) => [
+    `<g transform="translate(0 ${PAGE_HEIGHT * index})">`,
+    `<rect width="${PAGE_WIDTH}" height="${PAGE_HEIGHT}" fill="#fff"/>`,
+    ...shapes.map(shape => shape.kind === 'bar'
+      ? `<rect x="${points(shape.x)}" y="${points(shape.y)}" width="${points(shape.width)}" height="${points(shape.height)}"/>`
+      : `<text x="${points(shape.x)}" y="${points(shape.y)}" font-size="${shape.size}">${escapeXml(shape.text)}</text>`),
+    '</g>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${PAGE_WIDTH}pt" height="${height}pt" viewBox="0 0 ${PAGE_WIDTH} ${height}" `
+      + 'font-family="Helvetica, Arial, sans-serif">',
+    ...body,
+    '</svg>',
+    '',
+  ].join('\n');
+};
+
+/**
+ * Escapes text for a PDF string in the standard Helvetica font,
+ * which only has Latin characters: accents are dropped and other characters become question marks.
+ *
+ * @param text the text
+ * @returns the escaped text
+ */
+const escapePdfText = (text: string): string =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').replace(/[^\x20-\x7e]/g, '?').replace(/([\\()])/g, '\\$1');
+
+/**
+ * Renders the sheets as a PDF document with one page per sheet, using the standard Helvetica font.
+ *
+ * @param pages the shapes on each page
+ * @returns the PDF document
+ */
+const renderPdf = (pages: Shape[][]): Buffer => {
+  const objects: string[] = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${4 + 2 * index} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+  ];
+  pages.forEach((shapes, index) => {
+    const content = shapes.map(shape => shape.kind === 'bar'
+      ? `${points(shape.x)} ${points(PAGE_HEIGHT - shape.y - shape.height)} ${points(shape.width)} ${points(shape.height)} re f`
+      : `BT /F1 ${shape.size} Tf ${points(shape.x)} ${points(PAGE_HEIGHT - shape.y)} Td (${escapePdfText(shape.text)}) Tj ET`)
+      .join('\n');
+    objects.push(
+      `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] `
+        + `/Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + 2 * index} 0 R >>`,
+      `<< /Length ${Buffer.byteLength(content)} >>\nstream\n${content}\nendstream`
+    );
+  });
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = Buffer.byteLength(pdf);
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = Buffer.byteLength(pdf);
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+  return Buffer.from(pdf, 'latin1');
+};
+
+/**
+ * Renders sheets of labels for book copies.
+ *
+ * @param labels the labels to print, in order
+ * @param format the format of the document
+ * @returns the SVG document as text, or the PDF document as bytes
+ */
+export const renderLabelSheets = (labels: CopyLabel[], format: LabelFormat): string | Buffer => {
+  const pages = layoutSheets(labels);
+  return format === 'pdf' ? renderPdf(pages) : renderSvg(pages);
+};
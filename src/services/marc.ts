@@ -0,0 +1,311 @@
+import { StringDecoder } from 'string_decoder';
+import { MarcField, MarcRecord } from '../models';
+
+/**
+ * Reading and writing MARC 21 bibliographic records, both in the ISO 2709 exchange format
+ * (the binary "MARC file" that library systems trade) and as MARCXML.
+ * Records are always read and written as UTF-8.
+ */
+
+export type MarcFormat = 'marc' | 'marcxml';
+
+/**
+ * The media type of each MARC format.
+ */
+export const marcMediaTypes: Record<MarcFormat, string> = {
+  marc: 'application/marc',
+  marcxml: 'application/marcxml+xml',
+};
+
+/**
+ * The contents of a MARC record, without the id of the book it is kept for.
+ */
+export type MarcData = Pick<MarcRecord, 'leader' | 'fields'>;
+
+/**
+ * One record read from a MARC file, numbered from 1 in the order of the file.
+ */
+export interface MarcSource {
+  number: number;
+  record?: MarcData;
+  error?: string;
+}
+
+const SUBFIELD_DELIMITER = '\x1f';
+const FIELD_TERMINATOR = '\x1e';
+const RECORD_TERMINATOR = '\x1d';
+
+/**
+ * The leader of a new record: a new monograph of language material, without ISBD punctuation.
+ * The record length and base address are filled in when the record is written.
+ */
+export const DEFAULT_LEADER = '00000nam a2200000 c 4500';
+
+const MARCXML_NAMESPACE = 'http://www.loc.gov/MARC21/slim';
+
+/**
+ * Checks whether a tag names a control field, which has a value instead of indicators and subfields.
+ *
+ * @param tag the three-character tag
+ * @returns true for tags 001 to 009
+ */
+export const isControlTag = (tag: string): boolean => /^00\d$/.test(tag);
+
+/**
+ * Parses the data of one field as stored in an ISO 2709 record.
+ *
+ * @param tag the tag of the field
+ * @param text the field data, without its field terminator
+ * @returns the field
+ */
+const parseFieldData = (tag: string, text: string): MarcField => {
+  if (isControlTag(tag)) {
+    return { tag, value: text };
+  }
+  const [, ...subfields] = text.slice(2).split(SUBFIELD_DELIMITER);
+  return {
+    tag,
+    indicators: text.slice(0, 2).padEnd(2, ' '),
+    subfields: subfields.map(subfield => ({ code: subfield.charAt(0), value: subfield.slice(1) })),
+  };
+};
+
+/**
+ * Parses one ISO 2709 record.
+ * Fields are located through the directory, so their data may be in any order.
+ *
+ * @param data the bytes of the record, up to and including its record terminator
+ * @returns the record
+ * @throws Error if the leader or directory is malformed, or a field lies outside the record
+ */
+export const parseIso2709Record = (data: Buffer): MarcData => {
+  const leader = data.toString('latin1', 0, 24);
+  const baseAddress = Number(leader.slice(12, 17));
+  if (data.length < 25 || !/^\d{5}$/.test(leader.slice(12, 17)) || baseAddress <= 24 || baseAddress > data.length) {
+    throw new Error('Malformed leader');
+  }
+
+  const directory = data.toString('latin1', 24, baseAddress - 1);
+  if (directory.length % 12 !== 0 || data[baseAddress - 1] !== FIELD_TERMINATOR.charCodeAt(0)) {
+    throw new Error('Malformed directory');
+  }
+
+  const fields: MarcField[] = [];
+  for (let i = 0; i < directory.length; i += 12) {
+    const tag = directory.slice(i, i + 3);
+    const length = Number(directory.slice(i + 3, i + 7));
+    const start = baseAddress + Number(directory.slice(i + 7, i + 12));
+    if (!Number.isInteger(length) || !Number.isInteger(start) || start + length > data.length) {
+      throw new Error(`Field ${tag} lies outside the record`);
+    }
+    const text = data.toString('utf8', start, start + length);
+    fields.push(parseFieldData(tag, text.endsWith(FIELD_TERMINATOR) ? text.slice(0, -1) : text));
+  }
+  return { leader, fields };
+};
+
+/**
+ * Writes a record in the ISO 2709 exchange format.
+ * The record length, base address, character coding (UTF-8) and entry map of the leader are filled in.
+ *
+ * @param record the record to write
+ * @returns the bytes of the record, including its record terminator
+ * @throws RangeError if a field or the record is too long for the format's length fields
+ */
+export const toIso2709Record = (record: MarcData): Buffer => {
+  const fieldData = record.fields.map(field => Buffer.from(
+    (field.subfields
+      ? `${(field.indicators ?? '  ').padEnd(2, ' ').slice(0, 2)}${field.subfields
+        .map(({ code, value }) => `${SUBFIELD_DELIMITER}${code}${value}`)
+        .join('')}`
+      : field.value ?? '') + FIELD_TERMINATOR,
+    'utf8'
+  ));
+
+  let offset = 0;
+  const directory = record.fields.map((field, index) => {
+    const length = fieldData[index].length;
+    if (length > 9999) {
+      throw new RangeError(`Field ${field.tag} is too long for ISO 2709`);
+    }
+    const entry = `${field.tag}${String(length).padStart(4, '0')}${String(offset).padStart(5, '0')}`;
+    offset += length;
+    return entry;
+  }).join('');
+
+  const baseAddress = 24 + directory.length + 1;
+  const recordLength = baseAddress + offset + 1;
+  if (recordLength > 99999) {
+    throw new RangeError('The record is too long for ISO 2709');
+  }
+
+  const leader = record.leader.padEnd(24, ' ');
+  const head = `${String(recordLength).padStart(5, '0')}${leader.slice(5, 9)}a22`
+    + `${String(baseAddress).padStart(5, '0')}${leader.slice(17, 20)}4500`;
+  return Buffer.concat([
+    Buffer.from(`${head}${directory}${FIELD_TERMINATOR}`, 'latin1'),
+    ...fieldData,
+    Buffer.from(RECORD_TERMINATOR, 'latin1'),
+  ]);
+};
+
+/**
+ * Replaces the XML character and entity references in text with the characters they stand for.
+ *
+ * @param text the escaped text
+ * @returns the text
+ */
+const unescapeXml = (text: string): string =>
+  text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos);/gi, (reference, name: string) => {
+    if (name.startsWith('#x') || name.startsWith('#X')) return String.fromCodePoint(parseInt(name.slice(2), 16));
+    if (name.startsWith('#')) return String.fromCodePoint(parseInt(name.slice(1), 10));
+    const entities: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', apos: '\'' };
+    return entities[name.toLowerCase()] ?? reference;
+  });
+
+/**
+ * Escapes text for use in XML content or attribute values.
+ *
+ * @param text the text
+ * @returns the escaped text
+ */
+const escapeXml = (text: string): string =>
+  text.replace(/[&<>"]/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;' })[char] as string);
+
+/**
+ * Reads the attributes of an XML start tag.
+ *
+ * @param tag the text of the start tag
+ * @returns the value of each attribute
+ */
+const xmlAttributes = (tag: string): Record<string, string> =>
+  Object.fromEntries(Array.from(tag.matchAll(/([\w:-]+)\s*=\s*"([^"]*)"/g), ([, name, value]) => [name, unescapeXml(value)]));
+
+/**
+ * Parses the content of one MARCXML record element.
+ * Elements may carry a namespace prefix, such as marc:datafield.
+ *
+ * @param xml the XML inside the record element
+ * @returns the record
+ * @throws Error if the record has no leader
+ */
+export const parseMarcXmlRecord = (xml: string): MarcData => {
+  const leader = /<(?:[\w-]+:)?leader\b[^>]*>([\s\S]*?)<\//.exec(xml);
+  if (!leader) {
+    throw new Error('Missing leader');
+  }
+
+  const fields: MarcField[] = [];
+  const fieldPattern = /<(?:[\w-]+:)?(controlfield|datafield)\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?\1>/g;
+  for (const [, element, attributes, content] of xml.matchAll(fieldPattern)) {
+    const { tag = '', ind1 = ' ', ind2 = ' ' } = xmlAttributes(attributes);
+    if (element === 'controlfield') {
+      fields.push({ tag, value: unescapeXml(content) });
+      continue;
+    }
+    const subfieldPattern = /<(?:[\w-]+:)?subfield\b([^>]*)>([\s\S]*?)<\/(?:[\w-]+:)?subfield>/g;
+    fields.push({
+      tag,
+      indicators: `${ind1.charAt(0) || ' '}${ind2.charAt(0) || ' '}`,
+      subfields: Array.from(content.matchAll(subfieldPattern), ([, subfieldAttributes, value]) => ({
+        code: xmlAttributes(subfieldAttributes).code ?? '',
+        value: unescapeXml(value),
+      })),
+    });
+  }
+  return { leader: unescapeXml(leader[1]).padEnd(24, ' ').slice(0, 24), fields };
+};
+
+/**
+ * Writes one record as a MARCXML record element.
+ *
+ * @param record the record to write
+ * @returns the record element, indented to sit inside a collection
+ */
+export const toMarcXmlRecord = (record: MarcData): string => {
+  const lines = ['  <record>', `    <leader>${escapeXml(record.leader)}</leader>`];
+  record.fields.forEach(field => {
+    if (!field.subfields) {
+      lines.push(`    <controlfield tag="${escapeXml(field.tag)}">${escapeXml(field.value ?? '')}</controlfield>`);
+      return;
+    }
+    const [ind1, ind2] = (field.indicators ?? '  ').padEnd(2, ' ');
+    lines.push(`    <datafield tag="${escapeXml(field.tag)}" ind1="${escapeXml(ind1)}" ind2="${escapeXml(ind2)}">`);
+    field.subfields.forEach(({ code, value }) => {
+      lines.push(`      <subfield code="${escapeXml(code)}">${escapeXml(value)}</subfield>`);
+    });
+    lines.push('    </datafield>');
+  });
+  lines.push('  </record>');
+  return lines.join('\n');
+};
+
+/**
+ * Writes records as a MARCXML collection document.
+ *
+ * @param records the records to write
+ * @returns the XML document
+ */
+export const toMarcXml = (records: MarcData[]): string => [
+  '<?xml version="1.0" encoding="UTF-8"?>',
+  `<collection xmlns="${MARCXML_NAMESPACE}">`,
+  ...records.map(toMarcXmlRecord),
+  '</collection>',
+  '',
+].join('\n');
+
+/**
+ * Reads the records of a MARC file as it arrives, without buffering the whole upload.
+ * Records that cannot be parsed are returned with an error instead, so the rest of the file can still be read.
+ *
+ * @param input the stream of the uploaded file
+ * @param format the format of the file
+ * @returns the records of the file, in order
+ */
+export async function* readMarcRecords(input: AsyncIterable<Buffer | string>, format: MarcFormat): AsyncGenerator<MarcSource> {
+  let number = 0;
+  const parse = (read: () => MarcData): MarcSource => {
+    number++;
+    try {
+      return { number, record: read() };
+    } catch (err) {
+      return { number, error: (err as Error).message };
+    }
+  };
+
+  if (format === 'marc') {
+    let pending = Buffer.alloc(0);
+    for await (const chunk of input) {
+      pending = Buffer.concat([pending, Buffer.from(chunk)]);
+      let end = pending.indexOf(RECORD_TERMINATOR);
+      while (end !== -1) {
+        // Some systems put a line break between records.
+        let start = 0;
+        while (start < end && pending[start] <= 0x20) start++;
+        const data = pending.subarray(start, end + 1);
+        pending = pending.subarray(end + 1);
+        if (data.length > 1) yield parse(() => parseIso2709Record(data));
+        end = pending.indexOf(RECORD_TERMINATOR);
+      }
+    }
+    if (pending.toString('latin1').trim()) {
+      yield parse(() => {
+        throw new Error('Missing record terminator');
+      });
+    }
+    return;
+  }
+
+  const decoder = new StringDecoder('utf8');
+  const recordPattern = /<(?:[\w-]+:)?record\b[^>]*>([\s\S]*?)<\/(?:[\w-]+:)?record\s*>/g;
+  let pending = '';
+  for await (const chunk of input) {
+    pending += typeof chunk === 'string' ? chunk : decoder.write(chunk);
+    let consumed = 0;
+    for (const match of pending.matchAll(recordPattern)) {
+      yield parse(() => parseMarcXmlRecord(match[1]));
+      consumed = (match.index ?? 0) + match[0].length;
+    }
+    pending = pending.slice(consumed);
+  }
+}
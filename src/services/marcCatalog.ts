@@ -0,0 +1,277 @@
+import {
+  findAuthorById,
+  findGenreById,
+  findBookByIsbn,
+  findMarcRecordByBookId,
+  saveMarcRecord,
+  deleteMarcRecord,
+  onStorageChange
+} from '../data/storage';
+import { Author, Book, MarcField } from '../models';
+import { normalizeIsbn } from '../models/isbn';
+import { parsePartialDate } from '../models/partialDate';
+import { SourceRecord } from './catalogFormats';
+import { ImportReport, importCatalog } from './catalogTransfer';
+import { DEFAULT_LEADER, MarcData, MarcSource } from './marc';
+import { authorName, foldText } from './search';
+
+/**
+ * The catalog fields a MARC record maps to:
+ * 020 $a is the ISBN, 245 $a and $b the title, 520 $a the summary,
+ * 100 and the 700s for authors the authors, and 650 and 655 $a the genres.
+ */
+export interface MarcCatalogFields {
+  isbn?: string;
+  title?: string;
+  summary?: string;
+  authors: string[];
+  genres: string[];
+}
+
+/**
+ * The outcome of a MARC import: the report of the catalog rows the records were mapped to, one per genre and one per book,
+ * with errors numbered by record.
+ */
+export interface MarcImportReport extends ImportReport {
+  records: number;
+}
+
+/**
+ * Strips the punctuation MARC cataloguing rules put at the end of subfields, such as the " /" before a statement
+ * of responsibility or the comma before dates, keeping the full stop of a trailing initial.
+ *
+ * @param text the subfield value
+ * @returns the value without trailing punctuation
+ */
+const trimPunctuation = (text: string): string => {
+  const trimmed = text.replace(/[\s,;:/=]+$/, '');
+  return /(^|\s)\p{Lu}\.$/u.test(trimmed) ? trimmed : trimmed.replace(/\.+$/, '');
+};
+
+/**
+ * Lists the values of one subfield of a field.
+ *
+ * @param field the field
+ * @param code the subfield code
+ * @returns the values of every subfield with the code, in order
+ */
+const subfieldValues = (field: MarcField, code: string): string[] =>
+  (field.subfields ?? []).filter(subfield => subfield.code === code).map(subfield => subfield.value);
+
+/**
+ * Builds a data field.
+ *
+ * @param tag the tag of the field
+ * @param indicators the two indicators
+ * @param subfields the code and value of each subfield
+ * @returns the field
+ */
+const dataField = (tag: string, indicators: string, subfields: [string, string][]): MarcField =>
+  ({ tag, indicators, subfields: subfields.map(([code, value]) => ({ code, value })) });
+
+/**
+ * Checks whether a 100 or 700 field names an author of the book, rather than e.g. its illustrator or editor.
+ * Entries without a relator term or code are taken to be authors.
+ *
+ * @param field the personal name field
+ * @returns true if the field names an author
+ */
+const isAuthorEntry = (field: MarcField): boolean => {
+  const relators = [...subfieldValues(field, 'e'), ...subfieldValues(field, '4')]
+    .map(relator => trimPunctuation(relator).toLowerCase());
+  return field.tag === '100' || relators.length === 0 || relators.some(relator => relator === 'author' || relator === 'aut');
+};
+
+/**
+ * Reads the name in a personal name field in direct order.
+ * A surname entry (first indicator 1) such as "Le Guin, Ursula K." becomes "Ursula K. Le Guin".
+ *
+ * @param field the personal name field
+ * @returns the name, or an empty string if the field has none
+ */
+const personalName = (field: MarcField): string => {
+  const name = trimPunctuation(subfieldValues(field, 'a')[0] ?? '');
+  const comma = name.indexOf(',');
+  if (field.indicators?.charAt(0) !== '1' || comma === -1) return name;
+  return `${name.slice(comma + 1).trim()} ${name.slice(0, comma).trim()}`.trim();
+};
+
+/**
+ * Writes the year of a life date as the dates of a personal name field give it, e.g. 1564 or approximately 1564.
+ *
+ * @param date the partial date
+ * @returns the year, or an empty string if the date is not given
+ */
+const lifeYear = (date?: string): string => {
+  const parsed = date ? parsePartialDate(date) : undefined;
+  if (!parsed) return '';
+  return `${parsed.approximate ? 'approximately ' : ''}${String(parsed.year).padStart(4, '0')}`;
+};
+
+/**
+ * Builds the personal name field of an author, with their life dates.
+ *
+ * @param tag 100 for the main author, 700 for the others
+ * @param author the author
+ * @returns the field
+ */
+const personalNameField = (tag: string, author: Author): MarcField => {
+  const dates = `${lifeYear(author.birthDate)}-${lifeYear(author.deathDate)}`;
+  return author.lastName
+    ? dataField(tag, '1 ', [['a', `${author.lastName}, ${author.firstName}`], ['d', dates]])
+    : dataField(tag, '0 ', [['a', author.firstName], ['d', dates]]);
+};
+
+/**
+ * Compares two lists of names, ignoring case, diacritics and extra spaces.
+ *
+ * @param names the first list
+ * @param others the second list
+ * @param ordered whether the names must also be in the same order
+ * @returns true if the lists name the same things
+ */
+const sameNames = (names: string[], others: string[], ordered: boolean): boolean => {
+  const keys = (list: string[]): string[] => {
+    const folded = list.map(name => foldText(name).replace(/\s+/g, ' ').trim());
+    return ordered ? folded : folded.sort();
+  };
+  return JSON.stringify(keys(names)) === JSON.stringify(keys(others));
+};
+
+/**
+ * Reads the catalog fields of a MARC record.
+ *
+ * @param record the record
+ * @returns the ISBN, title, summary, author names and genre names the record gives
+ */
+export const marcToCatalogFields = (record: MarcData): MarcCatalogFields => {
+  const fieldsTagged = (...tags: string[]): MarcField[] => record.fields.filter(field => tags.includes(field.tag));
+
+  // 020 $a may be followed by a qualifier, e.g. "9780553383041 (pbk.)".
+  const isbn = fieldsTagged('020')
+    .flatMap(field => subfieldValues(field, 'a'))
+    .map(value => value.trim().split(/\s/)[0])
+    .find(value => normalizeIsbn(value) !== undefined);
+  const titleField = fieldsTagged('245')[0];
+  const title = titleField
+    && [...subfieldValues(titleField, 'a'), ...subfieldValues(titleField, 'b')].map(trimPunctuation).filter(Boolean).join(': ');
+  const summary = fieldsTagged('520').flatMap(field => subfieldValues(field, 'a')).join('\n\n');
+
+  return {
+    isbn,
+    title: title || undefined,
+    summary: summary || undefined,
+    authors: fieldsTagged('100', '700').filter(isAuthorEntry).map(personalName).filter(Boolean),
+    genres: Array.from(new Set(fieldsTagged('650', '655')
+      .flatMap(field => subfieldValues(field, 'a'))
+      .map(trimPunctuation)
+      .filter(Boolean))),
+  };
+};
+
+/**
+ * Imports MARC records into the catalog, creating or updating each record's book by ISBN.
+ * Genres that are not in the catalog yet are created from the record's subject headings;
+ * authors must already be in the catalog, since MARC records do not give full birth dates.
+ * Each record is validated like a book in a catalog import, and the whole record is kept with its book,
+ * so that fields the catalog does not map are exported again unchanged.
+ *
+ * @param sources the records to import, as read from the uploaded file
+ * @param dryRun whether to only validate the records, without writing anything
+ * @returns the report of the import
+ */
+export const importMarcRecords = async (sources: AsyncIterable<MarcSource>, dryRun: boolean): Promise<MarcImportReport> => {
+  let records = 0;
+  const imported: { number: number; isbn: string; record: MarcData }[] = [];
+
+  async function* catalogRows(): AsyncGenerator<SourceRecord> {
+    for await (const source of sources) {
+      records++;
+      if (!source.record) {
+        yield { line: source.number, error: source.error };
+        continue;
+      }
+
+      const { isbn, title, summary, authors, genres } = marcToCatalogFields(source.record);
+      for (const name of genres) {
+        yield { line: source.number, values: { type: 'genre', name } };
+      }
+      yield { line: source.number, values: { type: 'book', isbn, title, summary, authors, genres } };
+      if (isbn) imported.push({ number: source.number, isbn, record: source.record });
+    }
+  }
+
+  const report = await importCatalog(catalogRows(), dryRun);
+  if (!dryRun) {
+    const failed = new Set(report.errors.map(error => error.line));
+    imported.filter(({ number }) => !failed.has(number)).forEach(({ isbn, record }) => {
+      const book = findBookByIsbn(normalizeIsbn(isbn) as string);
+      if (book) saveMarcRecord({ id: book.id, leader: record.leader, fields: record.fields });
+    });
+  }
+  return { ...report, records };
+};
+
+/**
+ * Builds the MARC record of a book.
+ * If the book was imported from MARC, the kept record is used, with the fields the catalog maps rewritten
+ * only where the book has changed since; otherwise a new record is built from the book.
+ *
+ * @param book the book
+ * @returns the MARC record of the book
+ */
+export const bookToMarc = (book: Book): MarcData => {
+  const kept = findMarcRecordByBookId(book.id);
+  const original = kept ? marcToCatalogFields(kept) : undefined;
+  const authors = book.authorIds.flatMap(id => findAuthorById(id) ?? []);
+  const genres = book.genreIds.flatMap(id => findGenreById(id)?.name ?? []);
+  const isbn = normalizeIsbn(book.isbn) ?? book.isbn;
+
+  const mappings: { owns: (field: MarcField) => boolean; unchanged: boolean; fields: () => MarcField[] }[] = [
+    {
+      owns: field => field.tag === '020',
+      unchanged: original?.isbn !== undefined && normalizeIsbn(original.isbn) === isbn,
+      fields: () => [dataField('020', '  ', [['a', isbn]])],
+    },
+    {
+      owns: field => (field.tag === '100' || field.tag === '700') && isAuthorEntry(field),
+      unchanged: original !== undefined && sameNames(original.authors, authors.map(authorName), true),
+      fields: () => authors.map((author, index) => personalNameField(index === 0 ? '100' : '700', author)),
+    },
+    {
+      owns: field => field.tag === '245',
+      unchanged: original?.title === book.title,
+      fields: () => [dataField('245', authors.length > 0 ? '10' : '00', [['a', book.title]])],
+    },
+    {
+      owns: field => field.tag === '520',
+      unchanged: original?.summary === book.summary,
+      fields: () => [dataField('520', '  ', [['a', book.summary]])],
+    },
+    {
+      owns: field => field.tag === '650' || field.tag === '655',
+      unchanged: original !== undefined && sameNames(original.genres, genres, false),
+      fields: () => genres.map(name => dataField('650', ' 4', [['a', name]])),
+    },
+  ];
+
+  const fields = (kept?.fields ?? []).filter(field => !mappings.some(mapping => !mapping.unchanged && mapping.owns(field)));
+  mappings.filter(mapping => !mapping.unchanged).forEach(mapping => fields.push(...mapping.fields()));
+  if (!fields.some(field => field.tag === '001')) {
+    fields.push({ tag: '001', value: book.id });
+  }
+
+  return {
+    leader: kept?.leader ?? DEFAULT_LEADER,
+    fields: fields.sort((a, b) => a.tag.localeCompare(b.tag)),
+  };
+};
+
+/**
+ * Drops the MARC record kept for a book when the book is deleted.
+ */
+onStorageChange(change => {
+  if (change.collection === 'books' && !change.after) {
+    deleteMarcRecord(change.id);
+  }
+});
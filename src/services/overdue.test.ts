@@ -0,0 +1,66 @@
+import { addBookCopy, addLoan, findBookCopyById, findFineByLoanId, generateId } from '../data/storage';
+import { finePolicy } from '../config';
+import { resetClock, setClock } from './clock';
+import { runOverdueSweep } from './overdue';
+
+const travelTo = (time: string): void => setClock(() => new Date(time));
+
+const lend = (dueAt: string) => {
+  const copy = addBookCopy({
+    id: generateId('bookCopies'),
+    bookId: 'book1',
+    imprint: 'Test Press',
+    status: 'on-loan',
+    patronId: 'patron1',
+    dueBackDate: dueAt,
+  });
+  const loan = addLoan({
+    id: generateId('loans'),
+    copyId: copy.id,
+    patronId: 'patron1',
+    checkedOutAt: '2030-01-01T10:00:00.000Z',
+    dueAt,
+    renewals: 0,
+  });
+  return { copy, loan };
+};
+
+afterEach(resetClock);
+
+describe('runOverdueSweep', () => {
+  it('leaves a loan alone until the end of its due date', () => {
+    const { copy, loan } = lend('2030-01-15');
+    travelTo('2030-01-15T23:59:00Z');
+
+    const result = runOverdueSweep();
+
+    expect(result.newlyOverdueCopyIds).not.toContain(copy.id);
+    expect(findBookCopyById(copy.id)?.status).toBe('on-loan');
+    expect(findFineByLoanId(loan.id)).toBeUndefined();
+  });
+
+  it('marks the copy overdue and accrues a fine per day as the clock moves on', () => {
+    const { copy, loan } = lend('2030-02-15');
+
+    travelTo('2030-02-16T09:00:00Z');
+    expect(runOverdueSweep().newlyOverdueCopyIds).toContain(copy.id);
+    expect(findBookCopyById(copy.id)?.status).toBe('overdue');
+    expect(findFineByLoanId(loan.id)?.amountCents).toBe(Math.max(0, 1 - finePolicy.graceDays) * finePolicy.dailyRateCents);
+
+    travelTo('2030-02-20T09:00:00Z');
+    runOverdueSweep();
+    expect(findFineByLoanId(loan.id)).toMatchObject({
+      daysOverdue: 5,
+      amountCents: Math.min(Math.max(0, 5 - finePolicy.graceDays) * finePolicy.dailyRateCents, finePolicy.maxPerItemCents),
+    });
+  });
+
+  it('caps the fine at the per-item maximum', () => {
+    const { loan } = lend('2030-03-01');
+    travelTo('2031-03-01T09:00:00Z');
+
+    runOverdueSweep();
+
+    expect(findFineByLoanId(loan.id)?.amountCents).toBe(finePolicy.maxPerItemCents);
+  });
+});
@@ -0,0 +1,120 @@
+import {
+  findBookCopyById,
+  findFineByLoanId,
+  findOpenLoans,
+  addFine,
+  updateFine,
+  generateId
+} from '../data/storage';
+import { Fine, Loan } from '../models';
+import { finePolicy } from '../config';
+import { now } from './clock';
+import { transitionCopy } from './copyLifecycle';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * The outcome of a single overdue sweep.
+ */
+export interface OverdueSweepResult {
+  sweptAt: string;
+  openLoans: number;
+  overdueLoans: number;
+  newlyOverdueCopyIds: string[];
+  finesAccrued: number;
+}
+
+/**
+ * Counts the whole or partial days that have passed since a loan was due.
+ * A loan is due by the end of its due date (UTC).
+ *
+ * @param loan the loan to check
+ * @returns the number of days the loan is overdue, or 0 if it is not overdue
+ */
+export const getDaysOverdue = (loan: Loan): number => {
+  const lateMs = now().getTime() - Date.parse(`${loan.dueAt}T23:59:59.999Z`);
+  return lateMs <= 0 ? 0 : Math.ceil(lateMs / DAY_MS);
+};
+
+/**
+ * Computes the fine for a loan that is the given number of days overdue,
+ * skipping the grace period and capping the result at the per-item maximum.
+ *
+ * @param daysOverdue the number of days the loan is overdue
+ * @returns the fine in cents
+ */
+export const computeFineCents = (daysOverdue: number): number => {
+  const chargeableDays = Math.max(0, daysOverdue - finePolicy.graceDays);
+  return Math.min(chargeableDays * finePolicy.dailyRateCents, finePolicy.maxPerItemCents);
+};
+
+/**
+ * Brings the fine of a loan up to date with the number of days it is overdue.
+ * A fine is only created once the loan has passed its grace period, and waived fines are left alone.
+ * A fine that had been paid in full is reopened if it grows.
+ *
+ * @param loan the loan to charge
+ * @returns the loan's fine, or undefined if nothing is owed
+ */
+export const accrueFine = (loan: Loan): Fine | undefined => {
+  const daysOverdue = getDaysOverdue(loan);
+  const amountCents = computeFineCents(daysOverdue);
+  const existingFine = findFineByLoanId(loan.id);
+
+  if (!existingFine) {
+    if (amountCents === 0) return undefined;
+
+    const newFine: Fine = {
+      id: generateId('fines'),
+      patronId: loan.patronId,
+      copyId: loan.copyId,
+      loanId: loan.id,
+      daysOverdue,
+      amountCents,
+      paidCents: 0,
+      status: 'open',
+      createdAt: now().toISOString()
+    };
+    addFine(newFine);
+    return newFine;
+  }
+
+  if (existingFine.status === 'waived' || amountCents <= existingFine.amountCents) {
+    return existingFine;
+  }
+
+  return updateFine(existingFine.id, { daysOverdue, amountCents, status: 'open' }) as Fine;
+};
+
+/**
+ * Finds every open loan that is past its due date, marks its copy as overdue,
+ * and accrues the loan's fine according to the fine policy.
+ *
+ * @returns a summary of what the sweep found and changed
+ */
+export const runOverdueSweep = (): OverdueSweepResult => {
+  const openLoans = findOpenLoans();
+  const overdueLoans = openLoans.filter(loan => getDaysOverdue(loan) > 0);
+  const newlyOverdueCopyIds: string[] = [];
+  let finesAccrued = 0;
+
+  overdueLoans.forEach(loan => {
+    const copy = findBookCopyById(loan.copyId);
+    if (copy && copy.status === 'on-loan') {
+      transitionCopy(copy, 'overdue');
+      newlyOverdueCopyIds.push(copy.id);
+    }
+
+    if (accrueFine(loan)) {
+      finesAccrued += 1;
+    }
+  });
+
+  return {
+    sweptAt: now().toISOString(),
+    openLoans: openLoans.length,
+    overdueLoans: overdueLoans.length,
+    newlyOverdueCopyIds,
+    finesAccrued
+  };
+};
@@ -0,0 +1,29 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { User } from '../models';
+
+/**
+ * What is known about the request being handled, wherever in its handling the code runs.
+ * Code that runs outside a request, such as the scheduled sweeps, has no request context.
+ */
+export interface RequestContext {
+  requestId: string;
+  user?: User;
+}
+
+const contexts = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs a function, and everything it starts, within the context of a request.
+ *
+ * @param context the context of the request
+ * @param fn the function to run
+ * @returns what the function returns
+ */
+export const runInRequestContext = <T>(context: RequestContext, fn: () => T): T => contexts.run(context, fn);
+
+/**
+ * Returns the context of the request being handled.
+ *
+ * @returns the request context, or undefined outside a request
+ */
+export const currentRequestContext = (): RequestContext | undefined => contexts.getStore();
@@ -0,0 +1,324 @@
+import {
+  listBooks,
+  findBookById,
+  findAuthorById,
+  findGenreById,
+  findBooksByAuthorId,
+  findBooksByGenreId,
+  onStorageChange
+} from '../data/storage';
+import { Author, Book } from '../models';
+import { normalizeIsbn } from '../models/isbn';
+
+/**
+ * How much a match in each part of a book counts towards its relevance.
+ */
+const fieldWeights = {
+  isbn: 8,
+  title: 5,
+  author: 3,
+  genre: 2,
+  summary: 1,
+};
+
+/**
+ * How much a term that only starts with a query word counts, relative to an exact match.
+ */
+const PREFIX_MATCH_FACTOR = 0.5;
+
+/**
+ * The number of books matching a search that have one particular genre or author.
+ */
+export interface SearchFacet {
+  id: string;
+  name: string;
+  count: number;
+}
+
+/**
+ * A book matching a search, with its relevance score.
+ */
+export interface SearchHit {
+  book: Book;
+  score: number;
+}
+
+/**
+ * Narrows a search to the books of one author and/or one genre.
+ */
+export interface SearchFilters {
+  authorId?: string;
+  genreId?: string;
+}
+
+/**
+ * Every book matching a search, most relevant first, with facet counts over the same books.
+ */
+export interface SearchResult {
+  total: number;
+  hits: SearchHit[];
+  facets: {
+    genres: SearchFacet[];
+    authors: SearchFacet[];
+  };
+}
+
+/**
+ * An inverted index from terms to the books containing them, weighted by where in the book each term appears.
+ * The terms of each book are kept as well, so that a book can be taken out of the index when it changes.
+ * The sorted term list used for prefix matching is rebuilt lazily after the set of terms changes.
+ */
+interface SearchIndex {
+  postings: Map<string, Map<string, number>>;
+  documents: Map<string, Map<string, number>>;
+  sortedTerms?: string[];
+}
+
+let index: SearchIndex | undefined;
+
+/**
+ * Folds text for matching: strips diacritics and lower-cases it, so that "Émile" matches "emile".
+ *
+ * @param text the text to fold
+ * @returns the folded text
+ */
+export const foldText = (text: string): string =>
+  text.normalize('NFD').replace(/\p{M}/gu, '').toLowerCase();
+
+/**
+ * Splits text into folded words.
+ *
+ * @param text the text to split
+ * @returns the words of the text, in order
+ */
+export const tokenize = (text: string): string[] =>
+  foldText(text).split(/[^\p{L}\p{N}]+/u).filter(word => word.length > 0);
+
+/**
+ * Splits a search query into the terms to look up.
+ * A word of the query that is an ISBN, with or without hyphens, becomes its canonical ISBN-13.
+ *
+ * @param query the search query as typed
+ * @returns the terms of the query
+ */
+const queryTerms = (query: string): string[] =>
+  query.split(/\s+/).flatMap(word => {
+    const isbn = normalizeIsbn(word);
+    return isbn ? [isbn] : tokenize(word);
+  });
+
+/**
+ * Builds the display name of an author.
+ *
+ * @param author the author
+ * @returns the author's first and last name
+ */
+export const authorName = (author: Author): string => `${author.firstName} ${author.lastName ?? ''}`.trim();
+
+/**
+ * Collects the weighted terms of a book from its title, summary, ISBN, authors' names, and genres' names.
+ *
+ * @param book the book to index
+ * @returns the weight of each term in the book
+ */
+const documentTerms = (book: Book): Map<string, number> => {
+  const terms = new Map<string, number>();
+  const add = (text: string, weight: number): void => {
+    tokenize(text).forEach(term => terms.set(term, (terms.get(term) ?? 0) + weight));
+  };
+
+  add(book.title, fieldWeights.title);
+  add(book.summary, fieldWeights.summary);
+  terms.set(normalizeIsbn(book.isbn) ?? book.isbn, fieldWeights.isbn);
+  book.authorIds.forEach(authorId => {
+    const author = findAuthorById(authorId);
+    if (author) add(authorName(author), fieldWeights.author);
+  });
+  book.genreIds.forEach(genreId => {
+    const genre = findGenreById(genreId);
+    if (genre) add(genre.name, fieldWeights.genre);
+  });
+  return terms;
+};
+
+/**
+ * Takes a book out of the index, if it is in it.
+ *
+ * @param searchIndex the index to update
+ * @param bookId the id of the book
+ */
+const removeDocument = (searchIndex: SearchIndex, bookId: string): void => {
+  searchIndex.documents.get(bookId)?.forEach((_, term) => {
+    const posting = searchIndex.postings.get(term);
+    posting?.delete(bookId);
+    if (posting?.size === 0) {
+      searchIndex.postings.delete(term);
+      searchIndex.sortedTerms = undefined;
+    }
+  });
+  searchIndex.documents.delete(bookId);
+};
+
+/**
+ * Adds a book to the index.
+ *
+ * @param searchIndex the index to update
+ * @param book the book to add; it must not already be in the index
+ */
+const addDocument = (searchIndex: SearchIndex, book: Book): void => {
+  const terms = documentTerms(book);
+  terms.forEach((weight, term) => {
+    let posting = searchIndex.postings.get(term);
+    if (!posting) {
+      posting = new Map();
+      searchIndex.postings.set(term, posting);
+      searchIndex.sortedTerms = undefined;
+    }
+    posting.set(book.id, weight);
+  });
+  searchIndex.documents.set(book.id, terms);
+};
+
+/**
+ * Brings the index entry of a book up to date with storage, removing it if the book was deleted.
+ *
+ * @param searchIndex the index to update
+ * @param bookId the id of the book
+ */
+const reindexBook = (searchIndex: SearchIndex, bookId: string): void => {
+  removeDocument(searchIndex, bookId);
+  const book = findBookById(bookId);
+  if (book) addDocument(searchIndex, book);
+};
+
+/**
+ * Returns the search index, building it from every book in storage the first time it is needed.
+ *
+ * @returns the search index
+ */
+const getIndex = (): SearchIndex => {
+  if (!index) {
+    const built: SearchIndex = { postings: new Map(), documents: new Map() };
+    listBooks().forEach(book => addDocument(built, book));
+    index = built;
+  }
+  return index;
+};
+
+/**
+ * Keeps the index in sync with storage once it has been built.
+ * A changed author or genre changes the indexed names of every book that lists it.
+ */
+onStorageChange(change => {
+  const searchIndex = index;
+  if (!searchIndex) return;
+  switch (change.collection) {
+  case 'books':
+    reindexBook(searchIndex, change.id);
+    break;
+  case 'authors':
+    findBooksByAuthorId(change.id).forEach(book => reindexBook(searchIndex, book.id));
+    break;
+  case 'genres':
+    findBooksByGenreId(change.id).forEach(book => reindexBook(searchIndex, book.id));
+    break;
+  }
+});
+
+/**
+ * Finds the indexed terms that match a query term: the term itself and every term it is a prefix of.
+ *
+ * @param searchIndex the index to search
+ * @param term the query term
+ * @returns each matching indexed term with the factor its weight counts for
+ */
+const matchingTerms = (searchIndex: SearchIndex, term: string): [string, number][] => {
+  if (!searchIndex.sortedTerms) {
+    searchIndex.sortedTerms = Array.from(searchIndex.postings.keys()).sort();
+  }
+  const terms = searchIndex.sortedTerms;
+
+  let low = 0;
+  let high = terms.length;
+  while (low < high) {
+    const middle = (low + high) >>> 1;
+    if (terms[middle] < term) low = middle + 1;
+    else high = middle;
+  }
+
+  const matches: [string, number][] = [];
+  for (let i = low; i < terms.length && terms[i].startsWith(term); i++) {
+    matches.push([terms[i], terms[i] === term ? 1 : PREFIX_MATCH_FACTOR]);
+  }
+  return matches;
+};
+
+/**
+ * Counts how many books have each of a set of ids, most common first.
+ *
+ * @param idLists the ids of each book
+ * @param nameOf looks up the display name of an id, or undefined if the record no longer exists
+ * @returns one facet per id
+ */
+const countFacets = (idLists: string[][], nameOf: (id: string) => string | undefined): SearchFacet[] => {
+  const counts = new Map<string, number>();
+  idLists.forEach(ids => new Set(ids).forEach(id => counts.set(id, (counts.get(id) ?? 0) + 1)));
+  return Array.from(counts)
+    .flatMap(([id, count]) => {
+      const name = nameOf(id);
+      return name === undefined ? [] : [{ id, name, count }];
+    })
+    .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name));
+};
+
+/**
+ * Searches the catalog for books matching every word of a query.
+ * Words match the title, summary, ISBN, and the names of a book's authors and genres,
+ * ignoring case and diacritics; a word also matches any longer word it is the start of.
+ * Books are ranked by where their matches are, with title and ISBN matches counting most.
+ *
+ * @param query the search query
+ * @param filters restricts the results to one author and/or genre
+ * @returns the matching books, most relevant first, and facet counts by genre and author
+ */
+export const searchBooks = (query: string, filters: SearchFilters = {}): SearchResult => {
+  const searchIndex = getIndex();
+  const terms = queryTerms(query);
+
+  let scores: Map<string, number> | undefined;
+  for (const term of terms) {
+    const termScores = new Map<string, number>();
+    matchingTerms(searchIndex, term).forEach(([indexed, factor]) => {
+      searchIndex.postings.get(indexed)?.forEach((weight, bookId) => {
+        termScores.set(bookId, Math.max(termScores.get(bookId) ?? 0, weight * factor));
+      });
+    });
+
+    scores = scores === undefined
+      ? termScores
+      : new Map(Array.from(scores)
+        .filter(([bookId]) => termScores.has(bookId))
+        .map(([bookId, score]) => [bookId, score + (termScores.get(bookId) as number)]));
+  }
+
+  const hits = Array.from(scores ?? [])
+    .flatMap(([bookId, score]) => {
+      const book = findBookById(bookId);
+      return book ? [{ book, score: Math.round(score * 100) / 100 }] : [];
+    })
+    .filter(({ book }) => !filters.authorId || book.authorIds.includes(filters.authorId))
+    .filter(({ book }) => !filters.genreId || book.genreIds.includes(filters.genreId))
+    .sort((a, b) => b.score - a.score || a.book.title.localeCompare(b.book.title));
+
+  return {
+    total: hits.length,
+    hits,
+    facets: {
+      genres: countFacets(hits.map(({ book }) => book.genreIds), id => findGenreById(id)?.name),
+      authors: countFacets(hits.map(({ book }) => book.authorIds), id => {
+        const author = findAuthorById(id);
+        return author && authorName(author);
+      }),
+    },
+  };
+};
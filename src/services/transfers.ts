@@ -0,0 +1,80 @@
+import {
+  addTransfer,
+  findOpenTransferByCopyId,
+  generateId,
+  updateTransfer
+} from '../data/storage';
+import { BookCopy, Transfer } from '../models';
+import { now } from './clock';
+import { transitionCopy } from './copyLifecycle';
+
+/**
+ * Requests that a copy be sent from the branch it is at to another branch.
+ * The copy stays where it is until the transfer is shipped.
+ *
+ * @param copy the book copy, which must be at a branch
+ * @param toBranchId the id of the branch to send it to
+ * @param kind whether the copy moves to the other branch for good or is only lent to it
+ * @param holdId the id of the hold the copy is sent to be picked up for, if any
+ * @returns the requested transfer
+ */
+export const requestTransfer = (
+  copy: BookCopy,
+  toBranchId: string,
+  kind: Transfer['kind'] = 'temporary',
+  holdId?: string
+): Transfer => addTransfer({
+  id: generateId('transfers'),
+  copyId: copy.id,
+  fromBranchId: copy.currentBranchId as string,
+  toBranchId,
+  kind,
+  status: 'requested',
+  holdId,
+  requestedAt: now().toISOString(),
+});
+
+/**
+ * Records that a requested transfer has left its branch, putting the copy in transit.
+ *
+ * @param transfer the requested transfer
+ * @param copy the book copy being transferred
+ * @returns the shipped transfer
+ */
+export const shipTransfer = (transfer: Transfer, copy: BookCopy): Transfer => {
+  transitionCopy(copy, 'in-transit');
+  return updateTransfer(transfer.id, { status: 'shipped', shippedAt: now().toISOString() }) as Transfer;
+};
+
+/**
+ * Records that a shipped transfer has arrived. Where the copy goes from there is up to the caller,
+ * which is given the branches the copy now belongs to and is at.
+ *
+ * @param transfer the shipped transfer
+ * @param copy the book copy being transferred
+ * @returns the received transfer, and the branches of the copy once it is shelved at the other end
+ */
+export const receiveTransfer = (
+  transfer: Transfer,
+  copy: BookCopy
+): { transfer: Transfer; location: Pick<BookCopy, 'branchId' | 'currentBranchId'> } => ({
+  transfer: updateTransfer(transfer.id, { status: 'received', receivedAt: now().toISOString() }) as Transfer,
+  location: {
+    branchId: transfer.kind === 'permanent' ? transfer.toBranchId : copy.branchId,
+    currentBranchId: transfer.toBranchId,
+  },
+});
+
+/**
+ * Cancels the transfer of a copy that is still being moved, if any,
+ * e.g. because the copy was checked out before it was shipped, or was lost on the way.
+ *
+ * @param copyId the id of the book copy
+ * @returns the cancelled transfer, or undefined if the copy was not being moved
+ */
+export const cancelOpenTransfer = (copyId: string): Transfer | undefined => {
+  const transfer = findOpenTransferByCopyId(copyId);
+  return transfer
+    ? updateTransfer(transfer.id, { status: 'cancelled', cancelledAt: now().toISOString() }) as Transfer
+    : undefined;
+};
@@ -0,0 +1,160 @@
+import {
+  findAuthorById,
+  findBookById,
+  findBookByIsbn,
+  findBookCopyById,
+  findBranchById,
+  findDeletedById,
+  findGenreById,
+  listDeleted,
+  purgeDeleted,
+  restoreDeleted,
+  TrashCollection
+} from '../data/storage';
+import { Entity } from '../data/repository';
+import { Author, Book, BookCopy, Deletable } from '../models';
+import { normalizeIsbn } from '../models/isbn';
+import { trashTypes } from '../models/schemas';
+import { migrateLegacyCopyStatuses } from './copyLifecycle';
+import { assignMissingBarcodes } from './barcodes';
+import { assignMissingSortNames } from './authors';
+
+/**
+ * A deleted record as the trash lists it.
+ */
+export interface TrashItem {
+  type: TrashCollection;
+  id: string;
+  deletedAt: string;
+  deletedWith?: string;
+  record: Entity;
+}
+
+/**
+ * The number of records purged from each collection.
+ */
+export type PurgeCounts = Record<TrashCollection, number>;
+
+/**
+ * Lists the records in the trash, most recently deleted first.
+ *
+ * @param type the collection to list, or undefined for every collection
+ * @returns the deleted records
+ */
+export const listTrash = (type?: TrashCollection): TrashItem[] =>
+  trashTypes
+    .filter(collection => type === undefined || collection === type)
+    .flatMap(collection => listDeleted(collection).map(record => ({
+      type: collection,
+      id: record.id,
+      deletedAt: record.deletedAt as string,
+      deletedWith: record.deletedWith,
+      record,
+    })))
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt));
+
+/**
+ * Lists the copies that were deleted along with a book.
+ *
+ * @param bookId the id of the book
+ * @returns the copies in the trash that were deleted with the book
+ */
+const copiesDeletedWith = (bookId: string): (Entity & Deletable)[] =>
+  listDeleted('bookCopies').filter(copy => copy.deletedWith === bookId);
+
+/**
+ * Lists the branches of a copy, its home branch and the branch it is at, that no longer exist.
+ *
+ * @param copy the copy
+ * @returns a description of each missing branch
+ */
+const missingBranches = (copy: BookCopy): string[] =>
+  [...new Set([copy.branchId, copy.currentBranchId])]
+    .filter((id): id is string => id !== undefined && !findBranchById(id))
+    .map(id => `Branch ${id} of copy ${copy.id} no longer exists`);
+
+/**
+ * Checks whether a deleted record can be restored without breaking the integrity of the catalog:
+ * a book's authors and genres must still exist and its ISBN must not have been reused,
+ * a copy's book and branches must still exist, as must the branches of the copies deleted with a book,
+ * and so must the author a pseudonym or variant is linked to.
+ *
+ * @param type the collection of the record
+ * @param record the deleted record
+ * @returns a description of each problem, or an empty list if the record can be restored
+ */
+export const restoreConflicts = (type: TrashCollection, record: Entity): string[] => {
+  if (type === 'books') {
+    const book = record as Book;
+    const reused = findBookByIsbn(normalizeIsbn(book.isbn) ?? book.isbn);
+    return [
+      ...book.authorIds.filter(id => !findAuthorById(id)).map(id => `Author ${id} no longer exists`),
+      ...book.genreIds.filter(id => !findGenreById(id)).map(id => `Genre ${id} no longer exists`),
+      ...(reused ? [`Book ${reused.id} now has ISBN ${book.isbnDisplay}`] : []),
+      ...copiesDeletedWith(book.id).flatMap(copy => missingBranches(copy as BookCopy)),
+    ];
+  }
+  if (type === 'bookCopies') {
+    const copy = record as BookCopy;
+    if (findBookById(copy.bookId)) return missingBranches(copy);
+    return copy.deletedWith === copy.bookId && findDeletedById('books', copy.bookId)
+      ? [`The copy was deleted with book ${copy.bookId}; restore the book instead`]
+      : [`Book ${copy.bookId} no longer exists`];
+  }
+  if (type === 'authors') {
+    const { canonicalAuthorId } = record as Author;
+    return canonicalAuthorId && !findAuthorById(canonicalAuthorId) ? [`Author ${canonicalAuthorId} no longer exists`] : [];
+  }
+  return [];
+};
+
+/**
+ * Takes a record out of the trash, along with the copies that were deleted with it if it is a book.
+ * Copies deleted while they were still in a legacy status are migrated to the copy lifecycle as they come back,
+ * copies deleted before copies had barcodes are given one, and authors deleted before authors had sort names are given one.
+ * Callers check restoreConflicts first.
+ *
+ * @param type the collection of the record
+ * @param id the id of the deleted record
+ * @returns the restored record, or null if it was not in the trash
+ */
+export const restoreFromTrash = (type: TrashCollection, id: string): Entity | null => {
+  const restored = restoreDeleted(type, id);
+  if (!restored) return null;
+
+  if (type === 'books') {
+    copiesDeletedWith(id).forEach(copy => restoreDeleted('bookCopies', copy.id));
+  }
+  if (type === 'books' || type === 'bookCopies') {
+    migrateLegacyCopyStatuses();
+    assignMissingBarcodes();
+  }
+  if (type === 'authors') {
+    assignMissingSortNames();
+  }
+  if (type === 'bookCopies') return findBookCopyById(id) ?? restored;
+  return type === 'authors' ? findAuthorById(id) ?? restored : restored;
+};
+
+/**
+ * Removes the records that were deleted before a cut-off time from the trash for good.
+ * Copies deleted with a book stay in the trash as long as their book does, and are purged with it.
+ *
+ * @param deletedBefore the cut-off time
+ * @returns the number of records purged from each collection
+ */
+export const purgeTrash = (deletedBefore: Date): PurgeCounts => {
+  const purged = Object.fromEntries(trashTypes.map(type => [type, 0])) as PurgeCounts;
+  const purge = (type: TrashCollection, id: string): void => {
+    if (purgeDeleted(type, id)) purged[type]++;
+  };
+
+  trashTypes.forEach(type => listDeleted(type)
+    .filter(record => Date.parse(record.deletedAt as string) < deletedBefore.getTime())
+    .forEach(record => {
+      if (type === 'bookCopies' && record.deletedWith && findDeletedById('books', record.deletedWith)) return;
+      if (type === 'books') copiesDeletedWith(record.id).forEach(copy => purge('bookCopies', copy.id));
+      purge(type, record.id);
+    }));
+  return purged;
+};
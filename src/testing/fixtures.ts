@@ -0,0 +1,140 @@
+import {
+  addAuthor,
+  addBook,
+  addBookCopy,
+  addBranch,
+  addGenre,
+  addPatron,
+  addUser,
+  generateId
+} from '../data/storage';
+import { Author, Book, BookCopy, Branch, Genre, Patron, User } from '../models';
+import { isValidIsbn13 } from '../models/isbn';
+import { issueToken } from '../services/auth';
+
+/**
+ * Records for tests to build on. Each factory adds a new record to storage with made-up but valid fields,
+ * which the test can override, so tests sharing a store do not step on each other's records.
+ */
+
+let counter = 0;
+
+/**
+ * Makes up a number not used before in this test file, to keep names, codes and ISBNs unique.
+ *
+ * @returns the number
+ */
+const nextNumber = (): number => {
+  counter += 1;
+  return counter;
+};
+
+/**
+ * Adds a user and signs them in.
+ *
+ * @param role the role of the user
+ * @param fields other fields of the user, e.g. the patron record they are linked to
+ * @returns the user and the Authorization header that signs them in
+ */
+export const signIn = (role: User['role'] = 'admin', fields: Partial<User> = {}): { user: User; auth: string } => {
+  const user = addUser({
+    id: generateId('users'),
+    username: `${role}${nextNumber()}`,
+    passwordHash: '',
+    role,
+    createdAt: new Date().toISOString(),
+    ...fields,
+  });
+  return { user, auth: `Bearer ${issueToken(user).token}` };
+};
+
+/**
+ * Adds a branch.
+ *
+ * @returns the branch
+ */
+export const newBranch = (): Branch => {
+  const number = nextNumber();
+  return addBranch({ id: generateId('branches'), code: `T${number}`, name: `Test Branch ${number}` });
+};
+
+/**
+ * Adds an author.
+ *
+ * @param fields the fields to set instead of the made-up ones
+ * @returns the author
+ */
+export const newAuthor = (fields: Partial<Author> = {}): Author => addAuthor({
+  id: generateId('authors'),
+  firstName: 'Test',
+  lastName: 'Author',
+  sortName: 'Author, Test',
+  birthDate: '1950',
+  ...fields,
+});
+
+/**
+ * Adds a genre.
+ *
+ * @returns the genre
+ */
+export const newGenre = (): Genre => addGenre({ id: generateId('genres'), name: `Test Genre ${nextNumber()}` });
+
+/**
+ * Adds a book, by a new author and in a new genre unless others are given, with an ISBN-13 of its own.
+ *
+ * @param fields the fields to set instead of the made-up ones
+ * @returns the book
+ */
+export const newBook = (fields: Partial<Book> = {}): Book => {
+  const prefix = `979${String(nextNumber()).padStart(9, '0')}`;
+  const isbn = [...'0123456789'].map(digit => prefix + digit).find(isValidIsbn13) as string;
+  return addBook({
+    id: generateId('books'),
+    title: 'Test Book',
+    authorIds: [newAuthor().id],
+    genreIds: [newGenre().id],
+    isbn,
+    isbnDisplay: isbn,
+    summary: 'A book made up for a test.',
+    ...fields,
+  });
+};
+
+/**
+ * Adds a copy of a book, available at a new branch unless told otherwise.
+ * A copy in transit is at no branch.
+ *
+ * @param book the book
+ * @param fields the fields to set instead of the made-up ones, e.g. the status or branch
+ * @returns the copy
+ */
+export const newCopy = (book: Book, fields: Partial<BookCopy> = {}): BookCopy => {
+  const branchId = fields.branchId ?? newBranch().id;
+  return addBookCopy({
+    id: generateId('bookCopies'),
+    bookId: book.id,
+    imprint: 'Test Press',
+    status: 'available',
+    branchId,
+    currentBranchId: fields.status === 'in-transit' ? undefined : branchId,
+    ...fields,
+  });
+};
+
+/**
+ * Adds a patron.
+ *
+ * @param fields the fields to set instead of the made-up ones
+ * @returns the patron
+ */
+export const newPatron = (fields: Partial<Patron> = {}): Patron => {
+  const number = nextNumber();
+  return addPatron({
+    id: generateId('patrons'),
+    firstName: 'Test',
+    lastName: `Patron ${number}`,
+    email: `patron${number}@example.com`,
+    ...fields,
+  });
+};